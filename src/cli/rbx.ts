@@ -0,0 +1,106 @@
+/// <reference types="node" />
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import {
+  parsePdb,
+  mergeExportExtPdb,
+  withUnreadableFile,
+  countDiagnostics,
+  headerProblem,
+  tracksToCsv,
+  databaseToJson,
+  type RekordboxDatabase
+} from '../lib/pdb';
+
+const USAGE = `Usage: rbx dump <export.pdb> [--format json|csv] [--ext <exportExt.pdb>]
+
+  --format json   Whole database: tracks, playlists, history, colors, MyTags, diagnostics (default)
+  --format csv    One row per track
+  --ext <file>    Also read exportExt.pdb for MyTags and missing BPM/genre
+`;
+
+interface DumpArgs {
+  file: string;
+  format: 'json' | 'csv';
+  ext: string | null;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): DumpArgs {
+  const [command, ...rest] = argv;
+  if (command !== 'dump') throw new UsageError(command ? `Unknown command: ${command}` : 'No command given');
+
+  const args: DumpArgs = { file: '', format: 'json', ext: null };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--format') {
+      const format = rest[++i];
+      if (format !== 'json' && format !== 'csv') throw new UsageError(`--format must be json or csv, got ${format ?? 'nothing'}`);
+      args.format = format;
+    } else if (arg === '--ext') {
+      const ext = rest[++i];
+      if (!ext) throw new UsageError('--ext needs a file');
+      args.ext = ext;
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else if (!args.file) {
+      args.file = arg;
+    } else {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (!args.file) throw new UsageError('No database file given');
+  return args;
+}
+
+async function load(args: DumpArgs): Promise<RekordboxDatabase> {
+  const database = parsePdb(await readFile(args.file), { fileName: basename(args.file) });
+  const problem = headerProblem(database.diagnostics);
+  if (problem) throw new Error(problem.message);
+  if (!args.ext) return database;
+
+  try {
+    return mergeExportExtPdb(database, await readFile(args.ext), { fileName: basename(args.ext) });
+  } catch (error) {
+    // Same as the app: the extension file is optional, so a bad one is reported, not fatal
+    return { ...database, diagnostics: withUnreadableFile(database.diagnostics, basename(args.ext), error) };
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv.includes('--help') || argv.includes('-h')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  let args: DumpArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`rbx: ${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let database: RekordboxDatabase;
+  try {
+    database = await load(args);
+  } catch (error) {
+    process.stderr.write(`rbx: could not read ${args.file}: ${error instanceof Error ? error.message : error}\n`);
+    return 1;
+  }
+
+  process.stdout.write(args.format === 'csv' ? tracksToCsv(database.tracks) : databaseToJson(database) + '\n');
+
+  // Keep stdout clean for piping; the details are in the JSON dump
+  const problems = countDiagnostics(database.diagnostics);
+  if (problems > 0) {
+    process.stderr.write(`rbx: ${problems} problem${problems !== 1 ? 's' : ''} while parsing; see "diagnostics" in --format json\n`);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
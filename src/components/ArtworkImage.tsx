@@ -0,0 +1,31 @@
+import { Disc3 } from 'lucide-react';
+import { useArtwork } from '@/hooks/useArtwork';
+import { useInView } from '@/hooks/useInView';
+import { cn } from '@/lib/utils';
+
+interface ArtworkImageProps {
+  rootHandle: FileSystemDirectoryHandle | null;
+  path: string | undefined;
+  large?: boolean;
+  className?: string;
+}
+
+export function ArtworkImage({ rootHandle, path, large = false, className }: ArtworkImageProps) {
+  // Only read from the stick once the row scrolls into view
+  const { ref: containerRef, inView: visible } = useInView<HTMLDivElement>();
+
+  const url = useArtwork(rootHandle, path, { large, enabled: visible });
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('flex shrink-0 items-center justify-center overflow-hidden rounded bg-muted', className)}
+    >
+      {url ? (
+        <img src={url} alt="" className="h-full w-full object-cover" draggable={false} />
+      ) : (
+        <Disc3 className="h-1/2 w-1/2 text-muted-foreground/50" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Palette, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { getTrackColorHex } from '@/lib/rekordbox-parser';
+import { cn } from '@/lib/utils';
+import type { TrackColor } from '@/types/rekordbox';
+
+interface ColorFilterProps {
+  colors: TrackColor[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+export function ColorFilter({ colors, selected, onChange }: ColorFilterProps) {
+  const toggle = (id: number) => {
+    onChange(selected.includes(id) ? selected.filter((c) => c !== id) : [...selected, id]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Filter by color"
+          className={cn('relative', selected.length > 0 && 'border-primary text-primary')}
+        >
+          <Palette className="h-4 w-4" />
+          {selected.length > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-primary-foreground">
+              {selected.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-3">
+        <div className="mb-2 flex items-center justify-between">
+          <h4 className="text-sm font-medium">Color</h4>
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs" onClick={() => onChange([])}>
+              <X className="h-3 w-3" />
+              Clear
+            </Button>
+          )}
+        </div>
+        <div className="space-y-1">
+          {colors.map((color) => {
+            const isActive = selected.includes(color.id);
+            return (
+              <button
+                key={color.id}
+                onClick={() => toggle(color.id)}
+                className={cn(
+                  'flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm transition-colors hover:bg-accent',
+                  isActive && 'bg-accent'
+                )}
+              >
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: getTrackColorHex(color.id) }}
+                />
+                <span className="truncate">{color.name}</span>
+              </button>
+            );
+          })}
+          <button
+            onClick={() => toggle(0)}
+            className={cn(
+              'flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm transition-colors hover:bg-accent',
+              selected.includes(0) && 'bg-accent'
+            )}
+          >
+            <span className="h-3 w-3 shrink-0 rounded-full border border-muted-foreground" />
+            <span className="truncate text-muted-foreground">No color</span>
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
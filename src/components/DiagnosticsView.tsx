@@ -0,0 +1,93 @@
+import { FileDown } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import type { ParseDiagnosticKind, ParseDiagnostics } from '@/types/rekordbox';
+
+interface DiagnosticsViewProps {
+  diagnostics: ParseDiagnostics;
+}
+
+const KIND_LABELS: Record<ParseDiagnosticKind, string> = {
+  'skipped-row': 'Skipped row',
+  'invalid-id': 'Invalid ID',
+  'bad-string': 'Unreadable text',
+  'bad-page': 'Bad page',
+  'broken-chain': 'Broken page chain',
+  'bad-table': 'Bad table pointer',
+  'bad-header': 'Bad file header',
+  'unreadable-file': 'Unreadable file'
+};
+
+function formatOffset(offset: number | null): string {
+  return offset === null ? '—' : `0x${offset.toString(16).toUpperCase().padStart(6, '0')}`;
+}
+
+function downloadJson(diagnostics: ParseDiagnostics) {
+  const blob = new Blob([JSON.stringify(diagnostics, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `parse-report-${new Date().toISOString().split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function DiagnosticsView({ diagnostics }: DiagnosticsViewProps) {
+  const counts = new Map<ParseDiagnosticKind, number>();
+  diagnostics.entries.forEach(d => counts.set(d.kind, (counts.get(d.kind) ?? 0) + 1));
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-4 border-b border-border bg-muted/30 px-4 py-2">
+        <p className="text-sm text-muted-foreground">
+          Parts of the database the parser skipped. Attach the JSON when reporting a missing track or playlist.
+        </p>
+        <Button variant="outline" size="sm" className="shrink-0 gap-2" onClick={() => downloadJson(diagnostics)}>
+          <FileDown className="h-4 w-4" />
+          Download JSON
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 border-b border-border px-4 py-2">
+        {Array.from(counts.entries()).map(([kind, count]) => (
+          <span key={kind} className="rounded-full border border-border px-2 py-0.5 text-xs text-foreground">
+            {KIND_LABELS[kind]}: {count}
+          </span>
+        ))}
+        {diagnostics.dropped > 0 && (
+          <span className="rounded-full border border-warning px-2 py-0.5 text-xs text-warning">
+            {diagnostics.dropped} more not listed
+          </span>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <Table>
+          <TableHeader className="sticky top-0 bg-background">
+            <TableRow className="border-border hover:bg-transparent">
+              <TableHead className="w-40">Problem</TableHead>
+              <TableHead className="w-36">File</TableHead>
+              <TableHead className="w-32">Table</TableHead>
+              <TableHead className="w-20 text-right">Page</TableHead>
+              <TableHead className="w-28 text-right">Offset</TableHead>
+              <TableHead className="min-w-[240px]">Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diagnostics.entries.map((d, index) => (
+              <TableRow key={index} className="border-border">
+                <TableCell className="text-foreground">{KIND_LABELS[d.kind]}</TableCell>
+                <TableCell className="text-muted-foreground">{d.file}</TableCell>
+                <TableCell className="text-muted-foreground">{d.table ?? '—'}</TableCell>
+                <TableCell className="text-right font-mono text-xs text-muted-foreground">{d.page ?? '—'}</TableCell>
+                <TableCell className="text-right font-mono text-xs text-muted-foreground">{formatOffset(d.offset)}</TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{d.message}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { formatDuration, formatFileSize } from '@/lib/rekordbox-parser';
+import { DUPLICATE_REASON_LABELS, type DuplicateGroup, type DuplicateReason } from '@/lib/duplicates';
+import { cn } from '@/lib/utils';
+
+interface DuplicatesViewProps {
+  groups: DuplicateGroup[];
+  references: Map<number, string[]>;
+}
+
+const REASONS = Object.keys(DUPLICATE_REASON_LABELS) as DuplicateReason[];
+
+export function DuplicatesView({ groups, references }: DuplicatesViewProps) {
+  const [reason, setReason] = useState<DuplicateReason | null>(null);
+  const shown = reason ? groups.filter(g => g.reason === reason) : groups;
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center gap-2 border-b border-border bg-muted/30 px-4 py-2">
+        <p className="mr-auto text-sm text-muted-foreground">
+          Tracks that look like copies of each other, with the playlists that use each copy.
+        </p>
+        <Button
+          variant={reason === null ? 'default' : 'outline'}
+          size="sm"
+          className={cn('h-7 px-2 text-xs', reason === null && 'bg-primary text-primary-foreground')}
+          onClick={() => setReason(null)}
+        >
+          All ({groups.length})
+        </Button>
+        {REASONS.map(value => (
+          <Button
+            key={value}
+            variant={reason === value ? 'default' : 'outline'}
+            size="sm"
+            className={cn('h-7 px-2 text-xs', reason === value && 'bg-primary text-primary-foreground')}
+            onClick={() => setReason(value)}
+          >
+            {DUPLICATE_REASON_LABELS[value]} ({groups.filter(g => g.reason === value).length})
+          </Button>
+        ))}
+      </div>
+
+      <ScrollArea className="flex-1">
+        {shown.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">No duplicates found.</p>
+        ) : (
+          <div className="space-y-4 p-4">
+            {shown.map((group, index) => (
+              <section key={`${group.reason}-${index}`} className="rounded-lg border border-border bg-card">
+                <h3 className="border-b border-border px-4 py-2 text-sm font-medium text-foreground">
+                  {DUPLICATE_REASON_LABELS[group.reason]}
+                  <span className="ml-2 font-normal text-muted-foreground">{group.tracks.length} copies</span>
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead className="w-16">Length</TableHead>
+                      <TableHead className="w-20">Bitrate</TableHead>
+                      <TableHead className="w-20">Size</TableHead>
+                      <TableHead className="w-24">Added</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Used in</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.tracks.map(track => {
+                      const usedIn = references.get(track.id) ?? [];
+                      return (
+                        <TableRow key={track.id}>
+                          <TableCell className="min-w-0">
+                            <span className="block truncate text-foreground">{track.title}</span>
+                            <span className="block truncate text-xs text-muted-foreground">{track.artist}</span>
+                          </TableCell>
+                          <TableCell className="tabular-nums text-muted-foreground">{formatDuration(track.duration)}</TableCell>
+                          <TableCell className="tabular-nums text-muted-foreground">{track.bitrate ? `${track.bitrate} kbps` : '--'}</TableCell>
+                          <TableCell className="tabular-nums text-muted-foreground">{formatFileSize(track.fileSize || 0)}</TableCell>
+                          <TableCell className="tabular-nums text-muted-foreground">
+                            {isNaN(track.dateAdded.getTime()) ? '--' : track.dateAdded.toISOString().slice(0, 10)}
+                          </TableCell>
+                          <TableCell className="max-w-xs break-all font-mono text-xs text-muted-foreground">{track.filePath}</TableCell>
+                          <TableCell>
+                            {usedIn.length === 0 ? (
+                              <span className="text-xs text-muted-foreground">No playlists</span>
+                            ) : (
+                              <span className="flex flex-wrap gap-1">
+                                {usedIn.map(path => (
+                                  <span key={path} className="rounded-full border border-border px-2 py-0.5 text-xs text-foreground">
+                                    {path}
+                                  </span>
+                                ))}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </section>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { FileDown, Loader2, RefreshCw } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { checkDriveHealth, listDriveFiles, HEALTH_ISSUE_LABELS, type HealthReport, type HealthSeverity } from '@/lib/drive-health';
+import { exportHealthReportToPdf } from '@/lib/pdf-export';
+import { cn } from '@/lib/utils';
+import type { RekordboxDatabase } from '@/types/rekordbox';
+
+interface HealthCheckViewProps {
+  database: RekordboxDatabase;
+  rootHandle: FileSystemDirectoryHandle | null;
+}
+
+const SEVERITY_LABELS: Record<HealthSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Notes',
+};
+
+const SEVERITY_CLASSES: Record<HealthSeverity, string> = {
+  error: 'border-destructive text-destructive',
+  warning: 'border-warning text-warning',
+  info: 'border-border text-muted-foreground',
+};
+
+export function HealthCheckView({ database, rootHandle }: HealthCheckViewProps) {
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [scanned, setScanned] = useState<number | null>(null);
+  // Bumped by "Check again"
+  const [run, setRun] = useState(0);
+
+  // Runs as soon as the view opens; a walk still going when the view closes is abandoned
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setScanned(0);
+    (async () => {
+      const files = rootHandle
+        ? await listDriveFiles(rootHandle, count => !cancelled && setScanned(count), () => cancelled)
+        : null;
+      if (cancelled) return;
+      setReport(checkDriveHealth(database, files));
+      setScanned(null);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [database, rootHandle, run]);
+
+  const driveName = rootHandle?.name ?? 'Library';
+  const counts = new Map<HealthSeverity, number>();
+  report?.issues.forEach(issue => counts.set(issue.severity, (counts.get(issue.severity) ?? 0) + 1));
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-4 border-b border-border bg-muted/30 px-4 py-2">
+        <p className="text-sm text-muted-foreground">
+          {rootHandle
+            ? 'Checks every track, playlist and analysis file against what is on the drive.'
+            : 'No drive folder is open, so only the database was checked. Open the drive to check its files too.'}
+        </p>
+        <div className="flex shrink-0 gap-2">
+          <Button variant="outline" size="sm" className="gap-2" disabled={!report} onClick={() => setRun(run + 1)}>
+            <RefreshCw className="h-4 w-4" />
+            Check again
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!report}
+            onClick={() => report && exportHealthReportToPdf(report, driveName)}
+          >
+            <FileDown className="h-4 w-4" />
+            Export PDF
+          </Button>
+        </div>
+      </div>
+
+      {!report ? (
+        <div className="flex flex-1 items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {scanned ? `Listing the drive… ${scanned} files` : 'Checking…'}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 border-b border-border px-4 py-2">
+            {(Object.keys(SEVERITY_LABELS) as HealthSeverity[]).map(severity => (
+              <span key={severity} className={cn('rounded-full border px-2 py-0.5 text-xs', SEVERITY_CLASSES[severity])}>
+                {SEVERITY_LABELS[severity]}: {counts.get(severity) ?? 0}
+              </span>
+            ))}
+            <span className="ml-auto text-xs text-muted-foreground">
+              {report.tracks} tracks{report.files !== null ? ` · ${report.files} files` : ''}
+            </span>
+          </div>
+
+          <ScrollArea className="flex-1">
+            {report.issues.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No problems found. Good to go.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Severity</TableHead>
+                    <TableHead className="w-56">Problem</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Detail</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <span className={cn('rounded-full border px-2 py-0.5 text-xs', SEVERITY_CLASSES[issue.severity])}>
+                          {issue.severity}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-foreground">{HEALTH_ISSUE_LABELS[issue.kind]}</TableCell>
+                      <TableCell className="break-words text-sm text-foreground">{issue.subject}</TableCell>
+                      <TableCell className="break-all font-mono text-xs text-muted-foreground">{issue.detail}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </>
+      )}
+    </div>
+  );
+}
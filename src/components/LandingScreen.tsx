@@ -1,7 +1,10 @@
-import { HardDrive, Usb, AlertCircle, Loader2, FileUp, CheckCircle, Info } from 'lucide-react';
+import { useState } from 'react';
+import { HardDrive, Usb, AlertCircle, Loader2, FileUp, CheckCircle, Info, KeyRound, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import type { USBStatus, LibraryPresence } from '@/types/rekordbox';
+import type { USBStatus, LibraryPresence, ParseProgress } from '@/types/rekordbox';
 import { isFileSystemAccessSupported } from '@/hooks/useRekordbox';
 import { DonateSection } from '@/components/DonateSection';
 
@@ -10,6 +13,9 @@ interface LandingScreenProps {
   onSelectFolder: () => void;
   onFullScan: () => void;
   onReset: () => void;
+  onCancelLoad?: () => void;
+  onOpenPlus?: (key: string) => Promise<void>;
+  onTryDemo?: () => void;
   onSelectFile?: () => void;
   fileInputRef?: React.RefObject<HTMLInputElement>;
   onFileInput?: (event: React.ChangeEvent<HTMLInputElement>) => void;
@@ -58,7 +64,67 @@ function CompatibilityInfo({ libraries }: { libraries: LibraryPresence }) {
   );
 }
 
-export function LandingScreen({ status, onSelectFolder, onFullScan, onReset, onSelectFile, fileInputRef, onFileInput }: LandingScreenProps) {
+// exportLibrary.db is SQLCipher-encrypted. The key is not shipped with the app, so the
+// user pastes it here; it is used for this one load and not stored.
+function PlusKeyForm({ onOpen }: { onOpen: (key: string) => Promise<void> }) {
+  const [key, setKey] = useState('');
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setOpening(true);
+    setError(null);
+    try {
+      await onOpen(key);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not open exportLibrary.db.');
+      setOpening(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2 rounded-lg border bg-card p-4">
+      <Label htmlFor="plus-key" className="flex items-center gap-2">
+        <KeyRound className="h-4 w-4" />
+        Device Library Plus key
+      </Label>
+      <p className="text-xs text-muted-foreground">
+        exportLibrary.db is encrypted and this app does not include the key. Paste it to read the
+        library; it stays in this tab and is not saved.
+      </p>
+      <Input
+        id="plus-key"
+        type="password"
+        autoComplete="off"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        className="font-mono"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <Button type="submit" className="w-full gap-2" disabled={!key || opening}>
+        {opening && <Loader2 className="h-4 w-4 animate-spin" />}
+        Open Device Library Plus
+      </Button>
+    </form>
+  );
+}
+
+function describeProgress(progress?: ParseProgress): string {
+  if (!progress) return 'Scanning for Rekordbox database...';
+  switch (progress.stage) {
+    case 'reading':
+      return 'Reading database...';
+    case 'parsing':
+      return progress.table && progress.pageCount
+        ? `${progress.table}: page ${progress.page}/${progress.pageCount}`
+        : 'Parsing database...';
+    case 'merging':
+      return 'Reading My Tags from exportExt.pdb...';
+  }
+}
+
+export function LandingScreen({ status, onSelectFolder, onFullScan, onReset, onCancelLoad, onOpenPlus, onTryDemo, onSelectFile, fileInputRef, onFileInput }: LandingScreenProps) {
   const supportsFileSystemAccess = isFileSystemAccessSupported();
 
   return (
@@ -118,10 +184,33 @@ export function LandingScreen({ status, onSelectFolder, onFullScan, onReset, onS
             </div>
           )}
 
+          {status.type === 'idle' && onTryDemo && (
+            <Button onClick={onTryDemo} variant="outline" className="w-full gap-2">
+              <Sparkles className="h-4 w-4" />
+              Try demo library
+            </Button>
+          )}
+
           {status.type === 'loading' && (
             <div className="flex flex-col items-center gap-3 py-4">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              <p className="text-muted-foreground">Scanning for Rekordbox database...</p>
+              <p className="tabular-nums text-muted-foreground">{describeProgress(status.progress)}</p>
+              {status.progress && (
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${Math.round(status.progress.fraction * 100)}%` }}
+                  />
+                </div>
+              )}
+              {status.progress?.warning && (
+                <p className="text-xs text-warning">{status.progress.warning}</p>
+              )}
+              {status.progress && onCancelLoad && (
+                <Button onClick={onCancelLoad} variant="outline" size="sm">
+                  Cancel
+                </Button>
+              )}
             </div>
           )}
 
@@ -137,6 +226,10 @@ export function LandingScreen({ status, onSelectFolder, onFullScan, onReset, onS
               
               {status.libraries && <CompatibilityInfo libraries={status.libraries} />}
 
+              {status.libraries?.hasPlus && !status.libraries.hasLegacy && onOpenPlus && (
+                <PlusKeyForm onOpen={onOpenPlus} />
+              )}
+
               <div className="flex gap-2">
                 <Button 
                   onClick={onFullScan} 
@@ -1,22 +1,49 @@
-import { useState, useEffect } from 'react';
-import { FileDown } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Wand2, X } from 'lucide-react';
 import { PlaylistSidebar } from './PlaylistSidebar';
 import { TrackTable } from './TrackTable';
 import { FileBrowser } from './FileBrowser';
+import { DiagnosticsView } from './DiagnosticsView';
+import { SetBuilderView } from './SetBuilderView';
+import { StatsView } from './StatsView';
+import { DuplicatesView } from './DuplicatesView';
+import { HealthCheckView } from './HealthCheckView';
+import { TrackDetailPanel } from './TrackDetailPanel';
 import { SearchBar } from './SearchBar';
-import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { ColorFilter } from './ColorFilter';
+import { TagFilter } from './TagFilter';
+import { PdfExportButton } from './PdfExportButton';
+import { NewPlaylistButton } from './NewPlaylistButton';
 import { Button } from '@/components/ui/button';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import { useSettings } from '@/hooks/useSettings';
-import { exportTracksToPdf } from '@/lib/pdf-export';
-import type { RekordboxDatabase, Playlist, Track, ViewMode, SortColumn, SortDirection, FileEntry, LibraryPresence } from '@/types/rekordbox';
+import { countDiagnostics } from '@/lib/pdb/diagnostics';
+import { tableTransitions } from '@/lib/mixing';
+import type { StatFilter } from '@/lib/library-stats';
+import { findDuplicates, playlistReferences } from '@/lib/duplicates';
+import type { WriteStep } from '@/lib/rekordbox-writer';
+import type { PlaylistEdit } from '@/lib/pdb/playlists';
+import type { RekordboxDatabase, Playlist, Track, TrackAnalysis, ViewMode, SortColumn, SortDirection, FileEntry, LibraryPresence } from '@/types/rekordbox';
 
 interface LibraryViewProps {
   database: RekordboxDatabase;
   libraries?: LibraryPresence;
+  rootHandle: FileSystemDirectoryHandle | null;
+  analysis: Map<number, TrackAnalysis>;
+  canEditPlaylists: boolean;
+  onCreatePlaylist: (name: string, trackIds: number[], onStep?: (step: WriteStep) => void) => Promise<void>;
+  onEditPlaylist: (edit: PlaylistEdit) => Promise<void>;
+  onRestoreBackup?: () => Promise<void>;
   selectedPlaylist: Playlist | null;
   onSelectPlaylist: (playlist: Playlist | null) => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  colorFilter: number[];
+  onColorFilterChange: (colors: number[]) => void;
+  tagFilter: number[];
+  onTagFilterChange: (tags: number[]) => void;
+  statFilter: StatFilter | null;
+  onStatFilterChange: (filter: StatFilter | null) => void;
   sortColumn: SortColumn;
   sortDirection: SortDirection;
   onSort: (column: SortColumn) => void;
@@ -32,10 +59,22 @@ interface LibraryViewProps {
 export function LibraryView({
   database,
   libraries,
+  rootHandle,
+  analysis,
+  canEditPlaylists,
+  onCreatePlaylist,
+  onEditPlaylist,
+  onRestoreBackup,
   selectedPlaylist,
   onSelectPlaylist,
   searchQuery,
   onSearchChange,
+  colorFilter,
+  onColorFilterChange,
+  tagFilter,
+  onTagFilterChange,
+  statFilter,
+  onStatFilterChange,
   sortColumn,
   sortDirection,
   onSort,
@@ -48,11 +87,16 @@ export function LibraryView({
   onReset
 }: LibraryViewProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('library');
+  const [selectedTrack, setSelectedTrack] = useState<Track | null>(null);
+  const [selectedTrackIds, setSelectedTrackIds] = useState<Set<number>>(() => new Set());
+  const selectionAnchorRef = useRef<number | null>(null);
   const { 
     colorScheme, 
     fontSize, 
     setColorScheme, 
     setFontSize,
+    keyNotation,
+    setKeyNotation,
     hiddenColumns,
     toggleColumnVisibility
   } = useSettings();
@@ -65,6 +109,90 @@ export function LibraryView({
   }, [viewMode, fileEntries.length, onLoadFileEntries]);
 
   const currentPlaylistName = selectedPlaylist?.name || 'All Tracks';
+  const headerTitles: Record<ViewMode, string> = {
+    library: currentPlaylistName,
+    files: 'File Browser',
+    diagnostics: 'Parse Report',
+    setBuilder: `Optimise Order: ${currentPlaylistName}`,
+    stats: 'Statistics',
+    duplicates: 'Duplicates',
+    health: 'Drive Check',
+  };
+
+  // A bar clicked in the statistics view lists its tracks
+  const showStatTracks = (filter: StatFilter, wholeStick: boolean) => {
+    if (wholeStick) onSelectPlaylist(null);
+    onStatFilterChange(filter);
+    setViewMode('library');
+  };
+
+  // A plain click opens (or closes) one track's details; Ctrl/Cmd-click and Shift-click
+  // build a multi-track selection for "New playlist from selection"
+  const handleSelectTrack = (track: Track, event: React.MouseEvent) => {
+    if (event.metaKey || event.ctrlKey) {
+      setSelectedTrackIds(prev => {
+        const next = new Set(prev);
+        if (next.has(track.id)) next.delete(track.id);
+        else next.add(track.id);
+        return next;
+      });
+      selectionAnchorRef.current = track.id;
+      return;
+    }
+
+    if (event.shiftKey && selectionAnchorRef.current !== null) {
+      const from = filteredTracks.findIndex(t => t.id === selectionAnchorRef.current);
+      const to = filteredTracks.findIndex(t => t.id === track.id);
+      if (from !== -1 && to !== -1) {
+        const range = filteredTracks.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelectedTrackIds(new Set(range.map(t => t.id)));
+        return;
+      }
+    }
+
+    const deselect = selectedTrack?.id === track.id;
+    selectionAnchorRef.current = track.id;
+    setSelectedTrack(deselect ? null : track);
+    setSelectedTrackIds(new Set(deselect ? [] : [track.id]));
+  };
+
+  // Jumps to a track from elsewhere (the mix suggestions) as if it had been clicked
+  const showTrack = (track: Track) => {
+    selectionAnchorRef.current = track.id;
+    setSelectedTrack(track);
+    setSelectedTrackIds(new Set([track.id]));
+  };
+
+  // '#' and the transition column only mean something inside a playlist, and transitions
+  // only while the table follows the playlist's order
+  const openPlaylist = selectedPlaylist && !selectedPlaylist.isFolder ? selectedPlaylist : null;
+  const positions = useMemo(() => {
+    if (!openPlaylist) return undefined;
+    const map = new Map<number, number>();
+    openPlaylist.trackIds.forEach((id, index) => {
+      if (!map.has(id)) map.set(id, index);
+    });
+    return map;
+  }, [openPlaylist]);
+  const filtered = searchQuery.trim() !== '' || colorFilter.length > 0 || tagFilter.length > 0 || statFilter !== null;
+  const transitions = useMemo(
+    () =>
+      openPlaylist
+        ? tableTransitions(openPlaylist.trackIds, database.tracks, { sortColumn, sortDirection, filtered })
+        : undefined,
+    [openPlaylist, sortColumn, sortDirection, filtered, database.tracks]
+  );
+
+  const duplicates = useMemo(() => findDuplicates(database.tracks), [database.tracks]);
+  const references = useMemo(
+    () => playlistReferences(database.playlists, database.history),
+    [database.playlists, database.history]
+  );
+
+  const canOptimise = !!selectedPlaylist && !selectedPlaylist.isFolder && selectedPlaylist.trackIds.length > 2;
+
+  // In table order, and only what the current filters show
+  const selectionTrackIds = filteredTracks.filter(t => selectedTrackIds.has(t.id)).map(t => t.id);
 
   return (
     <div className="h-screen bg-background">
@@ -72,17 +200,24 @@ export function LibraryView({
         <ResizablePanel defaultSize={24} minSize={16} maxSize={40} className="min-w-0">
           <PlaylistSidebar
             playlists={database.playlists}
+            history={database.history}
             libraries={libraries}
             selectedPlaylist={selectedPlaylist}
             onSelectPlaylist={onSelectPlaylist}
+            onEditPlaylist={canEditPlaylists ? onEditPlaylist : undefined}
+            onRestoreBackup={onRestoreBackup}
             viewMode={viewMode}
             onViewModeChange={setViewMode}
             trackCount={database.tracks.length}
+            diagnosticCount={countDiagnostics(database.diagnostics)}
+            duplicateCount={duplicates.length}
             onReset={onReset}
             colorScheme={colorScheme}
             onColorSchemeChange={setColorScheme}
             fontSize={fontSize}
             onFontSizeChange={setFontSize}
+            keyNotation={keyNotation}
+            onKeyNotationChange={setKeyNotation}
             hiddenColumns={hiddenColumns}
             onToggleColumn={toggleColumnVisibility}
           />
@@ -95,48 +230,135 @@ export function LibraryView({
             <header className="flex items-center justify-between border-b border-border bg-card px-4 py-3">
               <div className="flex min-w-0 items-center gap-4">
                 <h1 className="truncate text-lg font-semibold text-foreground">
-                  {viewMode === 'files' ? 'File Browser' : currentPlaylistName}
+                  {headerTitles[viewMode]}
                 </h1>
                 {viewMode === 'library' && (
                   <span className="shrink-0 text-sm text-muted-foreground">
                     {filteredTracks.length} track{filteredTracks.length !== 1 ? 's' : ''}
                   </span>
                 )}
+                {viewMode === 'library' && statFilter && (
+                  <span className="flex shrink-0 items-center gap-1 rounded-full border border-border py-0.5 pl-2 pr-1 text-xs text-foreground">
+                    {statFilter.label}
+                    <button
+                      type="button"
+                      className="rounded-full p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+                      title="Clear filter"
+                      onClick={() => onStatFilterChange(null)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
               </div>
 
               {viewMode === 'library' && (
                 <div className="flex items-center gap-2">
                   <div className="w-72 max-w-[35vw]">
-                    <SearchBar value={searchQuery} onChange={onSearchChange} />
+                    <SearchBar
+                      value={searchQuery}
+                      onChange={onSearchChange}
+                      placeholder="Search tracks, mood:high, intro>32..."
+                    />
                   </div>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => exportTracksToPdf(filteredTracks, currentPlaylistName, hiddenColumns)}
-                    title="Export to PDF"
-                  >
-                    <FileDown className="h-4 w-4" />
-                  </Button>
+                  <ColorFilter colors={database.colors} selected={colorFilter} onChange={onColorFilterChange} />
+                  <TagFilter
+                    categories={database.myTagCategories}
+                    selected={tagFilter}
+                    onChange={onTagFilterChange}
+                  />
+                  {canOptimise && (
+                    <Button variant="outline" size="icon" title="Optimise order" onClick={() => setViewMode('setBuilder')}>
+                      <Wand2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canEditPlaylists && (
+                    <NewPlaylistButton trackIds={selectionTrackIds} onCreate={onCreatePlaylist} />
+                  )}
+                  <PdfExportButton
+                    tracks={filteredTracks}
+                    playlistName={currentPlaylistName}
+                    hiddenColumns={hiddenColumns}
+                    keyNotation={keyNotation}
+                    rootHandle={rootHandle}
+                    analysis={analysis}
+                  />
                 </div>
               )}
             </header>
 
-            <main className="flex-1 overflow-hidden">
+            <main className="flex flex-1 overflow-hidden">
               {viewMode === 'library' ? (
-                <TrackTable
-                  tracks={filteredTracks}
-                  sortColumn={sortColumn}
-                  sortDirection={sortDirection}
-                  onSort={onSort}
-                  hiddenColumns={hiddenColumns}
-                />
+                <>
+                  <div className="min-w-0 flex-1">
+                    <TrackTable
+                      tracks={filteredTracks}
+                      sortColumn={sortColumn}
+                      sortDirection={sortDirection}
+                      onSort={onSort}
+                      hiddenColumns={hiddenColumns}
+                      rootHandle={rootHandle}
+                      selectedTrackIds={selectedTrackIds}
+                      onSelectTrack={handleSelectTrack}
+                      analysis={analysis}
+                      keyNotation={keyNotation}
+                      positions={positions}
+                      transitions={transitions}
+                    />
+                  </div>
+                  {selectedTrack && (
+                    <TrackDetailPanel
+                      track={selectedTrack}
+                      rootHandle={rootHandle}
+                      analysis={analysis.get(selectedTrack.id)}
+                      keyNotation={keyNotation}
+                      tracks={database.tracks}
+                      playlist={selectedPlaylist}
+                      onSelectTrack={showTrack}
+                      onClose={() => setSelectedTrack(null)}
+                    />
+                  )}
+                </>
+              ) : viewMode === 'setBuilder' && selectedPlaylist ? (
+                <div className="min-w-0 flex-1">
+                  <SetBuilderView
+                    playlist={selectedPlaylist}
+                    tracks={database.tracks}
+                    keyNotation={keyNotation}
+                    hiddenColumns={hiddenColumns}
+                    onClose={() => setViewMode('library')}
+                  />
+                </div>
+              ) : viewMode === 'stats' ? (
+                <div className="min-w-0 flex-1">
+                  <StatsView
+                    tracks={database.tracks}
+                    playlist={selectedPlaylist}
+                    keyNotation={keyNotation}
+                    onShowTracks={showStatTracks}
+                  />
+                </div>
+              ) : viewMode === 'duplicates' ? (
+                <div className="min-w-0 flex-1">
+                  <DuplicatesView groups={duplicates} references={references} />
+                </div>
+              ) : viewMode === 'health' ? (
+                <div className="min-w-0 flex-1">
+                  <HealthCheckView database={database} rootHandle={rootHandle} />
+                </div>
+              ) : viewMode === 'diagnostics' ? (
+                <div className="min-w-0 flex-1">
+                  <DiagnosticsView diagnostics={database.diagnostics} />
+                </div>
               ) : (
-                <FileBrowser
-                  entries={fileEntries}
-                  path={directoryPath}
-                  onNavigate={onNavigateToDirectory}
-                  onNavigateUp={onNavigateUp}
-                />
+                <div className="min-w-0 flex-1">
+                  <FileBrowser
+                    entries={fileEntries}
+                    path={directoryPath}
+                    onNavigate={onNavigateToDirectory}
+                    onNavigateUp={onNavigateUp}
+                  />
+                </div>
               )}
             </main>
           </div>
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { useInView } from '@/hooks/useInView';
+import { monochromeRgb } from '@/lib/anlz/waveform';
+import { cueColor, cueLabel } from '@/lib/anlz/cues';
+import { cn } from '@/lib/utils';
+import type { WaveformPreview, Cue } from '@/types/rekordbox';
+
+interface MiniWaveformProps {
+  preview: WaveformPreview | undefined;
+  className?: string;
+  // Optional cue markers; the preview spans the whole track, so positions are time / duration
+  cues?: Cue[];
+  durationMs?: number;
+}
+
+// The PWAV overview, drawn bottom-up like the strip above the jog wheel
+export function MiniWaveform({ preview, className, cues, durationMs = 0 }: MiniWaveformProps) {
+  const { ref, inView } = useInView<HTMLDivElement>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!inView || !preview || !canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth * ratio;
+    const height = canvas.clientHeight * ratio;
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+
+    const columns = preview.heights.length;
+    const columnWidth = width / columns;
+    for (let i = 0; i < columns; i++) {
+      const barHeight = (preview.heights[i] / 31) * height;
+      const [r, g, b] = monochromeRgb(preview.whiteness[i]);
+      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.fillRect(i * columnWidth, height - barHeight, Math.max(columnWidth, 1), barHeight);
+    }
+  }, [inView, preview]);
+
+  return (
+    <div ref={ref} className={cn('relative h-6 w-full', className)}>
+      {preview && inView && <canvas ref={canvasRef} className="h-full w-full" />}
+      {durationMs > 0 && cues?.map((cue, index) => (
+        <span
+          key={index}
+          title={`${cueLabel(cue)}${cue.comment ? `: ${cue.comment}` : ''}`}
+          className="absolute top-0 h-full w-0.5"
+          style={{ left: `${Math.min(cue.timeMs / durationMs, 1) * 100}%`, backgroundColor: cueColor(cue) }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatBpm } from '@/lib/rekordbox-parser';
+import { formatKey, KEY_RELATION_LABELS, type KeyNotation, type KeyRelation } from '@/lib/keys';
+import { PITCH_RANGES, suggestNextTracks, type PitchRange } from '@/lib/mixing';
+import { cn } from '@/lib/utils';
+import type { Playlist, Track } from '@/types/rekordbox';
+
+interface MixSuggestionsProps {
+  track: Track;
+  tracks: Track[];
+  playlist: Playlist | null;
+  keyNotation: KeyNotation;
+  onSelectTrack: (track: Track) => void;
+}
+
+type Scope = 'playlist' | 'all';
+
+const PAGE_SIZE = 25;
+
+const RELATION_CLASSES: Record<KeyRelation, string> = {
+  same: 'bg-success/15 text-success',
+  adjacent: 'bg-primary/15 text-primary',
+  relative: 'bg-primary/15 text-primary',
+  energyBoost: 'bg-warning/15 text-warning',
+};
+
+function formatPitch(pitch: number): string {
+  const rounded = Math.round(pitch * 10) / 10;
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${Math.abs(rounded).toFixed(1)}%`;
+}
+
+function SegmentButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      variant={active ? 'default' : 'outline'}
+      size="sm"
+      className={cn('h-6 px-2 text-xs', active && 'bg-primary text-primary-foreground')}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
+
+// "What can I play next" for the track open in the detail panel
+export function MixSuggestions({ track, tracks, playlist, keyNotation, onSelectTrack }: MixSuggestionsProps) {
+  const [range, setRange] = useState<PitchRange>(10);
+  const [scope, setScope] = useState<Scope>('playlist');
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  // A new track starts from the first page again; range and scope carry over
+  useEffect(() => {
+    setShown(PAGE_SIZE);
+  }, [track.id]);
+
+  const hasPlaylist = !!playlist && !playlist.isFolder && playlist.trackIds.length > 0;
+  const effectiveScope = hasPlaylist ? scope : 'all';
+
+  const suggestions = useMemo(() => {
+    let candidates = tracks;
+    if (effectiveScope === 'playlist' && playlist) {
+      const ids = new Set(playlist.trackIds);
+      candidates = tracks.filter(t => ids.has(t.id));
+    }
+    return suggestNextTracks(track, candidates, range);
+  }, [track, tracks, playlist, effectiveScope, range]);
+
+  return (
+    <div>
+      <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+        Mix Next ({suggestions.length})
+      </h3>
+      <div className="mb-2 flex flex-wrap items-center gap-1">
+        {PITCH_RANGES.map(value => (
+          <SegmentButton key={value} active={range === value} onClick={() => setRange(value)}>
+            ±{value}%
+          </SegmentButton>
+        ))}
+        {hasPlaylist && (
+          <span className="ml-auto flex gap-1">
+            <SegmentButton active={effectiveScope === 'playlist'} onClick={() => setScope('playlist')}>
+              Playlist
+            </SegmentButton>
+            <SegmentButton active={effectiveScope === 'all'} onClick={() => setScope('all')}>
+              All
+            </SegmentButton>
+          </span>
+        )}
+      </div>
+
+      {!track.key ? (
+        <p className="text-xs text-muted-foreground">This track has no key to match against.</p>
+      ) : suggestions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing in key within ±{range}%.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {suggestions.slice(0, shown).map(suggestion => (
+            <li key={suggestion.track.id}>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-1 py-1 text-left text-sm hover:bg-muted"
+                onClick={() => onSelectTrack(suggestion.track)}
+              >
+                <span className="w-9 shrink-0 font-mono text-xs text-foreground">
+                  {formatKey(suggestion.track.key, keyNotation)}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-foreground">{suggestion.track.title}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{suggestion.track.artist}</span>
+                </span>
+                <span className="flex shrink-0 flex-col items-end gap-0.5">
+                  <span className={cn('rounded px-1 text-[10px] font-medium', RELATION_CLASSES[suggestion.relation])}>
+                    {KEY_RELATION_LABELS[suggestion.relation]}
+                  </span>
+                  <span
+                    className="font-mono text-[10px] tabular-nums text-muted-foreground"
+                    title={`${formatBpm(suggestion.track.bpm)} BPM`}
+                  >
+                    {suggestion.timing === 'half' ? '½× ' : suggestion.timing === 'double' ? '2× ' : ''}
+                    {formatPitch(suggestion.pitch)}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {suggestions.length > shown && (
+        <Button variant="ghost" size="sm" className="mt-1 h-7 w-full text-xs" onClick={() => setShown(shown + PAGE_SIZE)}>
+          Show {Math.min(PAGE_SIZE, suggestions.length - shown)} more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { ListPlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MAX_PLAYLIST_NAME_LENGTH } from '@/lib/pdb/playlists';
+import { WRITE_STEP_LABELS, type WriteStep } from '@/lib/rekordbox-writer';
+
+interface NewPlaylistButtonProps {
+  trackIds: number[];
+  onCreate: (name: string, trackIds: number[], onStep?: (step: WriteStep) => void) => Promise<void>;
+}
+
+// "New playlist from selection": names the playlist and writes it to export.pdb. The
+// popover stays open while writing so the current step (and any error) is visible.
+export function NewPlaylistButton({ trackIds, onCreate }: NewPlaylistButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [step, setStep] = useState<WriteStep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    try {
+      await onCreate(name, trackIds, setStep);
+      setName('');
+      setOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not write the playlist.');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const count = trackIds.length;
+
+  return (
+    <Popover open={open} onOpenChange={(next) => step === null && setOpen(next)}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title={count > 0 ? `New playlist from selection (${count})` : 'Select tracks to make a playlist (Ctrl/Cmd- or Shift-click)'}
+          disabled={count === 0}
+        >
+          <ListPlus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <form onSubmit={submit} className="space-y-2">
+          <Label htmlFor="new-playlist-name">New playlist from selection</Label>
+          <p className="text-xs text-muted-foreground">
+            {count} track{count !== 1 ? 's' : ''}, written to export.pdb on the drive. A backup is
+            saved to RBXPLORER_BACKUPS first.
+          </p>
+          <Input
+            id="new-playlist-name"
+            value={name}
+            maxLength={MAX_PLAYLIST_NAME_LENGTH}
+            placeholder="Playlist name"
+            onChange={(e) => setName(e.target.value)}
+            disabled={step !== null}
+            autoFocus
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <Button type="submit" className="w-full gap-2" disabled={!name.trim() || step !== null}>
+            {step && <Loader2 className="h-4 w-4 animate-spin" />}
+            {step ? WRITE_STEP_LABELS[step] : 'Create playlist'}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { FileDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { exportTracksToPdf } from '@/lib/pdf-export';
+import { loadTrackCues } from '@/lib/analysis';
+import type { KeyNotation } from '@/lib/keys';
+import type { Cue, Track, TrackAnalysis } from '@/types/rekordbox';
+
+interface PdfExportButtonProps {
+  tracks: Track[];
+  playlistName: string;
+  hiddenColumns: string[];
+  keyNotation: KeyNotation;
+  rootHandle: FileSystemDirectoryHandle | null;
+  analysis: Map<number, TrackAnalysis>;
+}
+
+// The .EXT cue lists carry colours and comments; without a drive folder (or for tracks
+// whose .EXT is gone) the positions from the library scan are printed instead
+async function collectCueLists(
+  tracks: Track[],
+  rootHandle: FileSystemDirectoryHandle | null,
+  analysis: Map<number, TrackAnalysis>
+): Promise<Map<number, Cue[]>> {
+  const cueLists = new Map<number, Cue[]>();
+  for (const track of tracks) {
+    const cues = (rootHandle && track.analyzePath && (await loadTrackCues(rootHandle, track.analyzePath)))
+      || analysis.get(track.id)?.cues;
+    if (cues) cueLists.set(track.id, cues);
+  }
+  return cueLists;
+}
+
+export function PdfExportButton({ tracks, playlistName, hiddenColumns, keyNotation, rootHandle, analysis }: PdfExportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const exportWithCues = async () => {
+    setBusy(true);
+    try {
+      const cueLists = await collectCueLists(tracks, rootHandle, analysis);
+      exportTracksToPdf(tracks, playlistName, hiddenColumns, { cueLists, keyNotation });
+    } finally {
+      setBusy(false);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title="Export to PDF" disabled={busy}>
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-start"
+          onClick={() => {
+            exportTracksToPdf(tracks, playlistName, hiddenColumns, { keyNotation });
+            setOpen(false);
+          }}
+        >
+          Track list
+        </Button>
+        <Button variant="ghost" size="sm" className="w-full justify-start" disabled={busy} onClick={exportWithCues}>
+          Track list with cue lists
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
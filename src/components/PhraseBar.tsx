@@ -0,0 +1,32 @@
+import { PHRASE_COLORS } from '@/lib/anlz/phrases';
+import { cn } from '@/lib/utils';
+import type { PhraseAnalysis } from '@/types/rekordbox';
+
+interface PhraseBarProps {
+  phrases: PhraseAnalysis;
+  durationMs: number;
+  className?: string;
+}
+
+// Phrase bands laid out on the same whole-track scale as MiniWaveform, so the two line up
+export function PhraseBar({ phrases, durationMs, className }: PhraseBarProps) {
+  if (durationMs <= 0) return null;
+  const percent = (ms: number) => `${Math.min(ms / durationMs, 1) * 100}%`;
+
+  return (
+    <div className={cn('relative h-3 w-full overflow-hidden rounded-sm bg-muted', className)}>
+      {phrases.phrases.map((phrase, index) => (
+        <span
+          key={index}
+          title={`${phrase.label} · ${phrase.bars} bars`}
+          className="absolute top-0 h-full border-r border-black/40"
+          style={{
+            left: percent(phrase.startMs),
+            width: `calc(${percent(phrase.endMs)} - ${percent(phrase.startMs)})`,
+            backgroundColor: PHRASE_COLORS[phrase.kind]
+          }}
+        />
+      ))}
+    </div>
+  );
+}
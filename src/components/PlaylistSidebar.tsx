@@ -1,7 +1,11 @@
 import { useState } from 'react';
-import { ChevronRight, ChevronDown, Folder, FolderOpen, Music, ListMusic, Files, RotateCcw } from 'lucide-react';
+import { ChevronRight, ChevronDown, Folder, FolderOpen, Music, ListMusic, Files, RotateCcw, History, FileWarning, MoreHorizontal, Undo2, Loader2, BarChart3, Copy, Stethoscope } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import type { KeyNotation } from '@/lib/keys';
+import { MAX_PLAYLIST_NAME_LENGTH, type PlaylistEdit } from '@/lib/pdb/playlists';
 import { cn } from '@/lib/utils';
 import type { Playlist, ViewMode, LibraryPresence } from '@/types/rekordbox';
 import { SettingsPanel, type ColorScheme } from './SettingsPanel';
@@ -14,77 +18,209 @@ import {
 
 interface PlaylistSidebarProps {
   playlists: Playlist[];
+  history: Playlist[];
   libraries?: LibraryPresence;
   selectedPlaylist: Playlist | null;
   onSelectPlaylist: (playlist: Playlist | null) => void;
+  onEditPlaylist?: (edit: PlaylistEdit) => Promise<void>; // only when the drive is writable
+  onRestoreBackup?: () => Promise<void>; // only after a write this session
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
   trackCount: number;
+  diagnosticCount: number;
+  duplicateCount: number;
   onReset: () => void;
   colorScheme: ColorScheme;
   onColorSchemeChange: (scheme: ColorScheme) => void;
   fontSize: number;
   onFontSizeChange: (size: number) => void;
+  keyNotation: KeyNotation;
+  onKeyNotationChange: (notation: KeyNotation) => void;
   hiddenColumns: string[];
   onToggleColumn: (key: string) => void;
 }
 
+// Shared by every row while the playlist tree is editable
+interface PlaylistEditing {
+  draggedId: number | null;
+  setDraggedId: (id: number | null) => void;
+  busy: boolean;
+  run: (edit: PlaylistEdit) => Promise<boolean>;
+}
+
+type DropPosition = 'before' | 'after' | 'into';
+
 interface PlaylistItemProps {
   playlist: Playlist;
   depth: number;
   selectedId: number | null;
   onSelect: (playlist: Playlist) => void;
+  siblings?: Playlist[];
+  editing?: PlaylistEditing;
+}
+
+// Folders take a drop in their middle half as "move into"; the edges reorder
+function dropPosition(event: React.DragEvent, playlist: Playlist): DropPosition {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const y = (event.clientY - rect.top) / rect.height;
+  if (playlist.isFolder) return y < 0.25 ? 'before' : y > 0.75 ? 'after' : 'into';
+  return y < 0.5 ? 'before' : 'after';
 }
 
-function PlaylistItem({ playlist, depth, selectedId, onSelect }: PlaylistItemProps) {
+function PlaylistActions({ playlist, editing }: { playlist: Playlist; editing: PlaylistEditing }) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(playlist.name);
+  const isEmpty = playlist.isFolder ? playlist.children.length === 0 : playlist.trackIds.length === 0;
+
+  const run = async (edit: PlaylistEdit) => {
+    if (await editing.run(edit)) setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={(next) => { setOpen(next); setName(playlist.name); }}>
+      <PopoverTrigger asChild>
+        <button
+          className="mr-1 rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:bg-sidebar-accent focus:opacity-100 group-hover:opacity-100"
+          title={`Edit ${playlist.isFolder ? 'folder' : 'playlist'}`}
+        >
+          <MoreHorizontal className="h-3.5 w-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="start" className="w-64 space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run({ kind: 'rename', id: playlist.id, name });
+          }}
+        >
+          <Input
+            value={name}
+            maxLength={MAX_PLAYLIST_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            disabled={editing.busy}
+            className="h-8"
+          />
+          <Button type="submit" size="sm" disabled={editing.busy || !name.trim() || name.trim() === playlist.name}>
+            Rename
+          </Button>
+        </form>
+        <div className="space-y-1">
+          <Button
+            variant="destructive"
+            size="sm"
+            className="w-full"
+            disabled={editing.busy || !isEmpty}
+            onClick={() => run({ kind: 'delete', id: playlist.id })}
+          >
+            Delete
+          </Button>
+          {!isEmpty && (
+            <p className="text-xs text-muted-foreground">
+              Only empty {playlist.isFolder ? 'folders' : 'playlists'} can be deleted.
+            </p>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Drag playlists in the sidebar to reorder them.</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function PlaylistItem({ playlist, depth, selectedId, onSelect, siblings = [], editing }: PlaylistItemProps) {
   const [expanded, setExpanded] = useState(false);
+  const [dropHint, setDropHint] = useState<DropPosition | null>(null);
   const isSelected = selectedId === playlist.id;
   const hasChildren = playlist.children.length > 0;
+  const canDrag = editing !== undefined && !editing.busy;
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDropHint(null);
+    if (!editing) return;
+    const draggedId = editing.draggedId;
+    editing.setDraggedId(null);
+    if (draggedId === null || draggedId === playlist.id) return;
+
+    const position = dropPosition(event, playlist);
+    if (position === 'into') {
+      const index = playlist.children.filter(child => child.id !== draggedId).length;
+      editing.run({ kind: 'move', id: draggedId, parentId: playlist.id, index });
+      return;
+    }
+    const others = siblings.filter(sibling => sibling.id !== draggedId);
+    const index = others.findIndex(sibling => sibling.id === playlist.id) + (position === 'after' ? 1 : 0);
+    editing.run({ kind: 'move', id: draggedId, parentId: playlist.parentId ?? 0, index });
+  };
 
   return (
     <div>
-      <button
-        onClick={() => {
-          if (playlist.isFolder && hasChildren) {
-            setExpanded(!expanded);
-          }
-          onSelect(playlist);
-        }}
+      <div
         className={cn(
-          "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+          "group flex items-center rounded-md transition-colors",
           "hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
-          isSelected && "bg-sidebar-accent text-sidebar-accent-foreground"
+          isSelected && "bg-sidebar-accent text-sidebar-accent-foreground",
+          editing?.draggedId === playlist.id && "opacity-50",
+          dropHint === 'before' && "shadow-[inset_0_2px_0_hsl(var(--primary))]",
+          dropHint === 'after' && "shadow-[inset_0_-2px_0_hsl(var(--primary))]",
+          dropHint === 'into' && "ring-1 ring-inset ring-primary"
         )}
-        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        draggable={canDrag}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          editing?.setDraggedId(playlist.id);
+        }}
+        onDragEnd={() => editing?.setDraggedId(null)}
+        onDragOver={(e) => {
+          if (!editing || editing.draggedId === null || editing.draggedId === playlist.id) return;
+          e.preventDefault();
+          setDropHint(dropPosition(e, playlist));
+        }}
+        onDragLeave={() => setDropHint(null)}
+        onDrop={handleDrop}
       >
-        {playlist.isFolder && hasChildren ? (
-          expanded ? (
-            <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <button
+          onClick={() => {
+            if (playlist.isFolder && hasChildren) {
+              setExpanded(!expanded);
+            }
+            onSelect(playlist);
+          }}
+          className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1.5 text-left text-sm"
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        >
+          {playlist.isFolder && hasChildren ? (
+            expanded ? (
+              <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            )
           ) : (
-            <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-          )
-        ) : (
-          <span className="w-4" />
-        )}
-        
-        {playlist.isFolder ? (
-          expanded ? (
-            <FolderOpen className="h-4 w-4 flex-shrink-0 text-primary" />
+            <span className="w-4" />
+          )}
+          
+          {playlist.isFolder ? (
+            expanded ? (
+              <FolderOpen className="h-4 w-4 flex-shrink-0 text-primary" />
+            ) : (
+              <Folder className="h-4 w-4 flex-shrink-0 text-primary" />
+            )
+          ) : playlist.isHistory ? (
+            <History className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
           ) : (
-            <Folder className="h-4 w-4 flex-shrink-0 text-primary" />
-          )
-        ) : (
-          <ListMusic className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-        )}
-        
-        <span className="truncate">{playlist.name}</span>
-        
-        {!playlist.isFolder && playlist.trackIds.length > 0 && (
-          <span className="ml-auto text-xs text-muted-foreground">
-            {playlist.trackIds.length}
-          </span>
-        )}
-      </button>
+            <ListMusic className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          )}
+          
+          <span className="truncate">{playlist.name}</span>
+          
+          {!playlist.isFolder && playlist.trackIds.length > 0 && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              {playlist.trackIds.length}
+            </span>
+          )}
+        </button>
+        {editing && <PlaylistActions playlist={playlist} editing={editing} />}
+      </div>
       
       {expanded && hasChildren && (
         <div>
@@ -95,6 +231,8 @@ function PlaylistItem({ playlist, depth, selectedId, onSelect }: PlaylistItemPro
               depth={depth + 1}
               selectedId={selectedId}
               onSelect={onSelect}
+              siblings={playlist.children}
+              editing={editing}
             />
           ))}
         </div>
@@ -144,20 +282,64 @@ function CompatibilityIndicator({ libraries }: { libraries?: LibraryPresence })
 
 export function PlaylistSidebar({
   playlists,
+  history,
   libraries,
   selectedPlaylist,
   onSelectPlaylist,
+  onEditPlaylist,
+  onRestoreBackup,
   viewMode,
   onViewModeChange,
   trackCount,
+  diagnosticCount,
+  duplicateCount,
   onReset,
   colorScheme,
   onColorSchemeChange,
   fontSize,
   onFontSizeChange,
+  keyNotation,
+  onKeyNotationChange,
   hiddenColumns,
   onToggleColumn
 }: PlaylistSidebarProps) {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // One edit at a time; failures (already rolled back by the writer) surface as a toast
+  const runEdit = async (edit: PlaylistEdit): Promise<boolean> => {
+    if (!onEditPlaylist) return false;
+    setBusy(true);
+    try {
+      await onEditPlaylist(edit);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Playlist Not Saved',
+        description: error instanceof Error ? error.message : 'Could not write to the drive.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!onRestoreBackup) return;
+    setBusy(true);
+    try {
+      await onRestoreBackup();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const editing: PlaylistEditing | undefined = onEditPlaylist
+    ? { draggedId, setDraggedId, busy, run: runEdit }
+    : undefined;
+
   return (
     <div className="flex h-full w-full min-w-0 flex-col border-r border-sidebar-border bg-sidebar">
       {/* Header */}
@@ -207,20 +389,114 @@ export function PlaylistSidebar({
             <span>Browse Files</span>
           </button>
 
+          {/* Statistics */}
+          <button
+            onClick={() => onViewModeChange('stats')}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+              "hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+              viewMode === 'stats' && "bg-sidebar-accent text-sidebar-accent-foreground"
+            )}
+          >
+            <BarChart3 className="h-4 w-4 text-muted-foreground" />
+            <span>Statistics</span>
+          </button>
+
+          {/* Drive check */}
+          <button
+            onClick={() => onViewModeChange('health')}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+              "hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+              viewMode === 'health' && "bg-sidebar-accent text-sidebar-accent-foreground"
+            )}
+          >
+            <Stethoscope className="h-4 w-4 text-muted-foreground" />
+            <span>Check Drive</span>
+          </button>
+
+          {/* Duplicates — only when there are some */}
+          {duplicateCount > 0 && (
+            <button
+              onClick={() => onViewModeChange('duplicates')}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+                "hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+                viewMode === 'duplicates' && "bg-sidebar-accent text-sidebar-accent-foreground"
+              )}
+            >
+              <Copy className="h-4 w-4 text-muted-foreground" />
+              <span>Duplicates</span>
+              <span className="ml-auto text-xs text-muted-foreground">{duplicateCount}</span>
+            </button>
+          )}
+
+          {/* Parse Report — only when the parser had to skip something */}
+          {diagnosticCount > 0 && (
+            <button
+              onClick={() => onViewModeChange('diagnostics')}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+                "hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+                viewMode === 'diagnostics' && "bg-sidebar-accent text-sidebar-accent-foreground"
+              )}
+            >
+              <FileWarning className="h-4 w-4 text-warning" />
+              <span>Parse Report</span>
+              <span className="ml-auto text-xs text-muted-foreground">{diagnosticCount}</span>
+            </button>
+          )}
+
           {/* Playlists Section */}
           {playlists.length > 0 && (
             <div className="mt-4">
-              <p className="mb-2 px-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                Playlists
-              </p>
+              <div className="mb-2 flex items-center justify-between px-2">
+                <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  Playlists
+                </p>
+                {busy && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+                {!busy && onRestoreBackup && (
+                  <button
+                    onClick={restore}
+                    className="rounded p-1 text-muted-foreground hover:bg-sidebar-accent"
+                    title="Undo last change (restores the backup taken just before it)"
+                  >
+                    <Undo2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
               {playlists.map(playlist => (
                 <PlaylistItem
                   key={playlist.id}
                   playlist={playlist}
                   depth={0}
-                  selectedId={selectedPlaylist?.id ?? null}
+                  selectedId={selectedPlaylist && !selectedPlaylist.isHistory ? selectedPlaylist.id : null}
+                  onSelect={(p) => {
+                    // Statistics stay open and follow the selection
+                    if (viewMode !== 'stats') onViewModeChange('library');
+                    onSelectPlaylist(p);
+                  }}
+                  siblings={playlists}
+                  editing={editing}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* History Section — what the players actually recorded */}
+          {history.length > 0 && (
+            <div className="mt-4">
+              <p className="mb-2 px-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                History
+              </p>
+              {history.map(session => (
+                <PlaylistItem
+                  key={session.id}
+                  playlist={session}
+                  depth={0}
+                  selectedId={selectedPlaylist?.isHistory ? selectedPlaylist.id : null}
                   onSelect={(p) => {
-                    onViewModeChange('library');
+                    if (viewMode !== 'stats') onViewModeChange('library');
                     onSelectPlaylist(p);
                   }}
                 />
@@ -237,6 +513,8 @@ export function PlaylistSidebar({
           onColorSchemeChange={onColorSchemeChange}
           fontSize={fontSize}
           onFontSizeChange={onFontSizeChange}
+          keyNotation={keyNotation}
+          onKeyNotationChange={onKeyNotationChange}
           hiddenColumns={hiddenColumns}
           onToggleColumn={onToggleColumn}
         />
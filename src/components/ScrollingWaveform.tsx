@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { cn } from '@/lib/utils';
+import { cueColor, cueLetter } from '@/lib/anlz/cues';
+import type { WaveformDetail, Cue } from '@/types/rekordbox';
+
+interface ScrollingWaveformProps {
+  waveform: WaveformDetail;
+  cues?: Cue[];
+  className?: string;
+}
+
+// Two entries per pixel is 75 px per second: close to the CDJ's default zoom
+const ENTRIES_PER_PIXEL = 2;
+const HEIGHT = 96;
+
+// A whole track is tens of thousands of pixels wide, more than a canvas can hold, so the
+// canvas stays viewport-sized and redraws the visible slice as the container scrolls.
+export function ScrollingWaveform({ waveform, cues, className }: ScrollingWaveformProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewportWidth, setViewportWidth] = useState(0);
+
+  const totalWidth = Math.ceil(waveform.heights.length / ENTRIES_PER_PIXEL);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const scroller = scrollRef.current;
+    if (!canvas || !scroller || viewportWidth === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewportWidth * ratio;
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, viewportWidth, HEIGHT);
+
+    const center = HEIGHT / 2;
+    const firstPixel = Math.floor(scroller.scrollLeft);
+    for (let x = 0; x < viewportWidth; x++) {
+      const entry = (firstPixel + x) * ENTRIES_PER_PIXEL;
+      if (entry >= waveform.heights.length) break;
+
+      // Take the louder of the entries that share this pixel so transients don't vanish
+      let peak = 0;
+      let peakIndex = entry;
+      for (let i = entry; i < Math.min(entry + ENTRIES_PER_PIXEL, waveform.heights.length); i++) {
+        if (waveform.heights[i] >= peak) {
+          peak = waveform.heights[i];
+          peakIndex = i;
+        }
+      }
+      const half = (peak / 31) * center;
+      const c = peakIndex * 3;
+      ctx.fillStyle = `rgb(${waveform.colors[c]}, ${waveform.colors[c + 1]}, ${waveform.colors[c + 2]})`;
+      ctx.fillRect(x, center - half, 1, half * 2 || 1);
+    }
+
+    // A tick every 10 seconds along the bottom edge
+    const pixelsPerSecond = waveform.entriesPerSecond / ENTRIES_PER_PIXEL;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+    for (let s = Math.ceil(firstPixel / pixelsPerSecond / 10) * 10; s * pixelsPerSecond < firstPixel + viewportWidth; s += 10) {
+      ctx.fillRect(Math.round(s * pixelsPerSecond - firstPixel), HEIGHT - 6, 1, 6);
+    }
+
+    // Cue markers: a line at the cue, a shaded band over loops, the hot cue letter on top
+    ctx.font = 'bold 10px sans-serif';
+    for (const cue of cues ?? []) {
+      const x = Math.round((cue.timeMs / 1000) * pixelsPerSecond - firstPixel);
+      const loopEnd = cue.loopEndMs ? Math.round((cue.loopEndMs / 1000) * pixelsPerSecond - firstPixel) : x;
+      if (loopEnd < 0 || x > viewportWidth) continue;
+
+      const color = cueColor(cue);
+      if (cue.isLoop && loopEnd > x) {
+        ctx.globalAlpha = 0.25;
+        ctx.fillStyle = color;
+        ctx.fillRect(x, 0, loopEnd - x, HEIGHT);
+        ctx.globalAlpha = 1;
+      }
+      ctx.fillStyle = color;
+      ctx.fillRect(x, 0, 2, HEIGHT);
+      const letter = cueLetter(cue);
+      if (letter) {
+        ctx.fillRect(x, 0, 12, 12);
+        ctx.fillStyle = '#000';
+        ctx.fillText(letter, x + 3, 10);
+      }
+    }
+  }, [waveform, cues, viewportWidth]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportWidth(scroller.clientWidth));
+    observer.observe(scroller);
+    setViewportWidth(scroller.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(draw, [draw]);
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={draw}
+      className={cn('relative overflow-x-auto overflow-y-hidden rounded bg-black', className)}
+      style={{ height: HEIGHT + 12 }}
+    >
+      <div style={{ width: totalWidth, height: HEIGHT }}>
+        <canvas ref={canvasRef} className="sticky left-0" style={{ width: viewportWidth, height: HEIGHT }} />
+      </div>
+    </div>
+  );
+}
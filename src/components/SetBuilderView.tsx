@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TransitionBadge } from './TransitionBadge';
+import { formatBpm } from '@/lib/rekordbox-parser';
+import { formatKey, type KeyNotation } from '@/lib/keys';
+import { exportTracksToPdf } from '@/lib/pdf-export';
+import { ENERGY_CURVE_LABELS, optimiseOrder, scoreOrder, type EnergyCurve, type SetOrder } from '@/lib/set-builder';
+import { cn } from '@/lib/utils';
+import type { Playlist, Track } from '@/types/rekordbox';
+
+interface SetBuilderViewProps {
+  playlist: Playlist;
+  tracks: Track[];
+  keyNotation: KeyNotation;
+  hiddenColumns: string[];
+  onClose: () => void;
+}
+
+function OrderColumn({ title, order, keyNotation }: { title: string; order: SetOrder; keyNotation: KeyNotation }) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col border-r border-border last:border-r-0">
+      <div className="flex items-baseline justify-between border-b border-border px-4 py-2">
+        <h2 className="text-sm font-semibold text-foreground">{title}</h2>
+        <span className="text-xs text-muted-foreground">Score {order.score}/100</span>
+      </div>
+      <ScrollArea className="flex-1">
+        <ol className="px-4 py-2">
+          {order.tracks.map((track, index) => (
+            <li key={index}>
+              <div className="flex items-center gap-3 py-1.5 text-sm">
+                <span className="w-6 shrink-0 text-right tabular-nums text-muted-foreground">{index + 1}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-foreground">{track.title}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{track.artist}</span>
+                </span>
+                <span className="w-12 shrink-0 text-right font-mono text-xs tabular-nums text-muted-foreground">
+                  {formatBpm(track.bpm)}
+                </span>
+                <span className="w-9 shrink-0 font-mono text-xs text-foreground">{formatKey(track.key, keyNotation)}</span>
+              </div>
+              {order.transitions[index] && <TransitionBadge transition={order.transitions[index]} className="pl-9" />}
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+    </div>
+  );
+}
+
+// "Optimise order": the playlist as it stands beside a smoother running order
+export function SetBuilderView({ playlist, tracks, keyNotation, hiddenColumns, onClose }: SetBuilderViewProps) {
+  const [energy, setEnergy] = useState<EnergyCurve>('none');
+  const [pinOpener, setPinOpener] = useState(false);
+  const [pinCloser, setPinCloser] = useState(false);
+
+  const playlistTracks = useMemo(() => {
+    const byId = new Map(tracks.map(t => [t.id, t]));
+    return playlist.trackIds.map(id => byId.get(id)).filter((t): t is Track => !!t);
+  }, [playlist, tracks]);
+
+  const original = useMemo(() => scoreOrder(playlistTracks), [playlistTracks]);
+  const proposed = useMemo(
+    () => optimiseOrder(playlistTracks, { energy, pinOpener, pinCloser }),
+    [playlistTracks, energy, pinOpener, pinCloser]
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center gap-4 border-b border-border bg-muted/30 px-4 py-2">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <div className="flex items-center gap-1">
+          <span className="mr-1 text-sm text-muted-foreground">Energy</span>
+          {(Object.keys(ENERGY_CURVE_LABELS) as EnergyCurve[]).map(curve => (
+            <Button
+              key={curve}
+              variant={energy === curve ? 'default' : 'outline'}
+              size="sm"
+              className={cn('h-7 px-2 text-xs', energy === curve && 'bg-primary text-primary-foreground')}
+              onClick={() => setEnergy(curve)}
+            >
+              {ENERGY_CURVE_LABELS[curve]}
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <Checkbox checked={pinOpener} onCheckedChange={checked => setPinOpener(checked === true)} />
+          Keep opener
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <Checkbox checked={pinCloser} onCheckedChange={checked => setPinCloser(checked === true)} />
+          Keep closer
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto gap-2"
+          onClick={() => exportTracksToPdf(proposed.tracks, `${playlist.name} (optimised)`, hiddenColumns, { keyNotation, runningOrder: proposed })}
+        >
+          <FileDown className="h-4 w-4" />
+          Export PDF
+        </Button>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <OrderColumn title="Original order" order={original} keyNotation={keyNotation} />
+        <OrderColumn title="Proposed order" order={proposed} keyNotation={keyNotation} />
+      </div>
+    </div>
+  );
+}
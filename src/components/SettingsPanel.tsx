@@ -5,6 +5,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
+import { KEY_NOTATION_LABELS, type KeyNotation } from '@/lib/keys';
 
 export type ColorScheme = 'dark' | 'midnight' | 'light' | 'arctic';
 
@@ -13,6 +14,8 @@ interface SettingsPanelProps {
   onColorSchemeChange: (scheme: ColorScheme) => void;
   fontSize: number;
   onFontSizeChange: (size: number) => void;
+  keyNotation: KeyNotation;
+  onKeyNotationChange: (notation: KeyNotation) => void;
   hiddenColumns: string[];
   onToggleColumn: (key: string) => void;
 }
@@ -25,11 +28,31 @@ const schemes: { value: ColorScheme; label: string; icon: typeof Sun }[] = [
 ];
 
 const toggleableColumns = [
+  { key: 'artwork', label: 'Artwork' },
+  { key: 'color', label: 'Color' },
+  { key: 'waveform', label: 'Waveform' },
   { key: 'genre', label: 'Genre' },
   { key: 'bpm', label: 'BPM' },
+  { key: 'key', label: 'Key' },
+  { key: 'transition', label: 'Transition' },
+  { key: 'position', label: '#' },
+  { key: 'cues', label: 'Cues' },
   { key: 'duration', label: 'Duration' },
   { key: 'label', label: 'Label' },
   { key: 'year', label: 'Year' },
+  { key: 'myTags', label: 'My Tag' },
+  { key: 'remixer', label: 'Remixer' },
+  { key: 'mixName', label: 'Mix Name' },
+  { key: 'originalArtist', label: 'Orig. Artist' },
+  { key: 'composer', label: 'Composer' },
+  { key: 'comment', label: 'Comment' },
+  { key: 'isrc', label: 'ISRC' },
+  { key: 'trackNumber', label: 'Track #' },
+  { key: 'discNumber', label: 'Disc #' },
+  { key: 'sampleRate', label: 'Sample Rate' },
+  { key: 'sampleDepth', label: 'Bit Depth' },
+  { key: 'fileSize', label: 'Size' },
+  { key: 'playCount', label: 'Plays' },
 ];
 
 export function SettingsPanel({
@@ -37,6 +60,8 @@ export function SettingsPanel({
   onColorSchemeChange,
   fontSize,
   onFontSizeChange,
+  keyNotation,
+  onKeyNotationChange,
   hiddenColumns,
   onToggleColumn,
 }: SettingsPanelProps) {
@@ -138,6 +163,30 @@ export function SettingsPanel({
           </p>
         </div>
 
+        {/* Key Notation */}
+        <div className="mt-4 space-y-2">
+          <Label className="text-sm text-muted-foreground">Key Notation</Label>
+          <div className="flex gap-2">
+            {(Object.keys(KEY_NOTATION_LABELS) as KeyNotation[]).map((notation) => {
+              const isActive = keyNotation === notation;
+              return (
+                <Button
+                  key={notation}
+                  variant={isActive ? 'default' : 'outline'}
+                  size="sm"
+                  className={cn('h-8 flex-1 px-2 text-xs', isActive && 'bg-primary text-primary-foreground')}
+                  onClick={() => onKeyNotationChange(notation)}
+                >
+                  {KEY_NOTATION_LABELS[notation]}
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Keys are converted from whatever notation the stick was exported with.
+          </p>
+        </div>
+
         {/* Column Visibility */}
         <div className="mt-4 space-y-2">
           <Label className="text-sm text-muted-foreground">Visible Columns</Label>
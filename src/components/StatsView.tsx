@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { formatBpm, formatFileSize } from '@/lib/rekordbox-parser';
+import { formatKey, type KeyNotation } from '@/lib/keys';
+import { libraryTotals, statBuckets, type StatBucket, type StatField, type StatFilter } from '@/lib/library-stats';
+import { cn } from '@/lib/utils';
+import type { Playlist, Track } from '@/types/rekordbox';
+
+interface StatsViewProps {
+  tracks: Track[];
+  playlist: Playlist | null;
+  keyNotation: KeyNotation;
+  // wholeStick: the bar was counted over every track, so the table should drop the playlist
+  onShowTracks: (filter: StatFilter, wholeStick: boolean) => void;
+}
+
+type Scope = 'playlist' | 'all';
+
+const BREAKDOWN_LIMIT = 10;
+
+function formatTotalDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours ? `${hours} h ${minutes} min` : `${minutes} min`;
+}
+
+function Section({ title, className, children }: { title: string; className?: string; children: React.ReactNode }) {
+  return (
+    <section className={cn('rounded-lg border border-border bg-card p-4', className)}>
+      <h3 className="mb-3 text-xs font-medium uppercase tracking-wider text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+// Vertical bars for anything with an order (BPM, year, month added)
+function Histogram({ buckets, onSelect }: { buckets: StatBucket[]; onSelect: (bucket: StatBucket) => void }) {
+  if (buckets.length === 0) return <p className="text-sm text-muted-foreground">No data</p>;
+  const max = Math.max(...buckets.map(b => b.count));
+  // Label roughly every sixth bar so the axis stays readable
+  const every = Math.max(1, Math.ceil(buckets.length / 6));
+  return (
+    <div>
+      <div className="flex h-32 items-end gap-px">
+        {buckets.map(bucket => (
+          <button
+            key={bucket.id}
+            type="button"
+            title={`${bucket.label}: ${bucket.count}`}
+            disabled={bucket.count === 0}
+            className="group flex h-full min-w-0 flex-1 items-end"
+            onClick={() => onSelect(bucket)}
+          >
+            <span
+              className="w-full rounded-t-sm bg-primary/70 transition-colors group-hover:bg-primary"
+              style={{ height: `${(bucket.count / max) * 100}%` }}
+            />
+          </button>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-px">
+        {buckets.map((bucket, index) => (
+          <span key={bucket.id} className="min-w-0 flex-1 overflow-visible whitespace-nowrap text-[10px] text-muted-foreground">
+            {index % every === 0 ? bucket.label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Horizontal bars for names (genre, label, format), biggest first
+function Breakdown({ buckets, onSelect }: { buckets: StatBucket[]; onSelect: (bucket: StatBucket) => void }) {
+  const [expanded, setExpanded] = useState(false);
+  if (buckets.length === 0) return <p className="text-sm text-muted-foreground">No data</p>;
+  const max = Math.max(...buckets.map(b => b.count));
+  const shown = expanded ? buckets : buckets.slice(0, BREAKDOWN_LIMIT);
+  return (
+    <div className="space-y-1">
+      {shown.map(bucket => (
+        <button
+          key={bucket.id}
+          type="button"
+          className="group flex w-full items-center gap-2 text-left text-sm"
+          onClick={() => onSelect(bucket)}
+        >
+          <span className="w-32 shrink-0 truncate text-foreground" title={bucket.label}>
+            {bucket.label}
+          </span>
+          <span className="h-3 min-w-0 flex-1">
+            <span
+              className="block h-full rounded-sm bg-primary/70 transition-colors group-hover:bg-primary"
+              style={{ width: `${(bucket.count / max) * 100}%` }}
+            />
+          </span>
+          <span className="w-10 shrink-0 text-right tabular-nums text-muted-foreground">{bucket.count}</span>
+        </button>
+      ))}
+      {buckets.length > BREAKDOWN_LIMIT && (
+        <Button variant="ghost" size="sm" className="h-7 w-full text-xs" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Show fewer' : `Show all ${buckets.length}`}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+const WHEEL_SIZE = 240;
+const CENTER = WHEEL_SIZE / 2;
+
+// Point on the wheel, clockwise from 12 o'clock
+function polar(radius: number, degrees: number): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  return [CENTER + radius * Math.sin(radians), CENTER - radius * Math.cos(radians)];
+}
+
+function ringSegment(inner: number, outer: number, from: number, to: number): string {
+  const [x1, y1] = polar(outer, from);
+  const [x2, y2] = polar(outer, to);
+  const [x3, y3] = polar(inner, to);
+  const [x4, y4] = polar(inner, from);
+  return `M ${x1} ${y1} A ${outer} ${outer} 0 0 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 0 0 ${x4} ${y4} Z`;
+}
+
+// The Camelot wheel with 12 at the top: minor keys (A) inside, major keys (B) outside
+function KeyWheel({ buckets, keyNotation, onSelect }: { buckets: StatBucket[]; keyNotation: KeyNotation; onSelect: (bucket: StatBucket) => void }) {
+  const max = Math.max(1, ...buckets.map(b => b.count));
+  return (
+    <svg viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`} className="mx-auto w-full max-w-[260px]">
+      {buckets.map(bucket => {
+        const number = Number(bucket.id.slice(0, -1));
+        const minor = bucket.id.endsWith('A');
+        const [inner, outer] = minor ? [48, 82] : [84, 118];
+        const angle = number * 30;
+        const [tx, ty] = polar((inner + outer) / 2, angle);
+        return (
+          <g
+            key={bucket.id}
+            className={bucket.count > 0 ? 'cursor-pointer' : undefined}
+            onClick={() => bucket.count > 0 && onSelect(bucket)}
+          >
+            <title>{`${formatKey(bucket.id, keyNotation)}: ${bucket.count}`}</title>
+            <path
+              d={ringSegment(inner, outer, angle - 14.5, angle + 14.5)}
+              className="fill-primary transition-opacity hover:opacity-100"
+              fillOpacity={bucket.count ? 0.15 + (0.85 * bucket.count) / max : 0.05}
+            />
+            <text
+              x={tx}
+              y={ty}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="pointer-events-none fill-foreground text-[9px]"
+            >
+              {formatKey(bucket.id, keyNotation)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function StatsView({ tracks, playlist, keyNotation, onShowTracks }: StatsViewProps) {
+  const [scope, setScope] = useState<Scope>('playlist');
+  const hasPlaylist = !!playlist && !playlist.isFolder && playlist.trackIds.length > 0;
+  const effectiveScope = hasPlaylist ? scope : 'all';
+
+  const scoped = useMemo(() => {
+    if (effectiveScope === 'all' || !playlist) return tracks;
+    const ids = new Set(playlist.trackIds);
+    return tracks.filter(t => ids.has(t.id));
+  }, [tracks, playlist, effectiveScope]);
+
+  const stats = useMemo(() => {
+    const fields: StatField[] = ['bpm', 'key', 'genre', 'label', 'year', 'format', 'added'];
+    return Object.fromEntries(fields.map(field => [field, statBuckets(field, scoped)])) as Record<StatField, StatBucket[]>;
+  }, [scoped]);
+  const totals = useMemo(() => libraryTotals(scoped), [scoped]);
+
+  const select = (field: StatField, labelPrefix: string) => (bucket: StatBucket) =>
+    onShowTracks(
+      { field, id: bucket.id, label: `${labelPrefix} ${field === 'key' ? formatKey(bucket.id, keyNotation) : bucket.label}` },
+      effectiveScope === 'all'
+    );
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center gap-4 border-b border-border bg-muted/30 px-4 py-2">
+        <p className="text-sm text-muted-foreground">Click any bar to list those tracks.</p>
+        {hasPlaylist && (
+          <div className="ml-auto flex gap-1">
+            {(['playlist', 'all'] as Scope[]).map(value => (
+              <Button
+                key={value}
+                variant={effectiveScope === value ? 'default' : 'outline'}
+                size="sm"
+                className={cn('h-7 max-w-[16rem] truncate px-2 text-xs', effectiveScope === value && 'bg-primary text-primary-foreground')}
+                onClick={() => setScope(value)}
+              >
+                {value === 'playlist' ? playlist.name : 'Whole stick'}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="grid grid-cols-1 gap-4 p-4 lg:grid-cols-2">
+          <Section title="Overview" className="lg:col-span-2">
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              {[
+                ['Tracks', String(totals.tracks)],
+                ['Total time', formatTotalDuration(totals.duration)],
+                ['Size', formatFileSize(totals.fileSize)],
+                ['Average BPM', totals.averageBpm ? formatBpm(totals.averageBpm) : '--'],
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-xs text-muted-foreground">{label}</dt>
+                  <dd className="text-lg font-semibold tabular-nums text-foreground">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </Section>
+          <Section title="BPM">
+            <Histogram buckets={stats.bpm} onSelect={select('bpm', 'BPM')} />
+          </Section>
+          <Section title="Keys">
+            <KeyWheel buckets={stats.key} keyNotation={keyNotation} onSelect={select('key', 'Key')} />
+          </Section>
+          <Section title="Genres">
+            <Breakdown buckets={stats.genre} onSelect={select('genre', 'Genre:')} />
+          </Section>
+          <Section title="Labels">
+            <Breakdown buckets={stats.label} onSelect={select('label', 'Label:')} />
+          </Section>
+          <Section title="Year">
+            <Histogram buckets={stats.year} onSelect={select('year', 'Year')} />
+          </Section>
+          <Section title="Format">
+            <Breakdown buckets={stats.format} onSelect={select('format', 'Format:')} />
+          </Section>
+          <Section title="Added per month" className="lg:col-span-2">
+            <Histogram buckets={stats.added} onSelect={select('added', 'Added')} />
+          </Section>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
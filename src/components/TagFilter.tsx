@@ -0,0 +1,84 @@
+import { Tags, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { MyTagCategory } from '@/types/rekordbox';
+
+interface TagFilterProps {
+  categories: MyTagCategory[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+export function TagFilter({ categories, selected, onChange }: TagFilterProps) {
+  if (categories.length === 0) return null;
+
+  const toggle = (id: number) => {
+    onChange(selected.includes(id) ? selected.filter((t) => t !== id) : [...selected, id]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Filter by MyTag"
+          className={cn('relative', selected.length > 0 && 'border-primary text-primary')}
+        >
+          <Tags className="h-4 w-4" />
+          {selected.length > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-primary-foreground">
+              {selected.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="flex items-center justify-between border-b border-border px-3 py-2">
+          <h4 className="text-sm font-medium">My Tag</h4>
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs" onClick={() => onChange([])}>
+              <X className="h-3 w-3" />
+              Clear
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="max-h-80">
+          <div className="space-y-3 p-3">
+            {categories.map((category) => (
+              <div key={category.id}>
+                <p className="mb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  {category.name}
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {category.tags.map((tag) => {
+                    const isActive = selected.includes(tag.id);
+                    return (
+                      <button
+                        key={tag.id}
+                        onClick={() => toggle(tag.id)}
+                        className={cn(
+                          'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                          isActive
+                            ? 'border-primary bg-primary text-primary-foreground'
+                            : 'border-border text-foreground hover:bg-accent'
+                        )}
+                      >
+                        {tag.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        <p className="border-t border-border px-3 py-2 text-xs text-muted-foreground">
+          Matches any tag within a category and every category you pick from.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
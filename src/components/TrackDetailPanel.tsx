@@ -0,0 +1,186 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArtworkImage } from './ArtworkImage';
+import { MiniWaveform } from './MiniWaveform';
+import { ScrollingWaveform } from './ScrollingWaveform';
+import { PhraseBar } from './PhraseBar';
+import { MixSuggestions } from './MixSuggestions';
+import { useTrackDetail } from '@/hooks/useTrackDetail';
+import { cueColor, cueLabel } from '@/lib/anlz/cues';
+import { formatKey, type KeyNotation } from '@/lib/keys';
+import {
+  formatDuration,
+  formatBpm,
+  formatCueTime,
+  formatFileSize,
+  formatSampleRate,
+  formatSampleDepth,
+  getTrackColorHex
+} from '@/lib/rekordbox-parser';
+import type { Playlist, Track, TrackAnalysis } from '@/types/rekordbox';
+
+interface TrackDetailPanelProps {
+  track: Track;
+  rootHandle: FileSystemDirectoryHandle | null;
+  analysis?: TrackAnalysis;
+  keyNotation: KeyNotation;
+  // For the mix suggestions: the whole stick and the playlist being browsed
+  tracks: Track[];
+  playlist: Playlist | null;
+  onSelectTrack: (track: Track) => void;
+  onClose: () => void;
+}
+
+// First-beat offsets are usually well under a second, so show milliseconds
+function formatBeatTime(ms: number): string {
+  return ms < 60000 ? `${(ms / 1000).toFixed(3)} s` : formatDuration(ms / 1000);
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  if (value === '' || value === undefined || value === null) return null;
+  return (
+    <div className="grid grid-cols-[90px_1fr] gap-2 text-sm">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="min-w-0 break-words text-foreground">{value}</dd>
+    </div>
+  );
+}
+
+export function TrackDetailPanel({
+  track,
+  rootHandle,
+  analysis,
+  keyNotation,
+  tracks,
+  playlist,
+  onSelectTrack,
+  onClose
+}: TrackDetailPanelProps) {
+  const colorHex = getTrackColorHex(track.colorId);
+  const grid = analysis?.beatgrid;
+  const { detail, loading } = useTrackDetail(rootHandle, track.analyzePath);
+  const waveform = detail.waveform;
+  // The .EXT list has colours and comments; fall back to the positions from the .DAT scan
+  const cues = detail.cues ?? analysis?.cues ?? [];
+  const phrases = analysis?.phrases;
+
+  return (
+    <aside className="flex h-full w-80 shrink-0 flex-col border-l border-border bg-card">
+      <div className="flex items-center justify-between border-b border-border px-4 py-2">
+        <h2 className="text-sm font-semibold text-foreground">Track Details</h2>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-4 p-4">
+          <ArtworkImage rootHandle={rootHandle} path={track.artworkPath} large className="aspect-square w-full" />
+
+          <div>
+            <p className="break-words font-semibold text-foreground">{track.title}</p>
+            <p className="break-words text-sm text-muted-foreground">{track.artist}</p>
+          </div>
+
+          {(analysis?.preview || waveform || phrases) && (
+            <div className="space-y-1.5">
+              {analysis?.preview && (
+                <MiniWaveform
+                  preview={analysis.preview}
+                  cues={cues}
+                  durationMs={track.duration * 1000}
+                  className="h-8 rounded bg-black"
+                />
+              )}
+              {phrases && <PhraseBar phrases={phrases} durationMs={track.duration * 1000} />}
+              {waveform && <ScrollingWaveform waveform={waveform} cues={cues} />}
+            </div>
+          )}
+          {loading && !waveform && <p className="text-xs text-muted-foreground">Loading waveform…</p>}
+
+          {cues.length > 0 && (
+            <div>
+              <h3 className="mb-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                Cues ({cues.length})
+              </h3>
+              <ul className="space-y-1">
+                {cues.map((cue, index) => (
+                  <li key={index} className="flex items-baseline gap-2 text-sm">
+                    <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ backgroundColor: cueColor(cue) }} />
+                    <span className="w-24 shrink-0 text-foreground">{cueLabel(cue)}</span>
+                    <span className="shrink-0 font-mono text-xs tabular-nums text-muted-foreground">
+                      {formatCueTime(cue.timeMs)}
+                    </span>
+                    {cue.comment && <span className="min-w-0 truncate text-muted-foreground" title={cue.comment}>{cue.comment}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <dl className="space-y-1.5">
+            <DetailRow label="Mix" value={track.mixName} />
+            <DetailRow label="Remixer" value={track.remixer} />
+            <DetailRow label="Orig. Artist" value={track.originalArtist} />
+            <DetailRow label="Composer" value={track.composer} />
+            <DetailRow label="Lyricist" value={track.lyricist} />
+            <DetailRow label="Album" value={track.album} />
+            <DetailRow
+              label="Track"
+              value={track.trackNumber ? `${track.trackNumber}${track.discNumber ? ` (disc ${track.discNumber})` : ''}` : ''}
+            />
+            <DetailRow label="Genre" value={track.genre} />
+            <DetailRow label="Label" value={track.label} />
+            <DetailRow label="Year" value={track.year || ''} />
+            <DetailRow label="Duration" value={formatDuration(track.duration)} />
+            <DetailRow
+              label="BPM"
+              value={grid?.variableTempo ? `${formatBpm(track.bpm)} (varies ${formatBpm(grid.minBpm)}–${formatBpm(grid.maxBpm)})` : formatBpm(track.bpm)}
+            />
+            <DetailRow label="First Beat" value={grid ? formatBeatTime(grid.firstBeatMs) : ''} />
+            <DetailRow label="Bars" value={grid ? grid.barCount : ''} />
+            <DetailRow
+              label="Phrases"
+              value={phrases ? `${phrases.mood.charAt(0).toUpperCase()}${phrases.mood.slice(1)} mood, ${phrases.phrases.length} phrases` : ''}
+            />
+            <DetailRow label="Key" value={formatKey(track.key, keyNotation)} />
+            <DetailRow
+              label="Color"
+              value={
+                colorHex ? (
+                  <span className="flex items-center gap-2">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: colorHex }} />
+                    {track.color}
+                  </span>
+                ) : (
+                  ''
+                )
+              }
+            />
+            <DetailRow label="My Tag" value={track.myTags?.join(', ') || ''} />
+            <DetailRow label="Comment" value={track.comment} />
+            <DetailRow label="ISRC" value={track.isrc} />
+            <DetailRow label="Released" value={track.releaseDate} />
+            <DetailRow label="Bitrate" value={track.bitrate ? `${track.bitrate} kbps` : ''} />
+            <DetailRow
+              label="Format"
+              value={track.sampleRate ? `${formatSampleRate(track.sampleRate)} · ${formatSampleDepth(track.sampleDepth)}` : ''}
+            />
+            <DetailRow label="Size" value={track.fileSize ? formatFileSize(track.fileSize) : ''} />
+            <DetailRow label="Plays" value={track.playCount ?? ''} />
+            <DetailRow label="File" value={<span className="font-mono text-xs">{track.filePath}</span>} />
+          </dl>
+
+          <MixSuggestions
+            track={track}
+            tracks={tracks}
+            playlist={playlist}
+            keyNotation={keyNotation}
+            onSelectTrack={onSelectTrack}
+          />
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
@@ -1,9 +1,22 @@
 import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
-import { ArrowUp, ArrowDown, GripVertical } from 'lucide-react';
+import { ArrowUp, ArrowDown, GripVertical, Activity } from 'lucide-react';
 import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { formatDuration, formatBpm } from '@/lib/rekordbox-parser';
-import type { Track, SortColumn, SortDirection } from '@/types/rekordbox';
+import {
+  formatDuration,
+  formatBpm,
+  formatFileSize,
+  formatSampleRate,
+  formatSampleDepth,
+  getTrackColorHex,
+  isHighResolution
+} from '@/lib/rekordbox-parser';
+import { formatKey, type KeyNotation } from '@/lib/keys';
+import type { Transition } from '@/lib/mixing';
+import type { Track, TrackAnalysis, SortColumn, SortDirection } from '@/types/rekordbox';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { ArtworkImage } from './ArtworkImage';
+import { MiniWaveform } from './MiniWaveform';
+import { TransitionBadge } from './TransitionBadge';
 
 const COLUMN_WIDTHS_KEY = 'rekordbox-column-widths';
 const COLUMN_ORDER_KEY = 'rekordbox-column-order';
@@ -14,25 +27,58 @@ interface TrackTableProps {
   sortDirection: SortDirection;
   onSort: (column: SortColumn) => void;
   hiddenColumns: string[];
+  rootHandle: FileSystemDirectoryHandle | null;
+  selectedTrackIds?: Set<number>;
+  onSelectTrack?: (track: Track, event: React.MouseEvent) => void;
+  analysis?: Map<number, TrackAnalysis>;
+  keyNotation: KeyNotation;
+  // Only while a playlist is open: each track's place in it and, when the table shows the
+  // playlist in order, how it flows into the next track
+  positions?: Map<number, number>;
+  transitions?: Map<number, Transition>;
 }
 
+type ColumnKey = SortColumn | 'artwork' | 'myTags' | 'waveform' | 'transition';
+
 interface ColumnConfig {
-  key: SortColumn;
+  key: ColumnKey;
   label: string;
   defaultWidth: number;
   minWidth: number;
+  sortable?: boolean;
 }
 
-// Desktop: Title, Artist, Album, Genre, Duration, BPM, Year, Label
+// Desktop: #, Artwork, Color, Title, Artist, Waveform, Album, Genre, Duration, BPM, Key, Transition, Year, Label, My Tag,
+// plus the opt-in credits/metadata columns (see useSettings)
 const DESKTOP_COLUMNS: ColumnConfig[] = [
+  { key: 'position', label: '#', defaultWidth: 50, minWidth: 40 },
+  { key: 'artwork', label: '', defaultWidth: 44, minWidth: 40, sortable: false },
+  { key: 'color', label: '', defaultWidth: 36, minWidth: 28 },
   { key: 'title', label: 'Title', defaultWidth: 280, minWidth: 140 },
   { key: 'artist', label: 'Artist', defaultWidth: 200, minWidth: 120 },
+  { key: 'waveform', label: 'Waveform', defaultWidth: 140, minWidth: 80, sortable: false },
   { key: 'album', label: 'Album', defaultWidth: 200, minWidth: 120 },
   { key: 'genre', label: 'Genre', defaultWidth: 140, minWidth: 100 },
   { key: 'duration', label: 'Duration', defaultWidth: 90, minWidth: 80 },
   { key: 'bpm', label: 'BPM', defaultWidth: 80, minWidth: 70 },
+  { key: 'key', label: 'Key', defaultWidth: 60, minWidth: 50 },
+  { key: 'transition', label: 'Transition', defaultWidth: 170, minWidth: 120, sortable: false },
+  { key: 'cues', label: 'Cues', defaultWidth: 60, minWidth: 50 },
   { key: 'year', label: 'Year', defaultWidth: 60, minWidth: 50 },
   { key: 'label', label: 'Label', defaultWidth: 150, minWidth: 100 },
+  { key: 'myTags', label: 'My Tag', defaultWidth: 180, minWidth: 100, sortable: false },
+  { key: 'remixer', label: 'Remixer', defaultWidth: 150, minWidth: 100 },
+  { key: 'mixName', label: 'Mix Name', defaultWidth: 150, minWidth: 100 },
+  { key: 'originalArtist', label: 'Original Artist', defaultWidth: 150, minWidth: 100 },
+  { key: 'composer', label: 'Composer', defaultWidth: 150, minWidth: 100 },
+  { key: 'comment', label: 'Comment', defaultWidth: 220, minWidth: 100 },
+  { key: 'isrc', label: 'ISRC', defaultWidth: 130, minWidth: 100 },
+  { key: 'trackNumber', label: 'Track #', defaultWidth: 70, minWidth: 50 },
+  { key: 'discNumber', label: 'Disc #', defaultWidth: 60, minWidth: 50 },
+  { key: 'sampleRate', label: 'Sample Rate', defaultWidth: 100, minWidth: 80 },
+  { key: 'sampleDepth', label: 'Bit Depth', defaultWidth: 80, minWidth: 70 },
+  { key: 'fileSize', label: 'Size', defaultWidth: 80, minWidth: 70 },
+  { key: 'playCount', label: 'Plays', defaultWidth: 60, minWidth: 50 },
 ];
 
 // Mobile/iOS: Title, Artist, Album only (no splitters, optimized for readability)
@@ -88,7 +134,20 @@ function ResizeHandle({ onResizeStart }: ResizeHandleProps) {
   );
 }
 
-export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenColumns }: TrackTableProps) {
+export function TrackTable({
+  tracks,
+  sortColumn,
+  sortDirection,
+  onSort,
+  hiddenColumns,
+  rootHandle,
+  selectedTrackIds,
+  onSelectTrack,
+  analysis,
+  keyNotation,
+  positions,
+  transitions
+}: TrackTableProps) {
   const isMobile = useIsMobile();
 
   // Load widths from localStorage on mount, fallback to defaults
@@ -106,6 +165,8 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
     // Filter out hidden columns (but keep mandatory ones: title, artist, album)
     const visibleColumns = DESKTOP_COLUMNS.filter(col => {
       if (['title', 'artist', 'album'].includes(col.key)) return true;
+      if (col.key === 'position' && !positions) return false;
+      if (col.key === 'transition' && !transitions) return false;
       return !hiddenColumns.includes(col.key);
     });
     
@@ -118,7 +179,7 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
       if (idxB === -1) return -1;
       return idxA - idxB;
     });
-  }, [isMobile, columnOrder, hiddenColumns]);
+  }, [isMobile, columnOrder, hiddenColumns, positions, transitions]);
 
   // Persist order
   useEffect(() => {
@@ -241,7 +302,7 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
                   draggedColumn === col.key ? 'opacity-50' : ''
                 }`}
                 style={isMobile ? undefined : { width: columnWidths[col.key] ?? col.defaultWidth }}
-                onClick={() => onSort(col.key)}
+                onClick={() => col.sortable !== false && onSort(col.key as SortColumn)}
               >
                 <div className="flex items-center gap-1 pr-4">
                   <span
@@ -271,14 +332,41 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
           {tracks.map((track, index) => (
             <TableRow
               key={track.id || index}
-              className="border-border transition-colors hover:bg-row-hover"
+              className={`border-border transition-colors hover:bg-row-hover ${onSelectTrack ? 'cursor-pointer select-none' : ''} ${
+                selectedTrackIds?.has(track.id) ? 'bg-row-hover' : ''
+              }`}
               style={isMobile ? undefined : { fontSize: 'var(--table-font-size)' }}
+              onClick={(e) => onSelectTrack?.(track, e)}
             >
               {activeColumns.map((col) => {
                 const cellStyle = isMobile ? undefined : { width: columnWidths[col.key] ?? col.defaultWidth };
                 const mobileClass = isMobile ? 'text-xs py-2 px-2' : '';
 
                 switch (col.key) {
+                  case 'artwork':
+                    return (
+                      <TableCell key="artwork" style={cellStyle} className="py-1">
+                        <ArtworkImage rootHandle={rootHandle} path={track.artworkPath} className="h-8 w-8" />
+                      </TableCell>
+                    );
+                  case 'waveform':
+                    return (
+                      <TableCell key="waveform" style={cellStyle} className="py-1">
+                        <MiniWaveform
+                          preview={analysis?.get(track.id)?.preview}
+                          cues={analysis?.get(track.id)?.cues}
+                          durationMs={track.duration * 1000}
+                        />
+                      </TableCell>
+                    );
+                  case 'color': {
+                    const hex = getTrackColorHex(track.colorId);
+                    return (
+                      <TableCell key="color" style={cellStyle} className={mobileClass} title={track.color || undefined}>
+                        {hex && <span className="block h-3 w-3 rounded-full" style={{ backgroundColor: hex }} />}
+                      </TableCell>
+                    );
+                  }
                   case 'title':
                     return (
                       <TableCell key="title" style={cellStyle} className={`truncate font-medium ${mobileClass}`}>
@@ -335,6 +423,91 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
                         {track.year || ''}
                       </TableCell>
                     );
+                  case 'myTags':
+                    return (
+                      <TableCell
+                        key="myTags"
+                        style={cellStyle}
+                        className={`truncate text-muted-foreground ${mobileClass}`}
+                        title={track.myTags?.join(', ')}
+                      >
+                        {track.myTags?.join(', ') || ''}
+                      </TableCell>
+                    );
+                  case 'remixer':
+                  case 'mixName':
+                  case 'originalArtist':
+                  case 'composer':
+                  case 'comment':
+                  case 'isrc':
+                    return (
+                      <TableCell
+                        key={col.key}
+                        style={cellStyle}
+                        className={`truncate text-muted-foreground ${mobileClass}`}
+                        title={track[col.key] || undefined}
+                      >
+                        {track[col.key] || ''}
+                      </TableCell>
+                    );
+                  case 'trackNumber':
+                  case 'discNumber':
+                    return (
+                      <TableCell
+                        key={col.key}
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                      >
+                        {track[col.key] || ''}
+                      </TableCell>
+                    );
+                  case 'sampleRate':
+                  case 'sampleDepth': {
+                    // Flag files older players refuse to load
+                    const highRes = isHighResolution(track);
+                    return (
+                      <TableCell
+                        key={col.key}
+                        style={cellStyle}
+                        className={`tabular-nums ${highRes ? 'font-medium text-warning' : 'text-muted-foreground'} ${mobileClass}`}
+                        title={highRes ? 'Above 48 kHz / 24-bit: may not play on CDJ-900/2000 and older' : undefined}
+                      >
+                        {col.key === 'sampleRate' ? formatSampleRate(track.sampleRate) : formatSampleDepth(track.sampleDepth)}
+                      </TableCell>
+                    );
+                  }
+                  case 'fileSize':
+                    return (
+                      <TableCell
+                        key="fileSize"
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                      >
+                        {formatFileSize(track.fileSize || 0)}
+                      </TableCell>
+                    );
+                  case 'playCount':
+                    return (
+                      <TableCell
+                        key="playCount"
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                      >
+                        {track.playCount ?? ''}
+                      </TableCell>
+                    );
+                  case 'cues': {
+                    const cues = analysis?.get(track.id)?.cues;
+                    return (
+                      <TableCell
+                        key="cues"
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                      >
+                        {cues ? cues.length : ''}
+                      </TableCell>
+                    );
+                  }
                   case 'duration':
                     return (
                       <TableCell
@@ -345,14 +518,51 @@ export function TrackTable({ tracks, sortColumn, sortDirection, onSort, hiddenCo
                         {formatDuration(track.duration)}
                       </TableCell>
                     );
-                  case 'bpm':
+                  case 'bpm': {
+                    // The single BPM hides drifting grids; the ANLZ beatgrid shows the real range
+                    const grid = analysis?.get(track.id)?.beatgrid;
                     return (
                       <TableCell
                         key="bpm"
                         style={cellStyle}
                         className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                        title={grid?.variableTempo ? `Variable tempo: ${formatBpm(grid.minBpm)}–${formatBpm(grid.maxBpm)} BPM` : undefined}
+                      >
+                        <span className="flex items-center gap-1">
+                          {formatBpm(track.bpm)}
+                          {grid?.variableTempo && <Activity className="h-3 w-3 shrink-0 text-warning" />}
+                        </span>
+                      </TableCell>
+                    );
+                  }
+                  case 'position': {
+                    const position = positions?.get(track.id);
+                    return (
+                      <TableCell
+                        key="position"
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
+                      >
+                        {position !== undefined ? position + 1 : ''}
+                      </TableCell>
+                    );
+                  }
+                  case 'transition': {
+                    const transition = transitions?.get(track.id);
+                    return (
+                      <TableCell key="transition" style={cellStyle} className={mobileClass}>
+                        {transition && <TransitionBadge transition={transition} />}
+                      </TableCell>
+                    );
+                  }
+                  case 'key':
+                    return (
+                      <TableCell
+                        key="key"
+                        style={cellStyle}
+                        className={`tabular-nums text-muted-foreground ${mobileClass}`}
                       >
-                        {formatBpm(track.bpm)}
+                        {formatKey(track.key, keyNotation)}
                       </TableCell>
                     );
                   default:
@@ -0,0 +1,22 @@
+import { formatBpmChange, formatKeyChange, type Transition, type TransitionRating } from '@/lib/mixing';
+import { cn } from '@/lib/utils';
+
+const RATING_CLASSES: Record<TransitionRating, string> = {
+  good: 'bg-success',
+  fair: 'bg-warning',
+  poor: 'bg-destructive',
+};
+
+// Traffic light plus the tempo jump and key move from one track into the next
+export function TransitionBadge({ transition, className }: { transition: Transition; className?: string }) {
+  return (
+    <span
+      className={cn('flex items-center gap-1.5 text-xs text-muted-foreground', className)}
+      title={`Transition score ${transition.score}/100`}
+    >
+      <span className={cn('h-2 w-2 shrink-0 rounded-full', RATING_CLASSES[transition.rating])} />
+      <span className="font-mono tabular-nums">{formatBpmChange(transition)}</span>
+      <span>{formatKeyChange(transition)}</span>
+    </span>
+  );
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { loadArtworkUrl } from '@/lib/artwork';
+
+export function useArtwork(
+  rootHandle: FileSystemDirectoryHandle | null,
+  path: string | undefined,
+  { large = false, enabled = true }: { large?: boolean; enabled?: boolean } = {}
+): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!rootHandle || !path || !enabled) return;
+
+    let cancelled = false;
+    loadArtworkUrl(rootHandle, path, large).then((result) => {
+      if (!cancelled) setUrl(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootHandle, path, large, enabled]);
+
+  return url;
+}
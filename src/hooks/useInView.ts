@@ -0,0 +1,26 @@
+import { useState, useEffect, useRef } from 'react';
+
+// True once the element has come within `rootMargin` of the viewport; stays true afterwards.
+// Used to defer per-row work (artwork reads, waveform drawing) in long tables.
+export function useInView<T extends Element>(rootMargin = '200px') {
+  const ref = useRef<T>(null);
+  const [inView, setInView] = useState(typeof IntersectionObserver === 'undefined');
+
+  useEffect(() => {
+    if (inView || !ref.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) {
+          setInView(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [inView, rootMargin]);
+
+  return { ref, inView };
+}
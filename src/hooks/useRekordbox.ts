@@ -1,13 +1,42 @@
 import { useState, useCallback, useRef } from 'react';
-import type { USBStatus, FileEntry, Playlist, Track, SortColumn, SortDirection } from '@/types/rekordbox';
+import type { USBStatus, FileEntry, Playlist, Track, SortColumn, SortDirection, RekordboxDatabase } from '@/types/rekordbox';
 import { 
   findRekordboxDatabase, 
   fullScanForDatabase, 
-  parseRekordboxDatabase,
-  parseRekordboxDatabaseFromFile,
-  listDirectory 
+  listDirectory,
+  getFileHandleByPath,
+  parseDeviceLibraryPlusFromFile,
+  DEVICE_LIBRARY_PLUS_PATH
 } from '@/lib/rekordbox-parser';
+import {
+  createPlaylistOnDrive,
+  editPlaylistOnDrive,
+  restoreBackupOnDrive,
+  supportsWriteAccess,
+  type WriteResult,
+  type WriteStep
+} from '@/lib/rekordbox-writer';
+import type { PlaylistEdit } from '@/lib/pdb/playlists';
+import { parseInWorker } from '@/lib/parse-in-worker';
+import { clearArtworkCache } from '@/lib/artwork';
+import { parseSearchQuery, matchesPhraseTerms } from '@/lib/search-query';
+import { keySortValue } from '@/lib/keys';
+import { matchesStatFilter, type StatFilter } from '@/lib/library-stats';
+import { matchesColorFilter, tagFilterMatcher } from '@/lib/track-filters';
 import { useToast } from '@/hooks/use-toast';
+import { useTrackAnalysis } from '@/hooks/useTrackAnalysis';
+
+// Stable empty list so the analysis scan doesn't restart on every render before a load
+const NO_TRACKS: Track[] = [];
+
+function findPlaylist(playlists: Playlist[], id: number): Playlist | null {
+  for (const playlist of playlists) {
+    if (playlist.id === id) return playlist;
+    const child = findPlaylist(playlist.children, id);
+    if (child) return child;
+  }
+  return null;
+}
 
 // Check if File System Access API is supported
 export function isFileSystemAccessSupported(): boolean {
@@ -23,9 +52,42 @@ export function useRekordbox() {
   const [fileEntries, setFileEntries] = useState<FileEntry[]>([]);
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [colorFilter, setColorFilter] = useState<number[]>([]);
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  const [statFilter, setStatFilter] = useState<StatFilter | null>(null);
   const [sortColumn, setSortColumn] = useState<SortColumn>('title');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [lastBackupId, setLastBackupId] = useState<string | null>(null);
+  const loadRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { analysis } = useTrackAnalysis(rootHandle, status.type === 'valid' ? status.database.tracks : NO_TRACKS);
+
+  // Every load runs under its own signal, aborted by cancelLoad, reset or the next load.
+  // The steps before the parse (finding the database, looking for exportExt.pdb) check it
+  // too, so a cancel while they run sticks instead of the parse starting afterwards.
+  const startLoad = useCallback((): AbortSignal => {
+    loadRef.current?.abort();
+    loadRef.current = new AbortController();
+    return loadRef.current.signal;
+  }, []);
+
+  const abortLoad = useCallback(() => {
+    loadRef.current?.abort();
+    loadRef.current = null;
+  }, []);
+
+  // Parse off the main thread, streaming progress into the loading status
+  const runParse = useCallback((file: File, extFile: File | null, signal: AbortSignal): Promise<RekordboxDatabase> => {
+    if (signal.aborted) return Promise.reject(signal.reason);
+    const job = parseInWorker(file, extFile, (progress) => setStatus({ type: 'loading', progress }));
+    signal.addEventListener('abort', job.cancel, { once: true });
+    return job.promise;
+  }, []);
+
+  const cancelLoad = useCallback(() => {
+    abortLoad();
+    setStatus({ type: 'idle' });
+  }, [abortLoad]);
 
   const selectFolder = useCallback(async () => {
     try {
@@ -38,6 +100,7 @@ export function useRekordbox() {
         return;
       }
 
+      const signal = startLoad();
       setStatus({ type: 'loading' });
       
       const handle = await window.showDirectoryPicker({ mode: 'read' });
@@ -47,17 +110,16 @@ export function useRekordbox() {
       
       // Try to find Rekordbox database (export.pdb preferred; exportExt.pdb fallback)
       const result = await findRekordboxDatabase(handle);
+      signal.throwIfAborted();
 
       if (result.found && result.handle) {
         try {
           // iOS/small screens: keep it lightweight (skip exportExt merge)
           const isSmallScreen = window.matchMedia('(max-width: 767px)').matches;
 
-          const baseDb = await parseRekordboxDatabase(result.handle);
-
           // If we loaded export.pdb from the standard location, try to also load exportExt.pdb
           // to fill in fields like BPM/Genre when they are missing in the base DB.
-          let mergedDb = baseDb;
+          let extFile: File | null = null;
 
           if (!isSmallScreen) {
             try {
@@ -76,22 +138,9 @@ export function useRekordbox() {
                 }
               }
 
-              if (extHandle) {
-                const extDb = await parseRekordboxDatabase(extHandle);
-                const extById = new Map(extDb.tracks.map((t) => [t.id, t] as const));
-
-                mergedDb = {
-                  ...baseDb,
-                  tracks: baseDb.tracks.map((t) => {
-                    const ext = extById.get(t.id);
-                    if (!ext) return t;
-                    return {
-                      ...t,
-                      bpm: t.bpm > 0 ? t.bpm : ext.bpm,
-                      genre: t.genre ? t.genre : ext.genre,
-                    };
-                  }),
-                };
+              // Don't merge the file with itself when exportExt.pdb is all there is
+              if (extHandle && result.handle.name.toLowerCase() !== extHandle.name.toLowerCase()) {
+                extFile = await extHandle.getFile();
               }
             } catch (e) {
               // Non-fatal; proceed with base DB
@@ -99,6 +148,8 @@ export function useRekordbox() {
             }
           }
 
+          const mergedDb = await runParse(await result.handle.getFile(), extFile, signal);
+
           setStatus({ type: 'valid', database: mergedDb, libraries: result.libraries || { hasLegacy: true, hasPlus: false } });
 
           // Show success toast
@@ -108,6 +159,8 @@ export function useRekordbox() {
             variant: 'default',
           });
         } catch (parseError) {
+          // Cancelled by the user; cancelLoad already reset the status
+          if (parseError instanceof Error && parseError.name === 'AbortError') return;
           console.error('Parse error:', parseError);
 
           const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown error';
@@ -157,7 +210,7 @@ export function useRekordbox() {
         message: errorMessage
       });
     }
-  }, [toast]);
+  }, [toast, startLoad, runParse]);
 
   const handleFileInput = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -197,31 +250,16 @@ export function useRekordbox() {
       return;
     }
 
+    const signal = startLoad();
     setStatus({ type: 'loading' });
 
     try {
-      const baseDb = await parseRekordboxDatabaseFromFile(primaryFile);
-
       // Desktop/large screens: if both are available, merge exportExt into export (for BPM/Genre completeness).
-      let mergedDb = baseDb;
-
-      if (!isSmallScreen && exportFile && exportExtFile) {
-        const extDb = await parseRekordboxDatabaseFromFile(exportExtFile);
-        const extById = new Map(extDb.tracks.map((t) => [t.id, t] as const));
-
-        mergedDb = {
-          ...baseDb,
-          tracks: baseDb.tracks.map((t) => {
-            const ext = extById.get(t.id);
-            if (!ext) return t;
-            return {
-              ...t,
-              bpm: t.bpm > 0 ? t.bpm : ext.bpm,
-              genre: t.genre ? t.genre : ext.genre,
-            };
-          }),
-        };
-      }
+      const mergedDb = await runParse(
+        primaryFile,
+        !isSmallScreen && exportFile && exportExtFile ? exportExtFile : null,
+        signal
+      );
 
       setStatus({ 
         type: 'valid', 
@@ -235,6 +273,7 @@ export function useRekordbox() {
         variant: 'default',
       });
     } catch (parseError) {
+      if (parseError instanceof Error && parseError.name === 'AbortError') return;
       console.error('Parse error:', parseError);
       const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown error';
 
@@ -254,22 +293,95 @@ export function useRekordbox() {
     if (event.target) {
       event.target.value = '';
     }
-  }, [toast]);
+  }, [toast, startLoad, runParse]);
 
   const triggerFileInput = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  // Device Library Plus only drives: the landing screen asks for the key and calls this.
+  // Errors (usually a wrong key) are thrown back so the form can show them and stay open.
+  const openDeviceLibraryPlus = useCallback(async (key: string) => {
+    if (!rootHandle) throw new Error('Select the drive folder first.');
+    const handle = await getFileHandleByPath(rootHandle, DEVICE_LIBRARY_PLUS_PATH);
+    if (!handle) throw new Error(`${DEVICE_LIBRARY_PLUS_PATH} was not found on this drive.`);
+
+    const database = await parseDeviceLibraryPlusFromFile(await handle.getFile(), key);
+    setStatus({ type: 'valid', database, libraries: { hasLegacy: false, hasPlus: true } });
+    toast({
+      title: 'Database Loaded',
+      description: `Successfully loaded ${database.tracks.length} tracks from Device Library Plus.`,
+      variant: 'default',
+    });
+  }, [rootHandle, toast]);
+
+  // Writes need the drive folder (not a picked file) and its legacy export.pdb
+  const canEditPlaylists = rootHandle !== null
+    && status.type === 'valid'
+    && status.libraries.hasLegacy
+    && supportsWriteAccess();
+
+  // Only the playlists change on a write, so they are swapped in without a full reload.
+  // The snapshot taken before the write is kept for "Undo last change".
+  const applyWriteResult = useCallback((result: WriteResult) => {
+    const { playlists } = result.database;
+    setStatus(prev => prev.type === 'valid' ? { ...prev, database: { ...prev.database, playlists } } : prev);
+    setSelectedPlaylist(prev => prev && !prev.isHistory ? findPlaylist(playlists, prev.id) : prev);
+    setLastBackupId(result.backupId);
+  }, []);
+
+  // Errors are thrown back to the caller, which keeps its form open to show them
+  const createPlaylist = useCallback(async (name: string, trackIds: number[], onStep?: (step: WriteStep) => void) => {
+    if (!rootHandle) throw new Error('Open the drive folder to edit its playlists.');
+    applyWriteResult(await createPlaylistOnDrive(rootHandle, { name, trackIds }, onStep));
+    toast({
+      title: 'Playlist Created',
+      description: `"${name.trim()}" (${trackIds.length} tracks) was written to the drive.`,
+      variant: 'default',
+    });
+  }, [rootHandle, toast, applyWriteResult]);
+
+  const editPlaylist = useCallback(async (edit: PlaylistEdit) => {
+    if (!rootHandle) throw new Error('Open the drive folder to edit its playlists.');
+    applyWriteResult(await editPlaylistOnDrive(rootHandle, edit));
+    toast({
+      title: edit.kind === 'delete' ? 'Playlist Deleted' : 'Playlist Updated',
+      description: 'Saved to the drive. Undo restores the backup taken just before.',
+      variant: 'default',
+    });
+  }, [rootHandle, toast, applyWriteResult]);
+
+  // Restoring is backed up too, so pressing Undo again redoes the change
+  const restoreLastBackup = useCallback(async () => {
+    if (!rootHandle || !lastBackupId) return;
+    try {
+      applyWriteResult(await restoreBackupOnDrive(rootHandle, lastBackupId));
+      toast({
+        title: 'Backup Restored',
+        description: `export.pdb is back to ${lastBackupId}.`,
+        variant: 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Could not restore the backup.',
+        variant: 'destructive',
+      });
+    }
+  }, [rootHandle, lastBackupId, toast, applyWriteResult]);
+
   const performFullScan = useCallback(async () => {
     if (!rootHandle) return;
     
+    const signal = startLoad();
     setStatus({ type: 'loading' });
     
     try {
       const result = await fullScanForDatabase(rootHandle);
+      signal.throwIfAborted();
       
       if (result.found && result.handle) {
-        const database = await parseRekordboxDatabase(result.handle);
+        const database = await runParse(await result.handle.getFile(), null, signal);
         setStatus({ 
           type: 'valid', 
           database,
@@ -296,6 +408,7 @@ export function useRekordbox() {
         });
       }
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return;
       console.error('Full scan error:', error);
       
       const errorMessage = error instanceof Error ? error.message : 'Full scan failed.';
@@ -312,7 +425,7 @@ export function useRekordbox() {
         message: errorMessage
       });
     }
-  }, [rootHandle, toast]);
+  }, [rootHandle, toast, startLoad, runParse]);
 
   const navigateToDirectory = useCallback(async (dirHandle: FileSystemDirectoryHandle, dirName: string) => {
     try {
@@ -358,6 +471,7 @@ export function useRekordbox() {
   }, [currentDirectory]);
 
   const reset = useCallback(() => {
+    abortLoad();
     setStatus({ type: 'idle' });
     setRootHandle(null);
     setCurrentDirectory(null);
@@ -365,7 +479,33 @@ export function useRekordbox() {
     setFileEntries([]);
     setSelectedPlaylist(null);
     setSearchQuery('');
-  }, []);
+    setColorFilter([]);
+    setTagFilter([]);
+    setStatFilter(null);
+    setLastBackupId(null);
+    clearArtworkCache();
+  }, [abortLoad]);
+
+  // The built-in demo library: no drive, so no artwork, analysis or writes. The builder
+  // is loaded on demand to keep it out of the main bundle. Whatever drive was picked
+  // before is let go first, so nothing reads or writes it with demo IDs.
+  const loadDemoLibrary = useCallback(async () => {
+    reset();
+    setStatus({ type: 'loading' });
+    try {
+      const { loadDemoDatabase } = await import('@/lib/demo-library');
+      const database = loadDemoDatabase();
+      setStatus({ type: 'valid', database, libraries: { hasLegacy: true, hasPlus: false } });
+      toast({
+        title: 'Demo Library Loaded',
+        description: `${database.tracks.length} made-up tracks to explore. Choose a drive any time to see your own.`,
+        variant: 'default',
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setStatus({ type: 'error', message: `Failed to load the demo library: ${errorMessage}` });
+    }
+  }, [toast, reset]);
 
   const getFilteredTracks = useCallback((): Track[] => {
     if (status.type !== 'valid') return [];
@@ -378,22 +518,56 @@ export function useRekordbox() {
       tracks = tracks.filter(t => trackIdSet.has(t.id));
     }
     
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
+    // Filter by color label
+    if (colorFilter.length > 0) {
+      tracks = tracks.filter(t => matchesColorFilter(t, colorFilter));
+    }
+    
+    // Filter by MyTag: any tag within a category, every category selected
+    if (tagFilter.length > 0) {
+      tracks = tracks.filter(tagFilterMatcher(status.database.myTagCategories, tagFilter));
+    }
+    
+    // Filter by a bar clicked in the statistics view
+    if (statFilter) {
+      tracks = tracks.filter(t => matchesStatFilter(t, statFilter));
+    }
+    
+    // Filter by search query: phrase terms (mood:high, intro>32) against the ANLZ phrases,
+    // the rest as text
+    const parsedQuery = parseSearchQuery(searchQuery);
+    tracks = tracks.filter(t => matchesPhraseTerms(analysis.get(t.id)?.phrases, parsedQuery));
+    if (parsedQuery.text) {
+      const query = parsedQuery.text;
       tracks = tracks.filter(t => 
         t.title.toLowerCase().includes(query) ||
         t.artist.toLowerCase().includes(query) ||
         t.album.toLowerCase().includes(query) ||
-        t.genre.toLowerCase().includes(query)
+        t.genre.toLowerCase().includes(query) ||
+        (t.myTags?.some(tag => tag.toLowerCase().includes(query)) ?? false) ||
+        [t.remixer, t.mixName, t.originalArtist, t.composer, t.comment, t.isrc, t.label].some(
+          field => field?.toLowerCase().includes(query)
+        )
       );
     }
     
+    // Playlist order, or the library's own order when no playlist is open
+    const positions = new Map<number, number>();
+    if (sortColumn === 'position') {
+      const ids = selectedPlaylist && !selectedPlaylist.isFolder ? selectedPlaylist.trackIds : status.database.tracks.map(t => t.id);
+      ids.forEach((id, index) => {
+        if (!positions.has(id)) positions.set(id, index);
+      });
+    }
+
     // Sort tracks
     tracks = [...tracks].sort((a, b) => {
       let comparison = 0;
       
       switch (sortColumn) {
+        case 'position':
+          comparison = (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0);
+          break;
         case 'title':
           comparison = a.title.localeCompare(b.title);
           break;
@@ -412,13 +586,38 @@ export function useRekordbox() {
         case 'bpm':
           comparison = a.bpm - b.bpm;
           break;
+        case 'key':
+          comparison = keySortValue(a.key) - keySortValue(b.key);
+          break;
+        case 'color':
+          comparison = (a.colorId ?? 0) - (b.colorId ?? 0);
+          break;
+        case 'composer':
+        case 'remixer':
+        case 'originalArtist':
+        case 'mixName':
+        case 'comment':
+        case 'isrc':
+          comparison = (a[sortColumn] || '').localeCompare(b[sortColumn] || '');
+          break;
+        case 'trackNumber':
+        case 'discNumber':
+        case 'sampleRate':
+        case 'sampleDepth':
+        case 'fileSize':
+        case 'playCount':
+          comparison = (a[sortColumn] ?? 0) - (b[sortColumn] ?? 0);
+          break;
+        case 'cues':
+          comparison = (analysis.get(a.id)?.cues?.length ?? 0) - (analysis.get(b.id)?.cues?.length ?? 0);
+          break;
       }
       
       return sortDirection === 'asc' ? comparison : -comparison;
     });
     
     return tracks;
-  }, [status, selectedPlaylist, searchQuery, sortColumn, sortDirection]);
+  }, [status, analysis, selectedPlaylist, searchQuery, colorFilter, tagFilter, statFilter, sortColumn, sortDirection]);
 
   const handleSort = useCallback((column: SortColumn) => {
     if (column === sortColumn) {
@@ -432,14 +631,26 @@ export function useRekordbox() {
   return {
     status,
     rootHandle,
+    analysis,
     currentDirectory,
     directoryPath,
     fileEntries,
     selectedPlaylist,
     searchQuery,
+    colorFilter,
+    tagFilter,
+    statFilter,
     sortColumn,
     sortDirection,
     selectFolder,
+    cancelLoad,
+    openDeviceLibraryPlus,
+    loadDemoLibrary,
+    canEditPlaylists,
+    createPlaylist,
+    editPlaylist,
+    canRestoreBackup: canEditPlaylists && lastBackupId !== null,
+    restoreLastBackup,
     performFullScan,
     navigateToDirectory,
     navigateUp,
@@ -447,6 +658,9 @@ export function useRekordbox() {
     reset,
     setSelectedPlaylist,
     setSearchQuery,
+    setColorFilter,
+    setTagFilter,
+    setStatFilter,
     getFilteredTracks,
     handleSort,
     fileInputRef,
@@ -1,18 +1,41 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { ColorScheme } from '@/components/SettingsPanel';
+import type { KeyNotation } from '@/lib/keys';
 
 const STORAGE_KEY = 'rekordbox-viewer-settings';
 
+// Secondary columns start hidden and are switched on from Settings. They are tracked in
+// shownColumns rather than hiddenColumns so that saved settings from before a column
+// existed don't make it appear unasked.
+const OPT_IN_COLUMNS = [
+  'composer',
+  'remixer',
+  'originalArtist',
+  'mixName',
+  'comment',
+  'isrc',
+  'trackNumber',
+  'discNumber',
+  'sampleRate',
+  'sampleDepth',
+  'fileSize',
+  'playCount',
+];
+
 interface Settings {
   colorScheme: ColorScheme;
   fontSize: number;
+  keyNotation: KeyNotation;
   hiddenColumns: string[];
+  shownColumns: string[];
 }
 
 const DEFAULT_SETTINGS: Settings = {
   colorScheme: 'dark',
   fontSize: 14,
+  keyNotation: 'camelot',
   hiddenColumns: [],
+  shownColumns: [],
 };
 
 export function useSettings() {
@@ -57,8 +80,21 @@ export function useSettings() {
     setSettings((prev) => ({ ...prev, fontSize }));
   }, []);
 
+  const setKeyNotation = useCallback((keyNotation: KeyNotation) => {
+    setSettings((prev) => ({ ...prev, keyNotation }));
+  }, []);
+
   const toggleColumnVisibility = useCallback((columnKey: string) => {
     setSettings((prev) => {
+      if (OPT_IN_COLUMNS.includes(columnKey)) {
+        const isShown = prev.shownColumns.includes(columnKey);
+        return {
+          ...prev,
+          shownColumns: isShown
+            ? prev.shownColumns.filter((key) => key !== columnKey)
+            : [...prev.shownColumns, columnKey],
+        };
+      }
       const isHidden = prev.hiddenColumns.includes(columnKey);
       return {
         ...prev,
@@ -69,12 +105,22 @@ export function useSettings() {
     });
   }, []);
 
+  const hiddenColumns = useMemo(
+    () => [
+      ...settings.hiddenColumns,
+      ...OPT_IN_COLUMNS.filter((key) => !settings.shownColumns.includes(key)),
+    ],
+    [settings.hiddenColumns, settings.shownColumns]
+  );
+
   return {
     colorScheme: settings.colorScheme,
     fontSize: settings.fontSize,
-    hiddenColumns: settings.hiddenColumns,
+    keyNotation: settings.keyNotation,
+    hiddenColumns,
     setColorScheme,
     setFontSize,
+    setKeyNotation,
     toggleColumnVisibility,
   };
 }
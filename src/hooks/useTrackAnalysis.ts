@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { loadTrackAnalysis } from '@/lib/analysis';
+import type { Track, TrackAnalysis } from '@/types/rekordbox';
+
+// A few reads in flight keeps a USB stick busy without starving artwork loads
+const CONCURRENCY = 4;
+// Publish results in batches so a 5,000-track library doesn't re-render the table 5,000 times
+const FLUSH_EVERY = 100;
+
+export interface TrackAnalysisState {
+  analysis: Map<number, TrackAnalysis>;
+  done: number;
+  total: number;
+}
+
+// Reads the ANLZ files of every track in the background once a drive folder is open.
+// Without a folder (single-file load) there is nothing to read and the map stays empty.
+export function useTrackAnalysis(
+  rootHandle: FileSystemDirectoryHandle | null,
+  tracks: Track[]
+): TrackAnalysisState {
+  const [state, setState] = useState<TrackAnalysisState>({ analysis: new Map(), done: 0, total: 0 });
+
+  useEffect(() => {
+    const queue = rootHandle ? tracks.filter(t => t.analyzePath) : [];
+    setState({ analysis: new Map(), done: 0, total: queue.length });
+    if (!rootHandle || queue.length === 0) return;
+
+    let cancelled = false;
+    const results = new Map<number, TrackAnalysis>();
+    let done = 0;
+    let next = 0;
+
+    const flush = () => {
+      if (!cancelled) setState({ analysis: new Map(results), done, total: queue.length });
+    };
+
+    const worker = async () => {
+      while (!cancelled && next < queue.length) {
+        const track = queue[next++];
+        const analysis = await loadTrackAnalysis(rootHandle, track.analyzePath!);
+        if (analysis) results.set(track.id, analysis);
+        done++;
+        if (done % FLUSH_EVERY === 0) flush();
+      }
+    };
+
+    Promise.all(Array.from({ length: CONCURRENCY }, worker)).then(flush);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootHandle, tracks]);
+
+  return state;
+}
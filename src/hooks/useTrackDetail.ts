@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { loadTrackDetail, type TrackDetail } from '@/lib/analysis';
+
+const EMPTY: TrackDetail = { waveform: null, cues: null };
+
+export function useTrackDetail(
+  rootHandle: FileSystemDirectoryHandle | null,
+  analyzePath: string | undefined
+): { detail: TrackDetail; loading: boolean } {
+  const [detail, setDetail] = useState<TrackDetail>(EMPTY);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setDetail(EMPTY);
+    if (!rootHandle || !analyzePath) return;
+
+    let cancelled = false;
+    setLoading(true);
+    loadTrackDetail(rootHandle, analyzePath).then((result) => {
+      if (cancelled) return;
+      setDetail(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [rootHandle, analyzePath]);
+
+  return { detail, loading };
+}
@@ -0,0 +1,100 @@
+import { getFileHandleByPath } from '@/lib/rekordbox-parser';
+import { readAnlzSections, findAnlzSection, type AnlzSection } from '@/lib/anlz/sections';
+import { parseBeatgrid, summarizeBeatgrid } from '@/lib/anlz/beatgrid';
+import { parseWavePreview, parseWaveScroll, parseWaveColorScroll } from '@/lib/anlz/waveform';
+import { parseCueList, parseExtendedCueList, mergeCueLists } from '@/lib/anlz/cues';
+import { parsePhrases } from '@/lib/anlz/phrases';
+import type { TrackAnalysis, WaveformDetail, Cue } from '@/types/rekordbox';
+
+// Analysis files are a few KB to a few hundred KB; anything bigger is not an ANLZ file
+const MAX_ANLZ_SIZE = 16 * 1024 * 1024;
+
+// The database stores the .DAT path; the .EXT (and .2EX on newer exports) sit next to it
+export function anlzSiblingPath(analyzePath: string, extension: 'DAT' | 'EXT' | '2EX'): string {
+  return analyzePath.replace(/\.(DAT|EXT|2EX)$/i, `.${extension}`);
+}
+
+async function readAnlzFile(rootHandle: FileSystemDirectoryHandle, path: string): Promise<AnlzSection[]> {
+  const handle = await getFileHandleByPath(rootHandle, path);
+  if (!handle) return [];
+  try {
+    const file = await handle.getFile();
+    if (file.size > MAX_ANLZ_SIZE) return [];
+    return readAnlzSections(await file.arrayBuffer());
+  } catch {
+    return [];
+  }
+}
+
+// Everything the ANLZ files say about one track. Missing files are normal (tracks exported
+// without analysis), so this returns null instead of throwing.
+export async function loadTrackAnalysis(
+  rootHandle: FileSystemDirectoryHandle,
+  analyzePath: string
+): Promise<TrackAnalysis | null> {
+  if (!analyzePath) return null;
+
+  const dat = await readAnlzFile(rootHandle, anlzSiblingPath(analyzePath, 'DAT'));
+  if (dat.length === 0) return null;
+
+  const analysis: TrackAnalysis = {};
+
+  const pqtz = findAnlzSection(dat, 'PQTZ');
+  const beats = pqtz ? parseBeatgrid(pqtz) : [];
+  const beatgrid = summarizeBeatgrid(beats);
+  if (beatgrid) analysis.beatgrid = beatgrid;
+
+  const pwav = findAnlzSection(dat, 'PWAV');
+  const preview = pwav && parseWavePreview(pwav);
+  if (preview) analysis.preview = preview;
+
+  // Positions and types only; colours and comments need the .EXT (see loadTrackDetail)
+  const cueLists = dat.filter(s => s.tag === 'PCOB');
+  if (cueLists.length > 0) analysis.cues = mergeCueLists(cueLists.map(parseCueList));
+
+  // Phrases are only in the .EXT, but search filters on them, so they can't wait for
+  // the detail panel. Only this section is decoded here; the waveforms are left alone.
+  const pssi = findAnlzSection(await readAnlzFile(rootHandle, anlzSiblingPath(analyzePath, 'EXT')), 'PSSI');
+  const phrases = pssi && parsePhrases(pssi, beats);
+  if (phrases) analysis.phrases = phrases;
+
+  return analysis;
+}
+
+export interface TrackDetail {
+  waveform: WaveformDetail | null;
+  cues: Cue[] | null; // null when the .EXT has no PCO2, so callers keep the .DAT cues
+}
+
+// The .EXT is tens of KB per track; the library-wide scan only takes its phrases, so the
+// rest is decoded on demand. It holds the scrolling waveform (colour PWV5 preferred; exports for
+// older players only have the blue PWV3) and the cue lists with colours and comments.
+export async function loadTrackDetail(
+  rootHandle: FileSystemDirectoryHandle,
+  analyzePath: string
+): Promise<TrackDetail> {
+  if (!analyzePath) return { waveform: null, cues: null };
+
+  const ext = await readAnlzFile(rootHandle, anlzSiblingPath(analyzePath, 'EXT'));
+  const pwv5 = findAnlzSection(ext, 'PWV5');
+  const pwv3 = findAnlzSection(ext, 'PWV3');
+
+  return {
+    waveform: (pwv5 && parseWaveColorScroll(pwv5)) || (pwv3 && parseWaveScroll(pwv3)) || null,
+    cues: extendedCues(ext)
+  };
+}
+
+function extendedCues(ext: AnlzSection[]): Cue[] | null {
+  const cueLists = ext.filter(s => s.tag === 'PCO2');
+  return cueLists.length > 0 ? mergeCueLists(cueLists.map(parseExtendedCueList)) : null;
+}
+
+// Cue lists only, for printing many tracks at once without decoding their waveforms
+export async function loadTrackCues(
+  rootHandle: FileSystemDirectoryHandle,
+  analyzePath: string
+): Promise<Cue[] | null> {
+  if (!analyzePath) return null;
+  return extendedCues(await readAnlzFile(rootHandle, anlzSiblingPath(analyzePath, 'EXT')));
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { readAnlzSections, findAnlzSection } from "./sections";
+import { parseBeatgrid, summarizeBeatgrid } from "./beatgrid";
+
+// PMAI file header (28 bytes) followed by a single PQTZ section, all big-endian
+function anlzWithBeats(beats: [number, number, number][]): Uint8Array {
+  const sectionLength = 24 + beats.length * 8;
+  const bytes = new Uint8Array(28 + sectionLength);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  tag(0, "PMAI");
+  view.setUint32(4, 28);
+  view.setUint32(8, bytes.length);
+
+  tag(28, "PQTZ");
+  view.setUint32(32, 24);
+  view.setUint32(36, sectionLength);
+  view.setUint32(44, 0x80000);
+  view.setUint32(48, beats.length);
+  beats.forEach(([beatNumber, tempo, time], i) => {
+    view.setUint16(52 + i * 8, beatNumber);
+    view.setUint16(54 + i * 8, tempo);
+    view.setUint32(56 + i * 8, time);
+  });
+  return bytes;
+}
+
+describe("ANLZ beatgrid", () => {
+  it("reads a fixed grid", () => {
+    const beats = Array.from({ length: 8 }, (_, i) => [(i % 4) + 1, 12800, 120 + i * 469] as [number, number, number]);
+    const pqtz = findAnlzSection(readAnlzSections(anlzWithBeats(beats)), "PQTZ");
+    const summary = summarizeBeatgrid(parseBeatgrid(pqtz!));
+
+    expect(summary).toEqual({
+      firstBeatMs: 120,
+      beatCount: 8,
+      barCount: 2,
+      minBpm: 128,
+      maxBpm: 128,
+      variableTempo: false
+    });
+  });
+
+  it("flags a drifting grid as variable tempo", () => {
+    const pqtz = findAnlzSection(readAnlzSections(anlzWithBeats([[1, 12200, 0], [2, 12450, 490], [3, 12650, 972]])), "PQTZ");
+    const summary = summarizeBeatgrid(parseBeatgrid(pqtz!));
+
+    expect(summary?.variableTempo).toBe(true);
+    expect(summary?.minBpm).toBe(122);
+    expect(summary?.maxBpm).toBe(126.5);
+  });
+
+  it("ignores files that are not ANLZ or have sections running past the end", () => {
+    expect(readAnlzSections(new Uint8Array(64))).toEqual([]);
+
+    const truncated = anlzWithBeats([[1, 12800, 0]]);
+    new DataView(truncated.buffer).setUint32(36, 4096);
+    expect(readAnlzSections(truncated)).toEqual([]);
+  });
+
+  it("honours a Uint8Array that starts partway into its buffer", () => {
+    const file = anlzWithBeats([[1, 12800, 50]]);
+    const padded = new Uint8Array(file.length + 16);
+    padded.set(file, 16);
+    const pqtz = findAnlzSection(readAnlzSections(padded.subarray(16)), "PQTZ");
+    expect(parseBeatgrid(pqtz!)).toEqual([{ beatNumber: 1, bpm: 128, timeMs: 50 }]);
+  });
+});
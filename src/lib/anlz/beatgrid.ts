@@ -0,0 +1,64 @@
+import type { BeatgridSummary } from '../../types/rekordbox';
+import type { AnlzSection } from './sections';
+
+export interface Beat {
+  beatNumber: number; // 1-4 within the bar, 1 is the downbeat
+  bpm: number;
+  timeMs: number;
+}
+
+// rekordbox stores tempo in hundredths, so a fixed grid repeats the exact same value.
+// Anything wider than this is a dynamic grid (live drummer, old vinyl rip, edited tempo).
+const VARIABLE_TEMPO_THRESHOLD = 0.1;
+
+// Sanity cap: ten hours at 300 BPM
+const MAX_BEATS = 180000;
+
+// PQTZ body: unknown (u32), unknown (u32, 0x80000), num_beats (u32), then 8-byte entries of
+// beat_number (u16), tempo (u16, BPM * 100), time (u32, ms)
+export function parseBeatgrid(section: AnlzSection): Beat[] {
+  const view = section.data;
+  const body = section.headerLength;
+  if (body > view.byteLength) return [];
+
+  const countOffset = 20;
+  if (countOffset + 4 > section.headerLength) return [];
+  const numBeats = Math.min(view.getUint32(countOffset, false), MAX_BEATS);
+
+  const beats: Beat[] = [];
+  for (let i = 0; i < numBeats; i++) {
+    const offset = body + i * 8;
+    if (offset + 8 > view.byteLength) break;
+    beats.push({
+      beatNumber: view.getUint16(offset, false),
+      bpm: view.getUint16(offset + 2, false) / 100,
+      timeMs: view.getUint32(offset + 4, false)
+    });
+  }
+  return beats;
+}
+
+export function summarizeBeatgrid(beats: Beat[]): BeatgridSummary | null {
+  if (beats.length === 0) return null;
+
+  let minBpm = Infinity;
+  let maxBpm = 0;
+  let barCount = 0;
+  for (const beat of beats) {
+    if (beat.bpm > 0) {
+      minBpm = Math.min(minBpm, beat.bpm);
+      maxBpm = Math.max(maxBpm, beat.bpm);
+    }
+    if (beat.beatNumber === 1) barCount++;
+  }
+  if (maxBpm === 0) minBpm = 0;
+
+  return {
+    firstBeatMs: beats[0].timeMs,
+    beatCount: beats.length,
+    barCount,
+    minBpm,
+    maxBpm,
+    variableTempo: maxBpm - minBpm > VARIABLE_TEMPO_THRESHOLD
+  };
+}
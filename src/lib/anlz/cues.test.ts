@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { readAnlzSections } from "./sections";
+import { parseCueList, parseExtendedCueList, mergeCueLists, cueLabel } from "./cues";
+
+function tag(view: DataView, offset: number, text: string) {
+  [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+}
+
+// PMAI file header (28 bytes) followed by the given sections, all big-endian
+function anlzFile(sections: Uint8Array[]): Uint8Array {
+  const length = 28 + sections.reduce((sum, s) => sum + s.length, 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  tag(view, 0, "PMAI");
+  view.setUint32(4, 28);
+  view.setUint32(8, length);
+  let offset = 28;
+  for (const section of sections) {
+    bytes.set(section, offset);
+    offset += section.length;
+  }
+  return bytes;
+}
+
+function cueListSection(fourcc: string, headerLength: number, countOffset: number, listType: number, entries: Uint8Array[]): Uint8Array {
+  const length = headerLength + entries.reduce((sum, e) => sum + e.length, 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  tag(view, 0, fourcc);
+  view.setUint32(4, headerLength);
+  view.setUint32(8, length);
+  view.setUint32(12, listType);
+  view.setUint16(countOffset, entries.length);
+  let offset = headerLength;
+  for (const entry of entries) {
+    bytes.set(entry, offset);
+    offset += entry.length;
+  }
+  return bytes;
+}
+
+// PCPT: hot_cue, status, type, time, loop_time
+function pcpt(hotCue: number, status: number, type: number, time: number, loopTime = 0xffffffff): Uint8Array {
+  const bytes = new Uint8Array(56);
+  const view = new DataView(bytes.buffer);
+  tag(view, 0, "PCPT");
+  view.setUint32(4, 28);
+  view.setUint32(8, bytes.length);
+  view.setUint32(12, hotCue);
+  view.setUint32(16, status);
+  view.setUint8(28, type);
+  view.setUint32(32, time);
+  view.setUint32(36, loopTime);
+  return bytes;
+}
+
+// PCP2: hot_cue, type, time, loop_time, color_id, comment, then color_code + RGB
+function pcp2(hotCue: number, type: number, time: number, colorId: number, comment: string, rgb?: [number, number, number]): Uint8Array {
+  const commentBytes = comment ? (comment.length + 1) * 2 : 0;
+  const bytes = new Uint8Array(44 + commentBytes + 4 + 4);
+  const view = new DataView(bytes.buffer);
+  tag(view, 0, "PCP2");
+  view.setUint32(4, 16);
+  view.setUint32(8, bytes.length);
+  view.setUint32(12, hotCue);
+  view.setUint8(16, type);
+  view.setUint32(20, time);
+  view.setUint32(24, type === 2 ? time + 4000 : 0xffffffff);
+  view.setUint8(28, colorId);
+  view.setUint32(40, commentBytes);
+  [...comment].forEach((c, i) => view.setUint16(44 + i * 2, c.charCodeAt(0)));
+  if (rgb) {
+    view.setUint8(44 + commentBytes, 1);
+    rgb.forEach((v, i) => view.setUint8(44 + commentBytes + 1 + i, v));
+  }
+  return bytes;
+}
+
+describe("ANLZ cues", () => {
+  it("reads .DAT cue lists and skips deleted slots", () => {
+    const sections = readAnlzSections(anlzFile([
+      cueListSection("PCOB", 24, 18, 0, [pcpt(0, 1, 1, 32000), pcpt(0, 0, 1, 1000)]),
+      cueListSection("PCOB", 24, 18, 1, [pcpt(2, 4, 2, 16000, 20000), pcpt(1, 4, 1, 500)])
+    ]));
+    const cues = mergeCueLists(sections.filter(s => s.tag === "PCOB").map(parseCueList));
+
+    expect(cues).toEqual([
+      { hotCue: 1, isLoop: false, timeMs: 500, loopEndMs: undefined, comment: "" },
+      { hotCue: 2, isLoop: true, timeMs: 16000, loopEndMs: 20000, comment: "" },
+      { hotCue: 0, isLoop: false, timeMs: 32000, loopEndMs: undefined, comment: "" }
+    ]);
+    expect(cues.map(cueLabel)).toEqual(["Hot cue A", "Hot loop B", "Memory cue"]);
+  });
+
+  it("reads .EXT cue lists with comments and colours", () => {
+    const sections = readAnlzSections(anlzFile([
+      cueListSection("PCO2", 20, 16, 1, [pcp2(3, 1, 64000, 0, "Drop", [0xff, 0x12, 0x34]), pcp2(1, 2, 8000, 0, "", [0x30, 0x5a, 0xff])]),
+      cueListSection("PCO2", 20, 16, 0, [pcp2(0, 1, 1000, 3, "Intro")])
+    ]));
+    const cues = mergeCueLists(sections.filter(s => s.tag === "PCO2").map(parseExtendedCueList));
+
+    expect(cues).toHaveLength(3);
+    expect(cues[0]).toMatchObject({ hotCue: 0, timeMs: 1000, comment: "Intro", color: "#f8a030" });
+    expect(cues[1]).toMatchObject({ hotCue: 1, isLoop: true, timeMs: 8000, loopEndMs: 12000, comment: "", color: "#305aff" });
+    expect(cues[2]).toMatchObject({ hotCue: 3, isLoop: false, timeMs: 64000, comment: "Drop", color: "#ff1234" });
+    expect(cueLabel(cues[2])).toBe("Hot cue C");
+  });
+
+  it("stops at an entry with the wrong tag", () => {
+    const broken = pcpt(1, 4, 1, 500);
+    broken[0] = 0x58;
+    const sections = readAnlzSections(anlzFile([cueListSection("PCOB", 24, 18, 1, [pcpt(2, 4, 1, 100), broken])]));
+
+    expect(parseCueList(sections[0]).map(c => c.hotCue)).toEqual([2]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Cue } from '../../types/rekordbox';
+import { TRACK_COLORS } from '../pdb/rows';
+import type { AnlzSection } from './sections';
+
+// A track has at most 8 hot cues and rekordbox caps memory cues at 100 per list
+const MAX_CUES = 256;
+
+// Memory cue colour IDs follow the track colour table; hot cues carry explicit RGB instead
+function memoryCueColor(colorId: number): string | undefined {
+  return TRACK_COLORS.find(c => c.id === colorId)?.hex;
+}
+
+function hex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+// Walks the fixed-size-header entries that follow a cue list header. Each entry starts
+// with its own fourcc, len_header and len_entry, like a section.
+function* cueEntries(section: AnlzSection, entryTag: string, countOffset: number, countBytes: 2 | 4) {
+  const view = section.data;
+  if (countOffset + countBytes > section.headerLength) return;
+  const count = Math.min(countBytes === 2 ? view.getUint16(countOffset, false) : view.getUint32(countOffset, false), MAX_CUES);
+
+  let offset = section.headerLength;
+  for (let i = 0; i < count && offset + 12 <= view.byteLength; i++) {
+    const tag = String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+    const length = view.getUint32(offset + 8, false);
+    if (tag !== entryTag || length < 12 || offset + length > view.byteLength) return;
+    yield { offset, length };
+    offset += length;
+  }
+}
+
+// PCOB header: type (u32: 0 memory, 1 hot), unknown (u16), num_cues (u16), memory_count (u32).
+// PCPT entry: hot_cue (u32) at 12, status (u32) at 16, type (u8: 1 point, 2 loop) at 28,
+// time (u32 ms) at 32, loop_time (u32 ms) at 36
+export function parseCueList(section: AnlzSection): Cue[] {
+  const view = section.data;
+  const cues: Cue[] = [];
+  for (const { offset, length } of cueEntries(section, 'PCPT', 18, 2)) {
+    if (length < 40) continue;
+    // status 0 marks a deleted slot that rekordbox keeps around
+    if (view.getUint32(offset + 16, false) === 0) continue;
+    const isLoop = view.getUint8(offset + 28) === 2;
+    cues.push({
+      hotCue: view.getUint32(offset + 12, false),
+      isLoop,
+      timeMs: view.getUint32(offset + 32, false),
+      loopEndMs: isLoop ? view.getUint32(offset + 36, false) : undefined,
+      comment: ''
+    });
+  }
+  return cues;
+}
+
+// PCO2 header: type (u32), num_cues (u16), padding (u16).
+// PCP2 entry: hot_cue (u32) at 12, type (u8) at 16, time at 20, loop_time at 24, color_id (u8)
+// at 28, len_comment (u32) at 40, UTF-16BE comment at 44, then color_code and R, G, B bytes
+export function parseExtendedCueList(section: AnlzSection): Cue[] {
+  const view = section.data;
+  const cues: Cue[] = [];
+  for (const { offset, length } of cueEntries(section, 'PCP2', 16, 2)) {
+    if (length < 29) continue;
+    const hotCue = view.getUint32(offset + 12, false);
+    const isLoop = view.getUint8(offset + 16) === 2;
+    const cue: Cue = {
+      hotCue,
+      isLoop,
+      timeMs: view.getUint32(offset + 20, false),
+      loopEndMs: isLoop ? view.getUint32(offset + 24, false) : undefined,
+      color: hotCue === 0 ? memoryCueColor(view.getUint8(offset + 28)) : undefined,
+      comment: ''
+    };
+
+    if (length >= 44) {
+      const commentLength = view.getUint32(offset + 40, false);
+      const commentEnd = offset + 44 + commentLength;
+      if (commentLength > 0 && commentEnd <= offset + length) {
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + offset + 44, commentLength);
+        cue.comment = new TextDecoder('utf-16be').decode(bytes).replace(/\0+$/, '');
+      }
+      // Hot cue colour follows the comment: color_code, then red, green, blue
+      if (hotCue > 0 && commentEnd + 4 <= offset + length && view.getUint8(commentEnd) !== 0) {
+        cue.color = hex(view.getUint8(commentEnd + 1), view.getUint8(commentEnd + 2), view.getUint8(commentEnd + 3));
+      }
+    }
+    cues.push(cue);
+  }
+  return cues;
+}
+
+// Each file has one list for memory cues and one for hot cues; callers pass all of them
+export function mergeCueLists(lists: Cue[][]): Cue[] {
+  return lists.flat().sort((a, b) => a.timeMs - b.timeMs || a.hotCue - b.hotCue);
+}
+
+// What the players draw when no colour was assigned: red memory cues, green hot cues,
+// orange loops
+export function cueColor(cue: Cue): string {
+  if (cue.color) return cue.color;
+  if (cue.isLoop) return '#ff8c00';
+  return cue.hotCue === 0 ? '#e13a2f' : '#28e214';
+}
+
+// Single letter for timeline markers: A-H for hot cues, nothing for memory cues
+export function cueLetter(cue: Cue): string {
+  return cue.hotCue > 0 && cue.hotCue <= 8 ? String.fromCharCode(64 + cue.hotCue) : '';
+}
+
+export function cueLabel(cue: Cue): string {
+  if (cue.hotCue === 0) return cue.isLoop ? 'Memory loop' : 'Memory cue';
+  const letter = cueLetter(cue) || String(cue.hotCue);
+  return cue.isLoop ? `Hot loop ${letter}` : `Hot cue ${letter}`;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { readAnlzSections, findAnlzSection } from "./sections";
+import { parsePhrases, longestPhraseRun } from "./phrases";
+import type { Beat } from "./beatgrid";
+
+const MASK = [0xcb, 0xe1, 0xee, 0xfa, 0xe5, 0xee, 0xad, 0xee, 0xe9, 0xd2, 0xe9, 0xeb, 0xe1, 0xe9, 0xf3, 0xe8, 0xe9, 0xf4, 0xe1];
+
+// PMAI file header (28 bytes) followed by a single PSSI section, all big-endian
+function anlzWithPhrases(mood: number, endBeat: number, entries: [number, number][], masked = false): Uint8Array {
+  const sectionLength = 32 + entries.length * 24;
+  const bytes = new Uint8Array(28 + sectionLength);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  tag(0, "PMAI");
+  view.setUint32(4, 28);
+  view.setUint32(8, bytes.length);
+
+  tag(28, "PSSI");
+  view.setUint32(32, 32);
+  view.setUint32(36, sectionLength);
+  view.setUint32(40, 24);
+  view.setUint16(44, entries.length);
+  view.setUint16(46, mood);
+  view.setUint16(54, endBeat);
+  entries.forEach(([beat, kind], i) => {
+    view.setUint16(60 + i * 24, i + 1);
+    view.setUint16(62 + i * 24, beat);
+    view.setUint16(64 + i * 24, kind);
+  });
+
+  if (masked) {
+    for (let i = 18; i < sectionLength; i++) bytes[28 + i] ^= (MASK[(i - 18) % MASK.length] + entries.length) & 0xff;
+  }
+  return bytes;
+}
+
+// A steady 120 BPM grid: beat n at (n - 1) * 500 ms
+const beats: Beat[] = Array.from({ length: 512 }, (_, i) => ({ beatNumber: (i % 4) + 1, bpm: 120, timeMs: i * 500 }));
+
+describe("ANLZ phrases", () => {
+  const entries: [number, number][] = [[1, 1], [65, 1], [129, 2], [257, 9], [385, 10]];
+
+  it("reads a mid-mood phrase list with times from the beatgrid", () => {
+    const pssi = findAnlzSection(readAnlzSections(anlzWithPhrases(2, 449, entries)), "PSSI");
+    const analysis = parsePhrases(pssi!, beats)!;
+
+    expect(analysis.mood).toBe("mid");
+    expect(analysis.phrases.map(p => [p.label, p.bars])).toEqual([
+      ["Intro", 16], ["Intro", 16], ["Verse 1", 32], ["Chorus", 32], ["Outro", 16]
+    ]);
+    expect(analysis.phrases[3]).toMatchObject({ kind: "chorus", startMs: 128000, endMs: 192000 });
+    expect(longestPhraseRun(analysis, "intro")).toBe(32);
+    expect(longestPhraseRun(analysis, "bridge")).toBe(0);
+  });
+
+  it("unmasks rekordbox 6 phrase data", () => {
+    const pssi = findAnlzSection(readAnlzSections(anlzWithPhrases(2, 449, entries, true)), "PSSI");
+    const analysis = parsePhrases(pssi!, beats)!;
+
+    expect(analysis.mood).toBe("mid");
+    expect(analysis.phrases).toHaveLength(5);
+    expect(analysis.phrases[4]).toMatchObject({ label: "Outro", startBeat: 385, endBeat: 449 });
+  });
+
+  it("names kinds by mood", () => {
+    const pssi = findAnlzSection(readAnlzSections(anlzWithPhrases(1, 129, [[1, 1], [33, 2], [65, 5]])), "PSSI");
+
+    expect(parsePhrases(pssi!, beats)!.phrases.map(p => p.kind)).toEqual(["intro", "up", "chorus"]);
+  });
+});
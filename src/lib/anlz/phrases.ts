@@ -0,0 +1,135 @@
+import type { Phrase, PhraseAnalysis, PhraseKind, PhraseMood } from '../../types/rekordbox';
+import type { AnlzSection } from './sections';
+import type { Beat } from './beatgrid';
+
+// Sanity cap; a long track has a few dozen phrases
+const MAX_PHRASES = 256;
+
+// rekordbox 6 and later obfuscate everything after len_entries: each byte is XORed with
+// this key (repeating) plus the entry count. Unmasked files have a mood of 1-3 there.
+const MASK = [0xcb, 0xe1, 0xee, 0xfa, 0xe5, 0xee, 0xad, 0xee, 0xe9, 0xd2, 0xe9, 0xeb, 0xe1, 0xe9, 0xf3, 0xe8, 0xe9, 0xf4, 0xe1];
+const MASK_START = 18;
+
+const MOODS: Record<number, PhraseMood> = { 1: 'high', 2: 'mid', 3: 'low' };
+
+// Phrase kind IDs mean different things per mood
+const HIGH_KINDS: Record<number, [PhraseKind, string]> = {
+  1: ['intro', 'Intro'],
+  2: ['up', 'Up'],
+  3: ['down', 'Down'],
+  5: ['chorus', 'Chorus'],
+  6: ['outro', 'Outro']
+};
+
+const MID_KINDS: Record<number, [PhraseKind, string]> = {
+  1: ['intro', 'Intro'],
+  2: ['verse', 'Verse 1'],
+  3: ['verse', 'Verse 2'],
+  4: ['verse', 'Verse 3'],
+  5: ['verse', 'Verse 4'],
+  6: ['verse', 'Verse 5'],
+  7: ['verse', 'Verse 6'],
+  8: ['bridge', 'Bridge'],
+  9: ['chorus', 'Chorus'],
+  10: ['outro', 'Outro']
+};
+
+const LOW_KINDS: Record<number, [PhraseKind, string]> = {
+  1: ['intro', 'Intro'],
+  2: ['verse', 'Verse 1'],
+  3: ['verse', 'Verse 1'],
+  4: ['verse', 'Verse 1'],
+  5: ['verse', 'Verse 2'],
+  6: ['verse', 'Verse 2'],
+  7: ['verse', 'Verse 2'],
+  8: ['bridge', 'Bridge'],
+  9: ['chorus', 'Chorus'],
+  10: ['outro', 'Outro']
+};
+
+const KINDS: Record<PhraseMood, Record<number, [PhraseKind, string]>> = {
+  high: HIGH_KINDS,
+  mid: MID_KINDS,
+  low: LOW_KINDS
+};
+
+export const PHRASE_COLORS: Record<PhraseKind, string> = {
+  intro: '#d9534f',
+  up: '#a07cf0',
+  down: '#5d6fe8',
+  verse: '#4a8ff0',
+  bridge: '#e5c03c',
+  chorus: '#4cc46a',
+  outro: '#9b59b6'
+};
+
+function unmask(view: DataView): DataView {
+  if (view.byteLength < MASK_START + 2 || view.getUint16(MASK_START, false) <= 20) return view;
+
+  const count = view.getUint16(16, false);
+  const bytes = new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+  for (let i = MASK_START; i < bytes.length; i++) {
+    bytes[i] ^= (MASK[(i - MASK_START) % MASK.length] + count) & 0xff;
+  }
+  return new DataView(bytes.buffer);
+}
+
+// Beat numbers past the grid (the end marker usually is) are extrapolated at the last tempo
+function beatTime(beats: Beat[], beatNumber: number): number {
+  if (beats.length === 0) return 0;
+  const index = Math.max(beatNumber - 1, 0);
+  if (index < beats.length) return beats[index].timeMs;
+  const last = beats[beats.length - 1];
+  return last.bpm > 0 ? Math.round(last.timeMs + ((index - beats.length + 1) * 60000) / last.bpm) : last.timeMs;
+}
+
+// PSSI header: len_entry_bytes (u32) at 12, len_entries (u16) at 16, mood (u16) at 18,
+// end_beat (u16) at 26. Entries: index (u16), beat (u16) at 2, kind (u16) at 4, then fill-in
+// flags this ignores. A phrase runs until the next one starts, the last until end_beat.
+export function parsePhrases(section: AnlzSection, beats: Beat[]): PhraseAnalysis | null {
+  if (section.headerLength < 28) return null;
+  const view = unmask(section.data);
+
+  const entryLength = view.getUint32(12, false);
+  const count = Math.min(view.getUint16(16, false), MAX_PHRASES);
+  const mood = MOODS[view.getUint16(18, false)];
+  const endBeat = view.getUint16(26, false);
+  if (!mood || entryLength < 6) return null;
+
+  const entries: { beat: number; kindId: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = section.headerLength + i * entryLength;
+    if (offset + 6 > view.byteLength) break;
+    entries.push({ beat: view.getUint16(offset + 2, false), kindId: view.getUint16(offset + 4, false) });
+  }
+
+  const phrases: Phrase[] = [];
+  entries.forEach((entry, i) => {
+    const kind = KINDS[mood][entry.kindId];
+    const end = i + 1 < entries.length ? entries[i + 1].beat : endBeat;
+    if (!kind || end <= entry.beat) return;
+    phrases.push({
+      kind: kind[0],
+      label: kind[1],
+      startBeat: entry.beat,
+      endBeat: end,
+      bars: (end - entry.beat) / 4,
+      startMs: beatTime(beats, entry.beat),
+      endMs: beatTime(beats, end)
+    });
+  });
+
+  return { mood, phrases };
+}
+
+// Longest stretch of one kind in bars, merging back-to-back phrases of that kind
+// (rekordbox often splits a long intro into two 16-bar phrases)
+export function longestPhraseRun(analysis: PhraseAnalysis, kind: PhraseKind): number {
+  let longest = 0;
+  let run = 0;
+  for (const phrase of analysis.phrases) {
+    run = phrase.kind === kind ? run + phrase.bars : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
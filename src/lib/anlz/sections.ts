@@ -0,0 +1,57 @@
+// ANLZ analysis files (PIONEER/USBANLZ/Pnnn/xxxxxxxx/ANLZ0000.DAT, .EXT, .2EX) are
+// big-endian, unlike export.pdb. A "PMAI" file header is followed by tagged sections,
+// each starting with fourcc (4 bytes), len_header (u32) and len_tag (u32, whole section).
+// Like lib/pdb this only touches buffers, so it runs anywhere.
+
+export interface AnlzSection {
+  tag: string;
+  headerLength: number;
+  data: DataView; // the whole section, header included
+}
+
+const MAX_SECTIONS = 64;
+
+function fourcc(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// Returns the sections it could bound-check; an unreadable file yields an empty list
+export function readAnlzSections(buffer: ArrayBuffer | Uint8Array): AnlzSection[] {
+  const view = buffer instanceof Uint8Array
+    ? new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new DataView(buffer);
+  if (view.byteLength < 12 || fourcc(view, 0) !== 'PMAI') return [];
+
+  const fileHeaderLength = view.getUint32(4, false);
+  const fileLength = Math.min(view.getUint32(8, false), view.byteLength);
+  if (fileHeaderLength < 12 || fileHeaderLength > fileLength) return [];
+  const sections: AnlzSection[] = [];
+
+  let offset = fileHeaderLength;
+  while (offset + 12 <= fileLength && sections.length < MAX_SECTIONS) {
+    const tag = fourcc(view, offset);
+    const headerLength = view.getUint32(offset + 4, false);
+    const length = view.getUint32(offset + 8, false);
+
+    // Security: a section must at least hold its own header and stay inside the file
+    if (length < 12 || headerLength < 12 || headerLength > length || offset + length > fileLength) break;
+
+    sections.push({
+      tag,
+      headerLength,
+      data: new DataView(view.buffer, view.byteOffset + offset, length)
+    });
+    offset += length;
+  }
+
+  return sections;
+}
+
+export function findAnlzSection(sections: AnlzSection[], tag: string): AnlzSection | undefined {
+  return sections.find(s => s.tag === tag);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { readAnlzSections, findAnlzSection } from "./sections";
+import { parseWavePreview, parseWaveColorScroll, parseWaveScroll, monochromeRgb } from "./waveform";
+
+// PMAI header plus one section: tag, 24-byte header with the entry count at `countOffset`, body
+function anlzSection(tag: string, headerLength: number, countOffset: number, count: number, body: number[]): Uint8Array {
+  const sectionLength = headerLength + body.length;
+  const bytes = new Uint8Array(28 + sectionLength);
+  const view = new DataView(bytes.buffer);
+  [..."PMAI"].forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+  view.setUint32(4, 28);
+  view.setUint32(8, bytes.length);
+  [...tag].forEach((c, i) => view.setUint8(28 + i, c.charCodeAt(0)));
+  view.setUint32(32, headerLength);
+  view.setUint32(36, sectionLength);
+  view.setUint32(28 + countOffset, count);
+  bytes.set(body, 28 + headerLength);
+  return bytes;
+}
+
+describe("ANLZ waveforms", () => {
+  it("splits PWAV bytes into height and whiteness", () => {
+    const file = anlzSection("PWAV", 20, 12, 3, [0x1f, 0xe0 | 0x05, 0x00]);
+    const preview = parseWavePreview(findAnlzSection(readAnlzSections(file), "PWAV")!);
+    expect(Array.from(preview!.heights)).toEqual([31, 5, 0]);
+    expect(Array.from(preview!.whiteness)).toEqual([0, 7, 0]);
+  });
+
+  it("decodes PWV5 colour entries", () => {
+    // red 7, green 0, blue 7, height 20
+    const entry = (7 << 13) | (0 << 10) | (7 << 7) | (20 << 2);
+    const file = anlzSection("PWV5", 24, 16, 1, [entry >> 8, entry & 0xff]);
+    const detail = parseWaveColorScroll(findAnlzSection(readAnlzSections(file), "PWV5")!);
+    expect(detail!.color).toBe(true);
+    expect(Array.from(detail!.heights)).toEqual([20]);
+    expect(Array.from(detail!.colors)).toEqual([255, 0, 255]);
+  });
+
+  it("gives PWV3 entries the monochrome palette", () => {
+    const file = anlzSection("PWV3", 24, 16, 1, [0xe0 | 0x10]);
+    const detail = parseWaveScroll(findAnlzSection(readAnlzSections(file), "PWV3")!);
+    expect(detail!.color).toBe(false);
+    expect(Array.from(detail!.colors)).toEqual(monochromeRgb(7));
+  });
+
+  it("clamps a declared count that runs past the section", () => {
+    const file = anlzSection("PWAV", 20, 12, 400, [0x01, 0x02]);
+    expect(parseWavePreview(findAnlzSection(readAnlzSections(file), "PWAV")!)!.heights).toHaveLength(2);
+  });
+});
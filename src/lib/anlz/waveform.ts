@@ -0,0 +1,75 @@
+import type { WaveformPreview, WaveformDetail } from '../../types/rekordbox';
+import type { AnlzSection } from './sections';
+
+// Scrolling waveforms are stored at half-frame resolution: 150 entries per second of audio
+const DETAIL_ENTRIES_PER_SECOND = 150;
+
+// Sanity caps: the preview is 400 columns on every export seen so far; detail is ten hours
+const MAX_PREVIEW_COLUMNS = 4096;
+const MAX_DETAIL_ENTRIES = DETAIL_ENTRIES_PER_SECOND * 36000;
+
+// Monochrome entries pack height (low 5 bits) and whiteness (high 3 bits) into one byte.
+// The players draw them in shades from blue to white; these are their end points.
+const MONO_DARK = [0x00, 0x68, 0xd8];
+const MONO_LIGHT = [0xe0, 0xf4, 0xff];
+
+export function monochromeRgb(whiteness: number): [number, number, number] {
+  const t = whiteness / 7;
+  return [0, 1, 2].map(i => Math.round(MONO_DARK[i] + (MONO_LIGHT[i] - MONO_DARK[i]) * t)) as [number, number, number];
+}
+
+// Reads the (count, data) pair at the end of a section header and clamps it to the section
+function entryCount(section: AnlzSection, countOffset: number, entryBytes: number, max: number): number {
+  if (countOffset + 4 > section.headerLength) return 0;
+  const declared = section.data.getUint32(countOffset, false);
+  const available = Math.floor((section.data.byteLength - section.headerLength) / entryBytes);
+  return Math.max(0, Math.min(declared, available, max));
+}
+
+// PWAV body: len_preview (u32), unknown (u32, 0x10000), then one byte per column
+export function parseWavePreview(section: AnlzSection): WaveformPreview | null {
+  const count = entryCount(section, 12, 1, MAX_PREVIEW_COLUMNS);
+  if (count === 0) return null;
+
+  const heights = new Uint8Array(count);
+  const whiteness = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    const byte = section.data.getUint8(section.headerLength + i);
+    heights[i] = byte & 0x1f;
+    whiteness[i] = byte >> 5;
+  }
+  return { heights, whiteness };
+}
+
+// PWV3 body: len_entry_bytes (u32, 1), len_entries (u32), unknown (u32), one byte per entry
+export function parseWaveScroll(section: AnlzSection): WaveformDetail | null {
+  const count = entryCount(section, 16, 1, MAX_DETAIL_ENTRIES);
+  if (count === 0) return null;
+
+  const heights = new Uint8Array(count);
+  const colors = new Uint8Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const byte = section.data.getUint8(section.headerLength + i);
+    heights[i] = byte & 0x1f;
+    colors.set(monochromeRgb(byte >> 5), i * 3);
+  }
+  return { entriesPerSecond: DETAIL_ENTRIES_PER_SECOND, heights, colors, color: false };
+}
+
+// PWV5 body: len_entry_bytes (u32, 2), len_entries (u32), unknown (u32), then a u16 per entry:
+// red (3 bits), green (3 bits), blue (3 bits), height (5 bits), 2 unused bits
+export function parseWaveColorScroll(section: AnlzSection): WaveformDetail | null {
+  const count = entryCount(section, 16, 2, MAX_DETAIL_ENTRIES);
+  if (count === 0) return null;
+
+  const heights = new Uint8Array(count);
+  const colors = new Uint8Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const entry = section.data.getUint16(section.headerLength + i * 2, false);
+    heights[i] = (entry >> 2) & 0x1f;
+    colors[i * 3] = Math.round(((entry >> 13) & 0x07) * 255 / 7);
+    colors[i * 3 + 1] = Math.round(((entry >> 10) & 0x07) * 255 / 7);
+    colors[i * 3 + 2] = Math.round(((entry >> 7) & 0x07) * 255 / 7);
+  }
+  return { entriesPerSecond: DETAIL_ENTRIES_PER_SECOND, heights, colors, color: true };
+}
@@ -0,0 +1,53 @@
+import { getFileHandleByPath } from '@/lib/rekordbox-parser';
+
+// Object URLs keyed by database path. Kept for the session so scrolling back up the
+// table doesn't re-read the same JPEG from the stick.
+const artworkCache = new Map<string, Promise<string | null>>();
+
+// rekordbox 6+ writes a 240px copy next to the 80px thumbnail with an `_m` suffix
+// (a1.jpg → a1_m.jpg). Older exports only have the small one.
+function largeVariant(path: string): string {
+  return path.replace(/(\.[a-z0-9]+)$/i, '_m$1');
+}
+
+async function readAsObjectUrl(rootHandle: FileSystemDirectoryHandle, path: string): Promise<string | null> {
+  const handle = await getFileHandleByPath(rootHandle, path);
+  if (!handle) return null;
+  try {
+    const file = await handle.getFile();
+    return URL.createObjectURL(file);
+  } catch (error) {
+    console.error('Error reading artwork', path, ':', error);
+    return null;
+  }
+}
+
+export function loadArtworkUrl(
+  rootHandle: FileSystemDirectoryHandle,
+  path: string,
+  large = false
+): Promise<string | null> {
+  const cacheKey = large ? `${path}#large` : path;
+  const cached = artworkCache.get(cacheKey);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    if (large) {
+      const url = await readAsObjectUrl(rootHandle, largeVariant(path));
+      if (url) return url;
+    }
+    return readAsObjectUrl(rootHandle, path);
+  })();
+
+  artworkCache.set(cacheKey, pending);
+  return pending;
+}
+
+export function clearArtworkCache() {
+  artworkCache.forEach((pending) => {
+    pending.then((url) => {
+      if (url) URL.revokeObjectURL(url);
+    });
+  });
+  artworkCache.clear();
+}
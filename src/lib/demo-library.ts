@@ -0,0 +1,91 @@
+import type { RekordboxDatabase } from '@/types/rekordbox';
+import { buildPdb, type SyntheticLibrary, type SyntheticTrack } from '@/lib/pdb/builder';
+import { parsePdb } from '@/lib/pdb/database';
+
+// A made-up library for trying the app without a stick. It is built into a real
+// export.pdb and parsed like one, so everything downstream sees the same data it would
+// from a drive. Artists, titles and labels are invented.
+
+type DemoTrack = Omit<SyntheticTrack, 'id' | 'title' | 'artist' | 'bpm' | 'key' | 'duration'>;
+
+// id, title, artist, bpm, key, duration (m:ss), everything else
+const TRACKS: [number, string, string, number, string, string, DemoTrack][] = [
+  [1, 'Harbour Lights', 'Mira Lenz', 118, 'Am', '6:42', { genre: 'Deep House', album: 'Tidal', label: 'Lowtide', year: 2019, rating: 4, colorId: 6 }],
+  [2, 'Soft Focus', 'Mira Lenz', 120, 'Em', '7:05', { genre: 'Deep House', album: 'Tidal', label: 'Lowtide', year: 2019, rating: 3 }],
+  [3, 'Paper Moons', 'Olu Adé', 121, 'C', '6:18', { genre: 'Deep House', label: 'Sable Records', year: 2021, rating: 5, colorId: 5 }],
+  [4, 'Slow Orbit', 'Tessellate', 122, 'Dm', '6:55', { genre: 'House', album: 'Orbits', label: 'Kite Audio', year: 2020, rating: 3 }],
+  [5, 'Brass Tacks', 'Tessellate', 123, 'Gm', '6:30', { genre: 'House', album: 'Orbits', label: 'Kite Audio', year: 2020, rating: 4, colorId: 4 }],
+  [6, 'Coastline', 'June Vey', 122, 'F', '5:58', { genre: 'House', label: 'Lowtide', year: 2022, rating: 2 }],
+  [7, 'Open Window', 'June Vey', 124, 'Bm', '6:12', { genre: 'House', label: 'Lowtide', year: 2022, rating: 4, remixer: 'Olu Adé', mixName: 'Olu Adé Remix' }],
+  [8, 'Saltwater', 'Kasimir Holt', 124, 'F#m', '7:21', { genre: 'Tech House', label: 'Grid Theory', year: 2023, rating: 3 }],
+  [9, 'Neon Grammar', 'Kasimir Holt', 125, 'A', '6:47', { genre: 'Tech House', label: 'Grid Theory', year: 2023, rating: 5, colorId: 2 }],
+  [10, 'Overpass', 'Rhea Okafor', 125, 'Dbm', '6:03', { genre: 'Tech House', label: 'Sable Records', year: 2021, rating: 4 }],
+  [11, 'Pulse Width', 'Rhea Okafor', 126, 'E', '5:49', { genre: 'Tech House', label: 'Sable Records', year: 2024, rating: 3 }],
+  [12, 'Low Sun', 'Ansel Grau', 126, 'Abm', '7:12', { genre: 'Progressive House', album: 'Meridian', label: 'Kite Audio', year: 2018, rating: 4, colorId: 7 }],
+  [13, 'Meridian', 'Ansel Grau', 127, 'B', '8:01', { genre: 'Progressive House', album: 'Meridian', label: 'Kite Audio', year: 2018, rating: 5, colorId: 7 }],
+  [14, 'Ferrous', 'Nadia Ström', 128, 'Ebm', '6:36', { genre: 'Techno', label: 'Iron Bloom', year: 2022, rating: 4 }],
+  [15, 'Cold Start', 'Nadia Ström', 128, 'Bbm', '6:50', { genre: 'Techno', label: 'Iron Bloom', year: 2022, rating: 3, colorId: 2 }],
+  [16, 'Signal Lost', 'Void Canal', 129, 'Fm', '7:04', { genre: 'Techno', label: 'Iron Bloom', year: 2023, rating: 5, colorId: 2 }],
+  [17, 'Undertow', 'Void Canal', 130, 'Cm', '6:28', { genre: 'Techno', label: 'Iron Bloom', year: 2023, rating: 4 }],
+  [18, 'Heliograph', 'Sora Mikami', 130, 'Gm', '6:59', { genre: 'Techno', label: 'Grid Theory', year: 2024, rating: 3 }],
+  [19, 'Night Bus', 'Sora Mikami', 131, 'Dm', '6:15', { genre: 'Techno', label: 'Grid Theory', year: 2024, rating: 4, colorId: 3 }],
+  [20, 'Tangent', 'Felix Amare', 132, 'Am', '6:44', { genre: 'Techno', label: 'Iron Bloom', year: 2020, rating: 3 }],
+  [21, 'Last Light', 'Felix Amare', 133, 'Em', '7:30', { genre: 'Techno', label: 'Iron Bloom', year: 2020, rating: 5, colorId: 8 }],
+  [22, 'Breakwater', 'Lio Park', 134, 'Bm', '6:05', { genre: 'Hard Techno', label: 'Concrete Sky', year: 2024, rating: 3 }],
+  [23, 'Static Bloom', 'Lio Park', 136, 'F#m', '5:52', { genre: 'Hard Techno', label: 'Concrete Sky', year: 2024, rating: 4, colorId: 1 }],
+  [24, 'Afterglow', 'Olu Adé', 110, 'Eb', '5:40', { genre: 'Downtempo', label: 'Sable Records', year: 2017, rating: 4, colorId: 6 }],
+  [25, 'Still Water', 'Mira Lenz', 112, 'Bb', '6:02', { genre: 'Downtempo', album: 'Tidal', label: 'Lowtide', year: 2019, rating: 3 }],
+  [26, 'Daybreak Loop', 'June Vey', 116, 'G', '6:26', { genre: 'Deep House', label: 'Lowtide', year: 2021, rating: 2 }],
+  [27, 'Rooftop Radio', 'Kasimir Holt', 124, 'D', '6:33', { genre: 'Tech House', label: 'Grid Theory', year: 2022, rating: 3 }],
+  [28, 'Glasshouse', 'Tessellate', 123, 'Ab', '6:19', { genre: 'House', album: 'Orbits', label: 'Kite Audio', year: 2020, rating: 4 }],
+  [29, 'Ferrous', 'Nadia Ström', 128, 'Ebm', '6:36', { genre: 'Techno', label: 'Iron Bloom', year: 2022, rating: 2, bitrate: 192, comment: 'older rip' }],
+  [30, 'Neon Grammar', 'Kasimir Holt', 125, 'A', '6:47', { genre: 'Tech House', label: 'Grid Theory', year: 2023, rating: 0, filePath: '/Contents/Downloads/neon_grammar_final.wav', bitrate: 1411 }]
+];
+
+function seconds(duration: string): number {
+  const [minutes, rest] = duration.split(':');
+  return Number(minutes) * 60 + Number(rest);
+}
+
+export const DEMO_LIBRARY: SyntheticLibrary = {
+  tracks: TRACKS.map(([id, title, artist, bpm, key, duration, rest]) => ({
+    id,
+    title,
+    artist,
+    bpm,
+    key,
+    duration: seconds(duration),
+    fileSize: seconds(duration) * (rest.bitrate ?? 320) * 125,
+    trackNumber: 1,
+    dateAdded: `2024-${String((id % 12) + 1).padStart(2, '0')}-${String((id % 27) + 1).padStart(2, '0')}`,
+    ...rest
+  })),
+  playlists: [
+    {
+      name: 'Gigs',
+      children: [
+        { name: 'Warm-up', trackIds: [24, 25, 26, 1, 2, 3, 4] },
+        { name: 'Peak time', trackIds: [9, 10, 12, 13, 14, 15, 16, 17] },
+        { name: 'Closing', trackIds: [18, 19, 20, 21, 22, 23] }
+      ]
+    },
+    {
+      name: 'Crates',
+      children: [
+        { name: 'Deep House', trackIds: [1, 2, 3, 26] },
+        { name: 'Tech House', trackIds: [8, 9, 10, 11, 27] },
+        { name: 'Techno', trackIds: [14, 15, 16, 17, 18, 19, 20, 21] }
+      ]
+    },
+    { name: 'Favourites', trackIds: [3, 9, 13, 16, 21] },
+    { name: 'To sort', trackIds: [29, 30, 28, 5, 6, 7] }
+  ],
+  history: [
+    { name: 'HISTORY 2024-09-14', trackIds: [1, 3, 5, 9, 12, 13, 16, 21] },
+    { name: 'HISTORY 2024-11-02', trackIds: [24, 2, 4, 7, 10, 14, 17, 19, 23] }
+  ]
+};
+
+export function loadDemoDatabase(): RekordboxDatabase {
+  return parsePdb(buildPdb(DEMO_LIBRARY), { fileName: 'demo export.pdb' });
+}
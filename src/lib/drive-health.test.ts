@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { checkDriveHealth, normaliseDrivePath } from "./drive-health";
+import { makePlaylist, makeTrack } from "@/test/fixtures";
+import type { RekordboxDatabase, Track } from "@/types/rekordbox";
+
+const track = (id: number, fields: Partial<Track> = {}): Track =>
+  makeTrack(id, {
+    bpm: 124,
+    key: "8A",
+    artist: "Artist",
+    filePath: `/Contents/Artist/Track ${id}.mp3`,
+    analyzePath: `/PIONEER/USBANLZ/P000/0000000${id}/ANLZ0000.DAT`,
+    ...fields,
+  });
+
+const database = (fields: Partial<RekordboxDatabase>): RekordboxDatabase => ({
+  tracks: [],
+  playlists: [],
+  history: [],
+  colors: [],
+  myTagCategories: [],
+  diagnostics: { entries: [], dropped: 0 },
+  ...fields,
+});
+
+describe("normaliseDrivePath", () => {
+  it("ignores case, backslashes and doubled slashes", () => {
+    expect(normaliseDrivePath("Contents\\Artist//Song.MP3")).toBe("/contents/artist/song.mp3");
+  });
+});
+
+describe("checkDriveHealth", () => {
+  const db = database({
+    tracks: [track(1), track(2), track(3, { analyzePath: undefined }), track(4)],
+    playlists: [makePlaylist(10, "Gigs", [], [makePlaylist(11, "Peak", [1, 2, 99, 99]), makePlaylist(12, "Next week", [])])],
+    history: [makePlaylist(20, "HISTORY 2024-05-03", [3, 77])],
+  });
+  const files = [
+    "/Contents/Artist/Track 1.mp3",
+    "/contents/artist/TRACK 2.MP3",
+    "/Contents/Artist/Track 3.mp3",
+    "/PIONEER/USBANLZ/P000/00000001/ANLZ0000.DAT",
+    "/PIONEER/USBANLZ/P000/00000004/ANLZ0000.DAT",
+    "/Contents/Stray/forgotten.wav",
+    "/Contents/Stray/cover.jpg",
+    "/PIONEER/rekordbox/export.pdb",
+  ];
+
+  it("reports every kind of problem, most serious first", () => {
+    const report = checkDriveHealth(db, files);
+    expect(report.issues.map(i => [i.severity, i.kind, i.subject])).toEqual([
+      ["error", "missing-audio", "Artist – Track 4"],
+      ["error", "unknown-track", "Gigs / Peak"],
+      ["error", "unknown-track", "History / HISTORY 2024-05-03"],
+      ["warning", "missing-analysis", "Artist – Track 2"],
+      ["warning", "not-analysed", "Artist – Track 3"],
+      ["info", "orphan-audio", "/Contents/Stray/forgotten.wav"],
+      ["info", "empty-playlist", "Gigs / Next week"],
+    ]);
+    expect(report.issues[1].detail).toBe("Track ID 99 not in the library");
+    expect(report).toMatchObject({ tracks: 4, files: 8 });
+  });
+
+  it("runs only the database checks without a drive", () => {
+    const report = checkDriveHealth(db, null);
+    expect(report.files).toBeNull();
+    expect(report.issues.map(i => i.kind)).toEqual(["unknown-track", "unknown-track", "not-analysed", "empty-playlist"]);
+  });
+});
@@ -0,0 +1,160 @@
+import type { Playlist, RekordboxDatabase, Track } from '@/types/rekordbox';
+import { BACKUP_DIRECTORY } from '@/lib/rekordbox-writer';
+import { anlzSiblingPath } from '@/lib/analysis';
+
+// Pre-gig drive check: what the database promises against what is actually on the stick.
+// The drive is walked once into a set of paths, then every check is a lookup, so the
+// report for a few thousand tracks takes as long as listing the folders.
+
+export type HealthSeverity = 'error' | 'warning' | 'info';
+
+export type HealthIssueKind =
+  | 'missing-audio'
+  | 'unknown-track'
+  | 'missing-analysis'
+  | 'not-analysed'
+  | 'orphan-audio'
+  | 'empty-playlist';
+
+export interface HealthIssue {
+  kind: HealthIssueKind;
+  severity: HealthSeverity;
+  // The track, playlist or file the issue is about, as the user would recognise it
+  subject: string;
+  detail: string;
+}
+
+export interface HealthReport {
+  issues: HealthIssue[];
+  tracks: number;
+  // Null when there was no drive folder to walk (a single export.pdb, the demo library);
+  // only the database checks ran then
+  files: number | null;
+}
+
+export const HEALTH_ISSUE_LABELS: Record<HealthIssueKind, string> = {
+  'missing-audio': 'Audio file missing',
+  'unknown-track': 'Playlist entry without a track',
+  'missing-analysis': 'Analysis file missing',
+  'not-analysed': 'Not analysed',
+  'orphan-audio': 'Audio file not in the library',
+  'empty-playlist': 'Empty playlist',
+};
+
+// Most serious first: what won't play, then what plays without waveforms or grids, then
+// housekeeping
+const SEVERITIES: Record<HealthIssueKind, HealthSeverity> = {
+  'missing-audio': 'error',
+  'unknown-track': 'error',
+  'missing-analysis': 'warning',
+  'not-analysed': 'warning',
+  'orphan-audio': 'info',
+  'empty-playlist': 'info',
+};
+
+const SEVERITY_ORDER: HealthSeverity[] = ['error', 'warning', 'info'];
+const KIND_ORDER = Object.keys(SEVERITIES) as HealthIssueKind[];
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'aif', 'aiff', 'flac', 'm4a', 'aac', 'mp4', 'alac', 'ogg'];
+
+// Folders no export puts music in: OS housekeeping, and this app's own backups
+const SKIPPED_FOLDERS = ['system volume information', '$recycle.bin', BACKUP_DIRECTORY.toLowerCase()];
+
+// FAT32 and exFAT ignore case, and so do the players
+export function normaliseDrivePath(path: string): string {
+  return '/' + path.replace(/\\/g, '/').split('/').filter(Boolean).join('/').toLowerCase();
+}
+
+function describeTrack(track: Track): string {
+  return [track.artist, track.title].filter(Boolean).join(' – ') || `Track ${track.id}`;
+}
+
+function walkPlaylists(playlists: Playlist[], visit: (playlist: Playlist, path: string) => void, prefix = '') {
+  for (const playlist of playlists) {
+    const path = prefix + playlist.name;
+    visit(playlist, path);
+    walkPlaylists(playlist.children, visit, `${path} / `);
+  }
+}
+
+// `files` holds every file path on the drive (see listDriveFiles), or null without a drive
+export function checkDriveHealth(database: RekordboxDatabase, files: string[] | null): HealthReport {
+  const issues: HealthIssue[] = [];
+  const add = (kind: HealthIssueKind, subject: string, detail: string) =>
+    issues.push({ kind, severity: SEVERITIES[kind], subject, detail });
+
+  const onDrive = files && new Set(files.map(normaliseDrivePath));
+  const referenced = new Set<string>();
+
+  for (const track of database.tracks) {
+    if (track.filePath) referenced.add(normaliseDrivePath(track.filePath));
+    if (onDrive && track.filePath && !onDrive.has(normaliseDrivePath(track.filePath))) {
+      add('missing-audio', describeTrack(track), track.filePath);
+    }
+    if (!track.analyzePath) {
+      add('not-analysed', describeTrack(track), 'No waveform, beat grid or cues on the players');
+    } else if (onDrive && !onDrive.has(normaliseDrivePath(anlzSiblingPath(track.analyzePath, 'DAT')))) {
+      add('missing-analysis', describeTrack(track), track.analyzePath);
+    }
+  }
+
+  const trackIds = new Set(database.tracks.map(t => t.id));
+  const checkEntries = (playlist: Playlist, path: string) => {
+    const unknown = [...new Set(playlist.trackIds.filter(id => !trackIds.has(id)))];
+    if (unknown.length > 0) {
+      add('unknown-track', path, `${unknown.length === 1 ? 'Track ID' : 'Track IDs'} ${unknown.join(', ')} not in the library`);
+    }
+  };
+  walkPlaylists(database.playlists, (playlist, path) => {
+    if (playlist.isFolder) return;
+    if (playlist.trackIds.length === 0) add('empty-playlist', path, 'No tracks');
+    checkEntries(playlist, path);
+  });
+  walkPlaylists(database.history, checkEntries, 'History / ');
+
+  for (const file of files ?? []) {
+    const path = normaliseDrivePath(file);
+    const extension = path.match(/\.([a-z0-9]+)$/)?.[1];
+    if (extension && AUDIO_EXTENSIONS.includes(extension) && !referenced.has(path) && !path.startsWith('/pioneer/')) {
+      add('orphan-audio', file, 'Not referenced by any track');
+    }
+  }
+
+  issues.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.subject.localeCompare(b.subject)
+  );
+  return { issues, tracks: database.tracks.length, files: files ? files.length : null };
+}
+
+// Every file path on the drive, as "/Contents/Artist/track.mp3". Hidden folders and the
+// ones in SKIPPED_FOLDERS are left out. Unreadable folders are skipped rather than failing
+// the whole walk.
+export async function listDriveFiles(
+  rootHandle: FileSystemDirectoryHandle,
+  onProgress?: (count: number) => void,
+  isCancelled: () => boolean = () => false
+): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    try {
+      for await (const [name, handle] of dir.entries()) {
+        if (isCancelled()) return;
+        if (handle.kind === 'directory') {
+          if (name.startsWith('.') || SKIPPED_FOLDERS.includes(name.toLowerCase())) continue;
+          await walk(handle as FileSystemDirectoryHandle, `${prefix}${name}/`);
+        } else {
+          files.push(prefix + name);
+          if (files.length % 500 === 0) onProgress?.(files.length);
+        }
+      }
+    } catch (error) {
+      console.error('Could not list', prefix, error);
+    }
+  };
+  await walk(rootHandle, '/');
+  onProgress?.(files.length);
+  return files;
+}
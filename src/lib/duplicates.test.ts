@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { findDuplicates, normaliseText, playlistReferences } from "./duplicates";
+import { makePlaylist, makeTrack } from "@/test/fixtures";
+import type { Track } from "@/types/rekordbox";
+
+const track = (id: number, fields: Partial<Track>): Track =>
+  makeTrack(id, { title: "", bpm: 124, key: "8A", filePath: `/Contents/${id}.mp3`, ...fields });
+
+describe("normaliseText", () => {
+  it("ignores case, accents and punctuation but keeps any script", () => {
+    expect(normaliseText("  Ténèbres (Original Mix)! ")).toBe("tenebres original mix");
+    expect(normaliseText("Beyoncé")).toBe(normaliseText("BEYONCE"));
+    expect(normaliseText("東京 / Night")).toBe("東京 night");
+    expect(normaliseText("?!")).toBe("");
+  });
+});
+
+describe("findDuplicates", () => {
+  const tracks = [
+    track(1, { title: "Ferrous", artist: "Nadia Ström", duration: 396, fileSize: 15_000_000 }),
+    track(2, { title: "ferrous", artist: "Nadia Strom", duration: 397, bitrate: 192, fileSize: 9_000_000 }),
+    track(3, { title: "Ferrous", artist: "Nadia Ström", duration: 530 }),
+    track(4, { title: "Neon Grammar", artist: "Kasimir Holt", filePath: "/Contents/1.MP3" }),
+    track(5, { title: "Other", artist: "Someone", fileSize: 15_000_000 }),
+    track(6, { title: "", artist: "", filePath: "" }),
+    track(7, { title: "", artist: "", filePath: "" }),
+  ];
+  const groups = findDuplicates(tracks);
+  const ids = (reason: string) => groups.filter(g => g.reason === reason).map(g => g.tracks.map(t => t.id).sort());
+
+  it("groups the same file listed under different IDs", () => {
+    expect(ids("path")).toEqual([[1, 4]]);
+  });
+
+  it("groups matching title and artist within the length tolerance", () => {
+    // Track 3 is the extended mix: same names, two minutes longer
+    expect(ids("metadata")).toEqual([[1, 2]]);
+  });
+
+  it("groups equal file sizes", () => {
+    expect(ids("size")).toEqual([[1, 5]]);
+  });
+
+  it("finds nothing in a library without duplicates", () => {
+    expect(findDuplicates([tracks[0], tracks[2]])).toEqual([]);
+  });
+});
+
+describe("playlistReferences", () => {
+  it("lists playlist paths and history sessions per track, once each", () => {
+    const references = playlistReferences(
+      [makePlaylist(1, "Gigs", [], [makePlaylist(2, "Peak", [1, 2, 1])]), makePlaylist(3, "Favourites", [1])],
+      [makePlaylist(4, "HISTORY 2024-05-03", [2])]
+    );
+    expect(references.get(1)).toEqual(["Gigs / Peak", "Favourites"]);
+    expect(references.get(2)).toEqual(["Gigs / Peak", "History / HISTORY 2024-05-03"]);
+    expect(references.has(3)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import type { Playlist, Track } from '@/types/rekordbox';
+
+// Duplicates build up on sticks that are re-exported from different collections: the same
+// file listed under two IDs, or the same recording copied again at another bitrate or
+// path. Each rule below groups on its own; a pair can turn up under more than one.
+
+export type DuplicateReason = 'path' | 'metadata' | 'size';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  path: 'Same file',
+  metadata: 'Same title, artist and length',
+  size: 'Same file size',
+};
+
+export interface DuplicateGroup {
+  reason: DuplicateReason;
+  tracks: Track[];
+}
+
+// Re-encodes and different rips of one recording rarely differ by more than this
+export const DURATION_TOLERANCE = 2; // seconds
+
+// Case, accents and punctuation differ between taggers; letters and digits in any script
+// are kept
+export function normaliseText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function normalisePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/\/+/g, '/').trim().toLowerCase();
+}
+
+function groupBy(tracks: Track[], key: (track: Track) => string | null): Track[][] {
+  const groups = new Map<string, Track[]>();
+  for (const track of tracks) {
+    const k = key(track);
+    if (k === null) continue;
+    const group = groups.get(k);
+    if (group) group.push(track);
+    else groups.set(k, [track]);
+  }
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Splits a same-title group into runs whose lengths are each within the tolerance of the
+// previous one, so a radio edit and an extended mix stay apart
+function splitByDuration(tracks: Track[]): Track[][] {
+  const sorted = [...tracks].sort((a, b) => a.duration - b.duration);
+  const runs: Track[][] = [];
+  for (const track of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && track.duration - run[run.length - 1].duration <= DURATION_TOLERANCE) run.push(track);
+    else runs.push([track]);
+  }
+  return runs.filter(run => run.length > 1);
+}
+
+export function findDuplicates(tracks: Track[]): DuplicateGroup[] {
+  const byPath = groupBy(tracks, t => (t.filePath ? normalisePath(t.filePath) : null));
+  const byMetadata = groupBy(tracks, t => {
+    const title = normaliseText(t.title);
+    return title ? `${title}\u0000${normaliseText(t.artist)}` : null;
+  }).flatMap(splitByDuration);
+  const bySize = groupBy(tracks, t => (t.fileSize ? String(t.fileSize) : null));
+
+  return [
+    ...byPath.map(group => ({ reason: 'path' as const, tracks: group })),
+    ...byMetadata.map(group => ({ reason: 'metadata' as const, tracks: group })),
+    ...bySize.map(group => ({ reason: 'size' as const, tracks: group })),
+  ];
+}
+
+// Where each track is used: playlist paths ("Gigs / Peak time") and history sessions, so
+// the copy worth keeping is the one the sets point at
+export function playlistReferences(playlists: Playlist[], history: Playlist[]): Map<number, string[]> {
+  const references = new Map<number, string[]>();
+  const walk = (items: Playlist[], prefix: string) => {
+    for (const playlist of items) {
+      const path = prefix + playlist.name;
+      for (const id of new Set(playlist.trackIds)) {
+        const list = references.get(id);
+        if (list) list.push(path);
+        else references.set(id, [path]);
+      }
+      walk(playlist.children, `${path} / `);
+    }
+  };
+  walk(playlists, '');
+  walk(history, 'History / ');
+  return references;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { parseKey, formatKey, keySortValue, keyRelation } from "./keys";
+
+describe("parseKey", () => {
+  it("reads Camelot, Open Key and musical notation", () => {
+    for (const text of ["8A", "08a", "1m", "Am", "A min", "A minor", "Amin"]) {
+      expect(parseKey(text), text).toEqual({ number: 8, minor: true });
+    }
+    for (const text of ["8B", "1d", "C", "C major", "CM"]) {
+      expect(parseKey(text), text).toEqual({ number: 8, minor: false });
+    }
+  });
+
+  it("treats enharmonic spellings as the same key", () => {
+    expect(parseKey("C#m")).toEqual(parseKey("Dbm"));
+    expect(parseKey("G♯m")).toEqual(parseKey("Abm"));
+    expect(parseKey("Gb")).toEqual({ number: 2, minor: false });
+  });
+
+  it("returns null for text that is not a key", () => {
+    for (const text of ["", "13A", "0B", "H", "Am7", "unknown"]) {
+      expect(parseKey(text), text).toBeNull();
+    }
+  });
+});
+
+describe("formatKey", () => {
+  it("converts between notations and leaves unreadable text alone", () => {
+    expect(formatKey("Am", "camelot")).toBe("8A");
+    expect(formatKey("8A", "openKey")).toBe("1m");
+    expect(formatKey("5m", "musical")).toBe("Dbm");
+    expect(formatKey("12B", "openKey")).toBe("5d");
+    expect(formatKey("E", "camelot")).toBe("12B");
+    expect(formatKey("???", "camelot")).toBe("???");
+  });
+
+  it("round-trips every key through every notation", () => {
+    for (let number = 1; number <= 12; number++) {
+      for (const minor of [true, false]) {
+        const camelot = `${number}${minor ? "A" : "B"}`;
+        expect(formatKey(formatKey(formatKey(camelot, "musical"), "openKey"), "camelot")).toBe(camelot);
+      }
+    }
+  });
+});
+
+describe("keySortValue", () => {
+  it("orders keys around the wheel with unknown keys last", () => {
+    const sorted = ["Em", "", "2d", "Abm", "8B", "B"].sort((a, b) => keySortValue(a) - keySortValue(b));
+    expect(sorted).toEqual(["Abm", "B", "8B", "Em", "2d", ""]);
+  });
+});
+
+describe("keyRelation", () => {
+  const relation = (from: string, to: string) => keyRelation(parseKey(from)!, parseKey(to)!);
+
+  it("recognises the harmonic moves", () => {
+    expect(relation("8A", "Am")).toBe("same");
+    expect(relation("8A", "9A")).toBe("adjacent");
+    expect(relation("8A", "7A")).toBe("adjacent");
+    expect(relation("12B", "1B")).toBe("adjacent");
+    expect(relation("Am", "C")).toBe("relative");
+    expect(relation("8A", "10A")).toBe("energyBoost");
+    expect(relation("11A", "1A")).toBe("energyBoost");
+  });
+
+  it("returns null for clashes", () => {
+    expect(relation("8A", "6A")).toBeNull();
+    expect(relation("8A", "9B")).toBeNull();
+    expect(relation("8A", "2A")).toBeNull();
+  });
+});
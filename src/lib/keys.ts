@@ -0,0 +1,113 @@
+// Musical keys as positions on the Camelot wheel. The key table in export.pdb holds whatever
+// notation rekordbox was set to when the stick was exported ("Am", "8A", "1m", ...), so
+// everything here starts by parsing that text into a wheel position and only formats it
+// back for display.
+
+export type KeyNotation = 'camelot' | 'openKey' | 'musical';
+
+export const KEY_NOTATION_LABELS: Record<KeyNotation, string> = {
+  camelot: 'Camelot',
+  openKey: 'Open Key',
+  musical: 'Musical',
+};
+
+// number: 1-12 around the wheel; minor: the A ring (m in Open Key)
+export interface WheelKey {
+  number: number;
+  minor: boolean;
+}
+
+const NATURAL_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Spellings as rekordbox shows them, indexed by Camelot number - 1
+const MINOR_NAMES = ['Abm', 'Ebm', 'Bbm', 'Fm', 'Cm', 'Gm', 'Dm', 'Am', 'Em', 'Bm', 'F#m', 'Dbm'];
+const MAJOR_NAMES = ['B', 'F#', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E'];
+
+// Pitch classes (C = 0) of each Camelot number's minor and major key
+const MINOR_PITCHES = MINOR_NAMES.map(name => pitchClass(name.replace(/m$/, '')));
+const MAJOR_PITCHES = MAJOR_NAMES.map(name => pitchClass(name));
+
+function pitchClass(note: string): number {
+  const base = NATURAL_PITCHES[note[0].toUpperCase()];
+  const accidentals = note.slice(1);
+  const shift = [...accidentals].reduce((sum, c) => sum + (c === '#' || c === '♯' ? 1 : c === 'b' || c === '♭' ? -1 : 0), 0);
+  return (base + shift + 12) % 12;
+}
+
+// Camelot 8A = Open Key 1m = A minor
+function camelotToOpenKey(number: number): number {
+  return ((number + 4) % 12) + 1;
+}
+
+function openKeyToCamelot(number: number): number {
+  return ((number + 6) % 12) + 1;
+}
+
+// Accepts Camelot (8A, 08a), Open Key (1m, 1d) and musical names (Am, A min, A minor, F#m,
+// Gb major, D♭). Returns null for anything else, including an empty string.
+export function parseKey(text: string): WheelKey | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const camelot = value.match(/^0?(1[0-2]|[1-9])\s*([ab])$/i);
+  if (camelot) return { number: Number(camelot[1]), minor: camelot[2].toLowerCase() === 'a' };
+
+  const openKey = value.match(/^0?(1[0-2]|[1-9])\s*([md])$/i);
+  if (openKey) return { number: openKeyToCamelot(Number(openKey[1])), minor: openKey[2].toLowerCase() === 'm' };
+
+  const musical = value.match(/^([a-g])\s*([#♯b♭]?)\s*(m|min|minor|maj|major)?$/i);
+  if (musical) {
+    const pitch = pitchClass(musical[1] + musical[2]);
+    const quality = musical[3]?.toLowerCase();
+    // A bare lowercase "m" means minor; "M" or nothing means major
+    const minor = quality !== undefined && (quality === 'min' || quality === 'minor' || musical[3] === 'm');
+    const index = (minor ? MINOR_PITCHES : MAJOR_PITCHES).indexOf(pitch);
+    return { number: index + 1, minor };
+  }
+  return null;
+}
+
+export function formatWheelKey(key: WheelKey, notation: KeyNotation): string {
+  switch (notation) {
+    case 'camelot':
+      return `${key.number}${key.minor ? 'A' : 'B'}`;
+    case 'openKey':
+      return `${camelotToOpenKey(key.number)}${key.minor ? 'm' : 'd'}`;
+    case 'musical':
+      return (key.minor ? MINOR_NAMES : MAJOR_NAMES)[key.number - 1];
+  }
+}
+
+// For display: text we can't parse is shown as stored
+export function formatKey(text: string, notation: KeyNotation): string {
+  const key = parseKey(text);
+  return key ? formatWheelKey(key, notation) : text;
+}
+
+// Harmonic order around the wheel (1A, 1B, 2A, ... 12B), whatever notation the stick uses.
+// Unreadable and missing keys sort after all of them.
+export function keySortValue(text: string): number {
+  const key = parseKey(text);
+  return key ? key.number * 2 - (key.minor ? 1 : 0) : 25;
+}
+
+// The harmonic moves a DJ makes from one key to the next, from safest to boldest
+export type KeyRelation = 'same' | 'adjacent' | 'relative' | 'energyBoost';
+
+export const KEY_RELATION_LABELS: Record<KeyRelation, string> = {
+  same: 'Perfect',
+  adjacent: 'Adjacent',
+  relative: 'Relative',
+  energyBoost: 'Energy +2',
+};
+
+// How `to` follows `from` on the wheel, or null when it doesn't (a clash). Adjacent works
+// both ways round the ring; the energy boost only goes up.
+export function keyRelation(from: WheelKey, to: WheelKey): KeyRelation | null {
+  const step = (to.number - from.number + 12) % 12;
+  if (from.minor !== to.minor) return step === 0 ? 'relative' : null;
+  if (step === 0) return 'same';
+  if (step === 1 || step === 11) return 'adjacent';
+  if (step === 2) return 'energyBoost';
+  return null;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { libraryTotals, matchesStatFilter, statBuckets } from "./library-stats";
+import { makeTrack } from "@/test/fixtures";
+import type { Track } from "@/types/rekordbox";
+
+const track = (id: number, fields: Partial<Track>): Track =>
+  makeTrack(id, { title: "", duration: 300, filePath: "/Contents/a.mp3", ...fields });
+
+const tracks: Track[] = [
+  track(1, { bpm: 122.5, key: "Am", genre: "House", label: "Lowtide", year: 2019, fileSize: 1000 }),
+  track(2, { bpm: 124, key: "8A", genre: "House", year: 2021, filePath: "/Contents/b.wav", bitrate: 1411 }),
+  track(3, { bpm: 133, key: "1m", genre: "Techno", dateAdded: new Date("2024-08-01T00:00:00Z") }),
+  track(4, { bpm: 0, key: "?", genre: " ", year: 65535, dateAdded: new Date(0), filePath: "/Contents/c.AIF" }),
+];
+
+const counts = (buckets: { id: string; count: number }[]) => Object.fromEntries(buckets.map(b => [b.id, b.count]));
+
+describe("statBuckets", () => {
+  it("bins BPMs in fives and keeps empty bins between", () => {
+    expect(statBuckets("bpm", tracks).map(b => [b.label, b.count])).toEqual([
+      ["120–124", 2],
+      ["125–129", 0],
+      ["130–134", 1],
+    ]);
+  });
+
+  it("counts keys round the wheel whatever the notation", () => {
+    const keys = statBuckets("key", tracks);
+    expect(keys).toHaveLength(24);
+    expect(keys[0].id).toBe("1A");
+    expect(counts(keys)["8A"]).toBe(3);
+  });
+
+  it("ranks names by count and groups missing values", () => {
+    expect(statBuckets("genre", tracks).map(b => [b.label, b.count])).toEqual([
+      ["House", 2],
+      ["No genre", 1],
+      ["Techno", 1],
+    ]);
+  });
+
+  it("splits lossy formats by bitrate and ignores junk years and dates", () => {
+    expect(counts(statBuckets("format", tracks))).toEqual({ "MP3 320 kbps": 2, WAV: 1, AIFF: 1 });
+    expect(statBuckets("year", tracks).map(b => b.id)).toEqual(["2019", "2020", "2021"]);
+    expect(statBuckets("added", tracks).map(b => b.id)).toEqual(["2024-05", "2024-06", "2024-07", "2024-08"]);
+  });
+});
+
+describe("matchesStatFilter", () => {
+  it("picks out the tracks a bar counted", () => {
+    const bucket = statBuckets("bpm", tracks)[0];
+    const filter = { field: "bpm" as const, id: bucket.id, label: bucket.label };
+    expect(tracks.filter(t => matchesStatFilter(t, filter)).map(t => t.id)).toEqual([1, 2]);
+    expect(tracks.filter(t => matchesStatFilter(t, { field: "genre", id: "", label: "No genre" })).map(t => t.id)).toEqual([4]);
+  });
+});
+
+describe("libraryTotals", () => {
+  it("adds up duration and size and averages the known BPMs", () => {
+    expect(libraryTotals(tracks)).toEqual({ tracks: 4, duration: 1200, fileSize: 1000, averageBpm: (122.5 + 124 + 133) / 3 });
+  });
+});
@@ -0,0 +1,140 @@
+import type { Track } from '@/types/rekordbox';
+import { formatWheelKey, parseKey } from '@/lib/keys';
+
+// Counts behind the statistics view. Every chart is a list of buckets, and each track
+// lands in at most one bucket per field, so clicking a bar can filter the track table
+// with the same function that counted it.
+
+export type StatField = 'bpm' | 'key' | 'genre' | 'label' | 'year' | 'format' | 'added';
+
+export interface StatBucket {
+  id: string;
+  label: string;
+  count: number;
+}
+
+// What the track table is narrowed to after clicking a bar
+export interface StatFilter {
+  field: StatField;
+  id: string;
+  label: string;
+}
+
+const BPM_BIN = 5;
+const LOSSY_FORMATS = ['MP3', 'M4A', 'AAC', 'MP4'];
+const NO_VALUE = '';
+// Outside these a year or date is junk (or the epoch for "unset"), and one stray value
+// would stretch a histogram over decades of empty bars
+const YEAR_RANGE = [1900, 2100];
+const FIRST_ADDED_YEAR = 2000;
+
+function fileFormat(track: Track): string | null {
+  const extension = (track.fileName || track.filePath).match(/\.([a-z0-9]+)$/i)?.[1].toUpperCase();
+  if (!extension) return null;
+  const format = extension === 'AIF' ? 'AIFF' : extension;
+  return LOSSY_FORMATS.includes(format) && track.bitrate ? `${format} ${track.bitrate} kbps` : format;
+}
+
+// The bucket a track falls in for a field; null when the track has no usable value
+export function statBucketId(field: StatField, track: Track): string | null {
+  switch (field) {
+    case 'bpm':
+      return track.bpm > 0 ? String(Math.floor(track.bpm / BPM_BIN) * BPM_BIN) : null;
+    case 'key': {
+      const key = parseKey(track.key);
+      return key ? formatWheelKey(key, 'camelot') : null;
+    }
+    case 'genre':
+      return track.genre.trim() || NO_VALUE;
+    case 'label':
+      return track.label?.trim() || NO_VALUE;
+    case 'year':
+      return track.year && track.year >= YEAR_RANGE[0] && track.year <= YEAR_RANGE[1] ? String(track.year) : null;
+    case 'format':
+      return fileFormat(track);
+    case 'added': {
+      const date = track.dateAdded;
+      const year = date?.getUTCFullYear();
+      return year && year >= FIRST_ADDED_YEAR && year <= YEAR_RANGE[1] ? date.toISOString().slice(0, 7) : null;
+    }
+  }
+}
+
+export function matchesStatFilter(track: Track, filter: StatFilter): boolean {
+  return statBucketId(filter.field, track) === filter.id;
+}
+
+function countBy(field: StatField, tracks: Track[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const track of tracks) {
+    const id = statBucketId(field, track);
+    if (id !== null) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Every step from the lowest bucket to the highest, so gaps show as empty bars
+function numericRange(counts: Map<string, number>, step: number, label: (value: number) => string): StatBucket[] {
+  const values = [...counts.keys()].map(Number);
+  if (values.length === 0) return [];
+  const buckets: StatBucket[] = [];
+  for (let value = Math.min(...values); value <= Math.max(...values); value += step) {
+    buckets.push({ id: String(value), label: label(value), count: counts.get(String(value)) ?? 0 });
+  }
+  return buckets;
+}
+
+function monthRange(counts: Map<string, number>): StatBucket[] {
+  const months = [...counts.keys()].sort();
+  if (months.length === 0) return [];
+  const buckets: StatBucket[] = [];
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    buckets.push({ id: month, label: month, count: counts.get(month) ?? 0 });
+  }
+  return buckets;
+}
+
+function nextMonth(id: string): string {
+  const [year, month] = id.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+// Buckets in display order: ranges ascending, the key wheel from 1A to 12B, and names by
+// count with the biggest first
+export function statBuckets(field: StatField, tracks: Track[]): StatBucket[] {
+  const counts = countBy(field, tracks);
+  switch (field) {
+    case 'bpm':
+      return numericRange(counts, BPM_BIN, value => `${value}–${value + BPM_BIN - 1}`);
+    case 'year':
+      return numericRange(counts, 1, String);
+    case 'added':
+      return monthRange(counts);
+    case 'key':
+      return Array.from({ length: 24 }, (_, i) => {
+        const id = formatWheelKey({ number: Math.floor(i / 2) + 1, minor: i % 2 === 0 }, 'camelot');
+        return { id, label: id, count: counts.get(id) ?? 0 };
+      });
+    default:
+      return [...counts]
+        .map(([id, count]) => ({ id, label: id || `No ${field}`, count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+}
+
+export interface LibraryTotals {
+  tracks: number;
+  duration: number; // seconds
+  fileSize: number; // bytes
+  averageBpm: number; // of the tracks that have one
+}
+
+export function libraryTotals(tracks: Track[]): LibraryTotals {
+  const withBpm = tracks.filter(t => t.bpm > 0);
+  return {
+    tracks: tracks.length,
+    duration: tracks.reduce((sum, t) => sum + (t.duration || 0), 0),
+    fileSize: tracks.reduce((sum, t) => sum + (t.fileSize || 0), 0),
+    averageBpm: withBpm.length ? withBpm.reduce((sum, t) => sum + t.bpm, 0) / withBpm.length : 0,
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { pitchToMatch, playlistTransitions, scoreTransition, suggestNextTracks, tableTransitions } from "./mixing";
+import { makeTrack } from "@/test/fixtures";
+import type { Track } from "@/types/rekordbox";
+
+const track = (id: number, bpm: number, key: string): Track => makeTrack(id, { bpm, key });
+
+describe("pitchToMatch", () => {
+  it("finds the fader setting and prefers the smallest move", () => {
+    expect(pitchToMatch(128, 128, 6)).toEqual({ pitch: 0, timing: "same" });
+    expect(pitchToMatch(126, 120, 6)!.pitch).toBeCloseTo(5);
+    expect(pitchToMatch(140, 70, 6)).toEqual({ pitch: 0, timing: "half" });
+    expect(pitchToMatch(87, 172, 6)!.timing).toBe("double");
+  });
+
+  it("returns null out of range or without a BPM", () => {
+    expect(pitchToMatch(128, 118, 6)).toBeNull();
+    expect(pitchToMatch(128, 118, 10)).not.toBeNull();
+    expect(pitchToMatch(128, 0, 16)).toBeNull();
+    expect(pitchToMatch(0, 128, 16)).toBeNull();
+  });
+});
+
+describe("suggestNextTracks", () => {
+  const from = track(1, 124, "8A");
+  const candidates = [
+    from,
+    track(2, 126, "9A"),
+    track(3, 124, "Am"),
+    track(4, 125, "8B"),
+    track(5, 124, "10A"),
+    track(6, 124, "3A"),
+    track(7, 100, "8A"),
+    track(8, 62, "7A"),
+    track(9, 124, ""),
+    track(10, 123, "8A"),
+  ];
+
+  it("lists compatible tracks, best moves and smallest pitch first", () => {
+    const suggestions = suggestNextTracks(from, candidates, 6);
+    expect(suggestions.map(s => [s.track.id, s.relation])).toEqual([
+      [3, "same"],
+      [10, "same"],
+      [8, "adjacent"],
+      [2, "adjacent"],
+      [4, "relative"],
+      [5, "energyBoost"],
+    ]);
+    expect(suggestions.find(s => s.track.id === 8)!.timing).toBe("half");
+  });
+
+  it("widens with the pitch range", () => {
+    expect(suggestNextTracks(from, candidates, 6).some(s => s.track.id === 7)).toBe(false);
+    expect(suggestNextTracks(from, candidates, 16).some(s => s.track.id === 7)).toBe(false);
+    expect(suggestNextTracks(track(1, 115, "8A"), candidates, 16).some(s => s.track.id === 7)).toBe(true);
+  });
+
+  it("has nothing to suggest for a track without a readable key", () => {
+    expect(suggestNextTracks(track(1, 124, "?"), candidates, 16)).toEqual([]);
+  });
+});
+
+describe("scoreTransition", () => {
+  it("rates smooth mixes good and clashes poor", () => {
+    expect(scoreTransition(track(1, 124, "8A"), track(2, 124, "Am"))).toMatchObject({ score: 100, rating: "good", relation: "same" });
+    expect(scoreTransition(track(1, 124, "8A"), track(2, 126, "9A")).rating).toBe("good");
+    expect(scoreTransition(track(1, 124, "8A"), track(2, 124, "3B"))).toMatchObject({ relation: null, keysKnown: true, rating: "fair" });
+    expect(scoreTransition(track(1, 124, "8A"), track(2, 130, "3B")).rating).toBe("poor");
+  });
+
+  it("measures the tempo jump, allowing half and double time", () => {
+    expect(scoreTransition(track(1, 120, "8A"), track(2, 126, "8A")).bpm!.percent).toBeCloseTo(5);
+    expect(scoreTransition(track(1, 172, "8A"), track(2, 87, "8A")).bpm!.timing).toBe("half");
+    expect(scoreTransition(track(1, 0, "8A"), track(2, 87, "")).bpm).toBeNull();
+    expect(scoreTransition(track(1, 0, "8A"), track(2, 87, "")).keysKnown).toBe(false);
+  });
+});
+
+describe("playlistTransitions", () => {
+  it("scores each track into the next one in playlist order", () => {
+    const tracks = [track(1, 124, "8A"), track(2, 124, "9A"), track(3, 130, "3B")];
+    const transitions = playlistTransitions([2, 1, 3, 1], tracks);
+    expect(transitions.get(2)!.relation).toBe("adjacent");
+    // Track 1 appears twice; its first transition (into 3) wins
+    expect(transitions.get(1)!.rating).toBe("poor");
+    expect(transitions.get(3)!.relation).toBeNull();
+  });
+
+  it("skips tracks missing from the library and has nothing after the last track", () => {
+    const transitions = playlistTransitions([1, 99, 2], [track(1, 124, "8A"), track(2, 124, "8A")]);
+    expect(transitions.size).toBe(0);
+  });
+});
+
+describe("tableTransitions", () => {
+  const tracks = [track(1, 124, "8A"), track(2, 124, "9A"), track(3, 126, "9A")];
+
+  it("scores transitions while the table follows the playlist front to back", () => {
+    const transitions = tableTransitions([1, 2, 3], tracks, { sortColumn: "position", sortDirection: "asc", filtered: false });
+    expect(transitions?.get(1)!.relation).toBe("adjacent");
+    expect(transitions?.get(2)!.relation).toBe("same");
+  });
+
+  it("has none when sorted descending, by another column or with rows filtered out", () => {
+    expect(tableTransitions([1, 2, 3], tracks, { sortColumn: "position", sortDirection: "desc", filtered: false })).toBeUndefined();
+    expect(tableTransitions([1, 2, 3], tracks, { sortColumn: "bpm", sortDirection: "asc", filtered: false })).toBeUndefined();
+    expect(tableTransitions([1, 2, 3], tracks, { sortColumn: "position", sortDirection: "asc", filtered: true })).toBeUndefined();
+  });
+
+  it("has none when a track is listed twice, since the table shows it only once", () => {
+    // Rows read 1, 2, 3, but 2 goes back into 1 in the playlist
+    expect(tableTransitions([1, 2, 1, 3], tracks, { sortColumn: "position", sortDirection: "asc", filtered: false })).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import type { SortColumn, SortDirection, Track } from '@/types/rekordbox';
+import { KEY_RELATION_LABELS, keyRelation, parseKey, type KeyRelation } from '@/lib/keys';
+
+// "What can I play next": tracks whose key sits well after the current one and whose BPM
+// the pitch fader can reach. Keys are compared as stored, i.e. assuming Master Tempo is on
+// so pitching doesn't move them.
+
+// The CDJ tempo ranges (WIDE is ±100% and would match everything)
+export const PITCH_RANGES = [6, 10, 16] as const;
+export type PitchRange = (typeof PITCH_RANGES)[number];
+
+// A candidate at roughly half or double the tempo can be mixed against the other half of
+// the beat, so it's matched at twice or half its BPM
+export type Timing = 'same' | 'half' | 'double';
+
+const TIMING_FACTORS: Record<Timing, number> = { same: 1, half: 2, double: 0.5 };
+
+export interface MixSuggestion {
+  track: Track;
+  relation: KeyRelation;
+  timing: Timing;
+  // Pitch fader setting (percent) that brings the candidate to the current track's BPM
+  pitch: number;
+}
+
+const RELATION_ORDER: KeyRelation[] = ['same', 'adjacent', 'relative', 'energyBoost'];
+
+// Fader percentage needed to play `to` at `from`'s BPM, trying straight, half and double
+// time and keeping the smallest move. Null when none fits in the range or a BPM is missing.
+export function pitchToMatch(from: number, to: number, range: number): { pitch: number; timing: Timing } | null {
+  if (!(from > 0) || !(to > 0)) return null;
+  let best: { pitch: number; timing: Timing } | null = null;
+  for (const timing of Object.keys(TIMING_FACTORS) as Timing[]) {
+    const pitch = (from / (to * TIMING_FACTORS[timing]) - 1) * 100;
+    if (Math.abs(pitch) <= range && (!best || Math.abs(pitch) < Math.abs(best.pitch))) {
+      best = { pitch, timing };
+    }
+  }
+  return best;
+}
+
+// Best moves first (same key, then ±1, relative, energy boost), then the smallest pitch
+// change within each
+export function suggestNextTracks(from: Track, candidates: Track[], range: PitchRange): MixSuggestion[] {
+  const fromKey = parseKey(from.key);
+  if (!fromKey) return [];
+
+  const suggestions: MixSuggestion[] = [];
+  for (const track of candidates) {
+    if (track.id === from.id) continue;
+    const key = parseKey(track.key);
+    const relation = key && keyRelation(fromKey, key);
+    if (!relation) continue;
+    const match = pitchToMatch(from.bpm, track.bpm, range);
+    if (match) suggestions.push({ track, relation, ...match });
+  }
+
+  return suggestions.sort(
+    (a, b) =>
+      RELATION_ORDER.indexOf(a.relation) - RELATION_ORDER.indexOf(b.relation) ||
+      Math.abs(a.pitch) - Math.abs(b.pitch)
+  );
+}
+
+// Tempo jump from one track to the next as a percentage of the outgoing BPM, mixing at
+// half or double time where that is the smaller jump. Null when either BPM is missing.
+export function bpmChange(from: number, to: number): { percent: number; timing: Timing } | null {
+  if (!(from > 0) || !(to > 0)) return null;
+  let best: { percent: number; timing: Timing } | null = null;
+  for (const timing of Object.keys(TIMING_FACTORS) as Timing[]) {
+    const percent = ((to * TIMING_FACTORS[timing]) / from - 1) * 100;
+    if (!best || Math.abs(percent) < Math.abs(best.percent)) best = { percent, timing };
+  }
+  return best;
+}
+
+export type TransitionRating = 'good' | 'fair' | 'poor';
+
+export interface Transition {
+  bpm: { percent: number; timing: Timing } | null;
+  // Null for a clash, or when either key is missing (see keysKnown)
+  relation: KeyRelation | null;
+  keysKnown: boolean;
+  // 100 is a same-key mix at the same tempo
+  score: number;
+  rating: TransitionRating;
+}
+
+const KEY_PENALTIES: Record<KeyRelation, number> = { same: 0, adjacent: 10, relative: 15, energyBoost: 20 };
+const CLASH_PENALTY = 45;
+const UNKNOWN_PENALTY = 20;
+// Per percent of tempo change, capped so a big jump in key still beats a clash in tempo
+const BPM_PENALTY_PER_PERCENT = 6;
+const MAX_BPM_PENALTY = 55;
+
+export function scoreTransition(from: Track, to: Track): Transition {
+  const fromKey = parseKey(from.key);
+  const toKey = parseKey(to.key);
+  const keysKnown = !!fromKey && !!toKey;
+  const relation = fromKey && toKey ? keyRelation(fromKey, toKey) : null;
+  const bpm = bpmChange(from.bpm, to.bpm);
+
+  const keyPenalty = !keysKnown ? UNKNOWN_PENALTY : relation ? KEY_PENALTIES[relation] : CLASH_PENALTY;
+  const bpmPenalty = bpm ? Math.min(MAX_BPM_PENALTY, Math.abs(bpm.percent) * BPM_PENALTY_PER_PERCENT) : UNKNOWN_PENALTY;
+  const score = Math.max(0, Math.round(100 - keyPenalty - bpmPenalty));
+  const rating: TransitionRating = score >= 70 ? 'good' : score >= 40 ? 'fair' : 'poor';
+  return { bpm, relation, keysKnown, score, rating };
+}
+
+export function formatBpmChange(transition: Transition): string {
+  if (!transition.bpm) return '? BPM';
+  const { percent, timing } = transition.bpm;
+  const rounded = Math.round(percent * 10) / 10;
+  const sign = rounded > 0 ? '+' : rounded < 0 ? '−' : '±';
+  return `${sign}${Math.abs(rounded).toFixed(1)}%${timing === 'half' ? ' ½×' : timing === 'double' ? ' 2×' : ''}`;
+}
+
+export function formatKeyChange(transition: Transition): string {
+  if (!transition.keysKnown) return 'Key unknown';
+  return transition.relation ? KEY_RELATION_LABELS[transition.relation] : 'Clash';
+}
+
+// The transition out of each track into the one after it in a playlist, keyed by track ID.
+// A track listed twice keeps the transition from its first appearance.
+export function playlistTransitions(trackIds: number[], tracks: Track[]): Map<number, Transition> {
+  const byId = new Map(tracks.map(t => [t.id, t]));
+  const transitions = new Map<number, Transition>();
+  for (let i = 0; i + 1 < trackIds.length; i++) {
+    const from = byId.get(trackIds[i]);
+    const to = byId.get(trackIds[i + 1]);
+    if (from && to && !transitions.has(from.id)) transitions.set(from.id, scoreTransition(from, to));
+  }
+  return transitions;
+}
+
+// What the track table is showing: its sort, and whether any search or filter hides rows
+export interface TableOrder {
+  sortColumn: SortColumn;
+  sortDirection: SortDirection;
+  filtered: boolean;
+}
+
+// Transitions for the track table, or undefined unless it lists the playlist front to back.
+// Sorted the other way or with rows hidden, the row below a track is not the one it goes into.
+// Neither is it when a track is listed twice: the table shows it once, at its first position.
+export function tableTransitions(trackIds: number[], tracks: Track[], order: TableOrder): Map<number, Transition> | undefined {
+  if (order.sortColumn !== 'position' || order.sortDirection !== 'asc' || order.filtered) return undefined;
+  if (new Set(trackIds).size !== trackIds.length) return undefined;
+  return playlistTransitions(trackIds, tracks);
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { parseInWorker, type ParseWorkerResponse } from "./parse-in-worker";
+import { buildPdb } from "./pdb/builder";
+import type { ParseProgress, RekordboxDatabase } from "@/types/rekordbox";
+
+// jsdom's File has no arrayBuffer(), which the parser reads through
+const exportPdb = () => {
+  const bytes = buildPdb({ tracks: [{ id: 1, title: "Opening", bpm: 124 }] });
+  return Object.assign(new File([bytes], "export.pdb"), { arrayBuffer: async () => bytes.buffer });
+};
+
+// Stands in for the browser's Worker: records what it is sent, and the test plays the parser
+class FakeWorker {
+  static last: FakeWorker;
+  onmessage: ((event: MessageEvent<ParseWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: unknown[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+  postMessage(message: unknown) {
+    this.posted.push(message);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+  reply(message: ParseWorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<ParseWorkerResponse>);
+  }
+}
+
+describe("parseInWorker without workers", () => {
+  it("parses on the main thread and reports progress", async () => {
+    const progress: ParseProgress[] = [];
+    const database = await parseInWorker(exportPdb(), null, p => progress.push(p)).promise;
+
+    expect(database.tracks.map(t => t.title)).toEqual(["Opening"]);
+    expect(progress.length).toBeGreaterThan(0);
+  });
+
+  it("rejects with an AbortError once cancelled", async () => {
+    const job = parseInWorker(exportPdb(), null);
+    job.cancel();
+    await expect(job.promise).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("parseInWorker with a worker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends the files, forwards progress and resolves with the database", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const file = exportPdb();
+    const progress: ParseProgress[] = [];
+    const job = parseInWorker(file, null, p => progress.push(p));
+    const worker = FakeWorker.last;
+
+    expect(worker.posted).toEqual([{ file, extFile: null }]);
+    worker.reply({ type: "progress", progress: { stage: "parsing", fraction: 0.5 } });
+    const database = { tracks: [] } as unknown as RekordboxDatabase;
+    worker.reply({ type: "done", database });
+
+    await expect(job.promise).resolves.toBe(database);
+    expect(progress).toEqual([{ stage: "parsing", fraction: 0.5 }]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it("rejects with the parser's error", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const job = parseInWorker(exportPdb(), null);
+    FakeWorker.last.reply({ type: "error", message: "Not a PDB file" });
+
+    await expect(job.promise).rejects.toThrow("Not a PDB file");
+    expect(FakeWorker.last.terminated).toBe(true);
+  });
+
+  it("stops the worker and rejects with an AbortError when cancelled", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const job = parseInWorker(exportPdb(), null);
+    job.cancel();
+
+    await expect(job.promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(FakeWorker.last.terminated).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { parseRekordboxLibraryFromFiles, type ParseProgressCallback } from '@/lib/rekordbox-parser';
+import type { RekordboxDatabase, ParseProgress } from '@/types/rekordbox';
+
+export interface ParseWorkerRequest {
+  file: File;
+  extFile: File | null;
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; database: RekordboxDatabase }
+  | { type: 'error'; message: string };
+
+export interface ParseJob {
+  promise: Promise<RekordboxDatabase>;
+  cancel: () => void;
+}
+
+function cancelledError(): Error {
+  const error = new Error('Loading was cancelled.');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Parses export.pdb (and exportExt.pdb) off the main thread so large libraries don't freeze the UI.
+// Falls back to the main thread where workers aren't available (tests, very old browsers).
+export function parseInWorker(file: File, extFile: File | null, onProgress?: ParseProgressCallback): ParseJob {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = parseRekordboxLibraryFromFiles(file, extFile, (progress) => {
+      if (!cancelled) onProgress?.(progress);
+    }).then((database) => {
+      if (cancelled) throw cancelledError();
+      return database;
+    });
+    return {
+      promise,
+      cancel: () => {
+        cancelled = true;
+      },
+    };
+  }
+
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (error: Error) => void = () => {};
+
+  const promise = new Promise<RekordboxDatabase>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.database);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The parser stopped unexpectedly.'));
+    };
+
+    worker.postMessage({ file, extFile } satisfies ParseWorkerRequest);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(cancelledError());
+    },
+  };
+}
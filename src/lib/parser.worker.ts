@@ -0,0 +1,29 @@
+import { parseRekordboxLibraryFromFiles } from './rekordbox-parser';
+import type { ParseProgress } from '@/types/rekordbox';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parse-in-worker';
+
+const ctx = self as unknown as Worker;
+
+// Progress arrives once per page; a few thousand messages a second is pointless for a progress bar
+const PROGRESS_INTERVAL_MS = 50;
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file, extFile } = event.data;
+  let lastPost = 0;
+  let lastStage: ParseProgress['stage'] | undefined;
+
+  const post = (message: ParseWorkerResponse) => ctx.postMessage(message);
+
+  try {
+    const database = await parseRekordboxLibraryFromFiles(file, extFile, (progress) => {
+      const now = Date.now();
+      if (progress.stage === lastStage && progress.fraction < 1 && now - lastPost < PROGRESS_INTERVAL_MS) return;
+      lastPost = now;
+      lastStage = progress.stage;
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'done', database });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,430 @@
+import { encodeDeviceSqlString } from './devicesql';
+import { encodePage, packRows } from './structure';
+import { encodeTreeRow, encodeEntryRow } from './playlists';
+import {
+  PAGE_TYPE_TRACKS,
+  PAGE_TYPE_GENRES,
+  PAGE_TYPE_ARTISTS,
+  PAGE_TYPE_ALBUMS,
+  PAGE_TYPE_LABELS,
+  PAGE_TYPE_KEYS,
+  PAGE_TYPE_COLORS,
+  PAGE_TYPE_PLAYLIST_TREE,
+  PAGE_TYPE_PLAYLIST_ENTRIES,
+  PAGE_TYPE_HISTORY_PLAYLISTS,
+  PAGE_TYPE_HISTORY_ENTRIES,
+  PAGE_TYPE_ARTWORK,
+  EXT_PAGE_TYPE_TAGS,
+  EXT_PAGE_TYPE_TAG_TRACKS,
+  TRACK_COLORS
+} from './rows';
+
+// Builds a complete export.pdb from a plain description of tracks and playlists, for tests
+// and the demo library. Names (artists, albums, genres, ...) are turned into lookup rows
+// with IDs in order of first appearance; strings go through encodeDeviceSqlString, so long
+// ASCII and UTF-16LE come out wherever the text calls for them. The layout follows what
+// rekordbox writes: every table opens with an empty head page and the tables follow each
+// other in type order.
+
+export interface SyntheticTrack {
+  id: number;
+  title: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  label?: string;
+  key?: string;
+  composer?: string;
+  originalArtist?: string;
+  remixer?: string;
+  bpm?: number;
+  duration?: number; // seconds
+  year?: number;
+  rating?: number; // 0-5
+  bitrate?: number;
+  colorId?: number;
+  trackNumber?: number;
+  discNumber?: number;
+  playCount?: number;
+  sampleRate?: number;
+  sampleDepth?: number;
+  fileSize?: number;
+  filePath?: string; // defaults to /Contents/<artist>/<title>.mp3
+  dateAdded?: string; // YYYY-MM-DD
+  releaseDate?: string;
+  comment?: string;
+  mixName?: string;
+  isrc?: string;
+  lyricist?: string;
+  message?: string;
+  artworkPath?: string;
+  analyzePath?: string;
+}
+
+// A folder when it has children (or isFolder is set), a playlist otherwise
+export interface SyntheticPlaylist {
+  name: string;
+  trackIds?: number[];
+  children?: SyntheticPlaylist[];
+  isFolder?: boolean;
+}
+
+export interface SyntheticHistory {
+  name: string; // e.g. "HISTORY 2024-05-03"
+  trackIds: number[];
+}
+
+// A MyTag category and its tags, for exportExt.pdb
+export interface SyntheticTagCategory {
+  name: string;
+  tags: { name: string; trackIds: number[] }[];
+}
+
+export interface SyntheticLibrary {
+  tracks: SyntheticTrack[];
+  playlists?: SyntheticPlaylist[];
+  history?: SyntheticHistory[];
+  myTags?: SyntheticTagCategory[];
+  colors?: { id: number; name: string }[]; // rows of the colors table; the hardware names by default
+}
+
+export interface BuildPdbOptions {
+  pageSize?: number; // defaults to 4096, like rekordbox
+  maxRowsPerPage?: number; // forces long page chains out of small libraries
+  strangePages?: boolean; // put a non-data page (flags 0x44) after each table's head page
+  trailingBytes?: number; // extra bytes past the last page, so the file is not page-aligned
+}
+
+// rekordbox writes 20 tables; the ones we have no rows for just get their head page
+const TABLE_COUNT = 20;
+
+const HEAD_PAGE_FLAGS = 0x64;
+const DATA_PAGE_FLAGS = 0x24;
+const STRANGE_PAGE_FLAGS = 0x44; // has the non-data bit (0x40) set
+
+// Indexes into a track row's 21 string offsets (see parseTrackRow)
+const TRACK_STRINGS = {
+  isrc: 0,
+  lyricist: 1,
+  message: 5,
+  kuvoPublic: 6,
+  autoloadHotcues: 7,
+  dateAdded: 10,
+  releaseDate: 11,
+  mixName: 12,
+  analyzePath: 14,
+  analyzeDate: 15,
+  comment: 16,
+  title: 17,
+  fileName: 19,
+  filePath: 20
+} as const;
+const TRACK_ROW_HEADER = 0x5e + 21 * 2;
+
+// Hands out IDs in order of first appearance; empty names get 0 ("none")
+class NameTable {
+  readonly ids = new Map<string, number>();
+
+  id(name: string | undefined): number {
+    if (!name) return 0;
+    if (!this.ids.has(name)) this.ids.set(name, this.ids.size + 1);
+    return this.ids.get(name)!;
+  }
+}
+
+function row(size: number, fill: (view: DataView) => void, strings: [number, string][] = []): Uint8Array {
+  const encoded = strings.map(([offset, value]) => [offset, encodeDeviceSqlString(value)] as const);
+  const end = encoded.reduce((max, [offset, bytes]) => Math.max(max, offset + bytes.length), size);
+  const bytes = new Uint8Array(end);
+  fill(new DataView(bytes.buffer));
+  encoded.forEach(([offset, value]) => bytes.set(value, offset));
+  return bytes;
+}
+
+// id (u32), name
+function idNameRow(id: number, name: string): Uint8Array {
+  return row(4, view => view.setUint32(0, id, true), [[4, name]]);
+}
+
+function artistRow(id: number, name: string, index: number): Uint8Array {
+  return row(10, view => {
+    view.setUint16(0, 0x60, true);
+    view.setUint16(2, index * 0x20, true);
+    view.setUint32(4, id, true);
+    view.setUint8(8, 0x03);
+    view.setUint8(9, 10);
+  }, [[10, name]]);
+}
+
+function albumRow(id: number, name: string, artistId: number, index: number): Uint8Array {
+  return row(0x16, view => {
+    view.setUint16(0, 0x80, true);
+    view.setUint16(2, index * 0x20, true);
+    view.setUint32(8, artistId, true);
+    view.setUint32(0x0c, id, true);
+    view.setUint8(0x14, 0x03);
+    view.setUint8(0x15, 0x16);
+  }, [[0x16, name]]);
+}
+
+function keyRow(id: number, name: string): Uint8Array {
+  return row(8, view => {
+    view.setUint32(0, id, true);
+    view.setUint32(4, id, true);
+  }, [[8, name]]);
+}
+
+function colorRow(id: number, name: string): Uint8Array {
+  return row(8, view => view.setUint16(5, id, true), [[8, name]]);
+}
+
+// Near name offset (subtype without 0x04); both near offsets point at the name
+function tagRow(id: number, name: string, categoryId: number, position: number, index: number): Uint8Array {
+  return row(0x20, view => {
+    view.setUint16(0, 0x0680, true);
+    view.setUint16(2, index * 0x20, true);
+    view.setUint32(0x0c, categoryId, true);
+    view.setUint32(0x10, position, true);
+    view.setUint32(0x14, id, true);
+    view.setUint32(0x18, categoryId === 0 ? 1 : 0, true);
+    view.setUint8(0x1c, 0x03);
+    view.setUint8(0x1d, 0x20);
+    view.setUint8(0x1e, 0x20);
+  }, [[0x20, name]]);
+}
+
+function tagTrackRow(trackId: number, tagId: number): Uint8Array {
+  return row(16, view => {
+    view.setUint32(4, trackId, true);
+    view.setUint32(8, tagId, true);
+  });
+}
+
+function historyEntryRow(trackId: number, playlistId: number, entryIndex: number): Uint8Array {
+  return row(12, view => {
+    view.setUint32(0, trackId, true);
+    view.setUint32(4, playlistId, true);
+    view.setUint32(8, entryIndex, true);
+  });
+}
+
+interface TrackIds {
+  artist: number;
+  album: number;
+  genre: number;
+  label: number;
+  key: number;
+  composer: number;
+  originalArtist: number;
+  remixer: number;
+  artwork: number;
+}
+
+function trackRow(track: SyntheticTrack, ids: TrackIds, index: number): Uint8Array {
+  const artist = track.artist ?? '';
+  const filePath = track.filePath ?? `/Contents/${artist || 'Unknown Artist'}/${track.title}.mp3`;
+  const values: Record<keyof typeof TRACK_STRINGS, string> = {
+    isrc: track.isrc ?? '',
+    lyricist: track.lyricist ?? '',
+    message: track.message ?? '',
+    kuvoPublic: 'ON',
+    autoloadHotcues: 'ON',
+    dateAdded: track.dateAdded ?? '',
+    releaseDate: track.releaseDate ?? '',
+    mixName: track.mixName ?? '',
+    analyzePath: track.analyzePath ?? '',
+    analyzeDate: track.analyzePath ? track.dateAdded ?? '' : '',
+    comment: track.comment ?? '',
+    title: track.title,
+    fileName: filePath.slice(filePath.lastIndexOf('/') + 1),
+    filePath
+  };
+
+  // Every one of the 21 slots points at a string; the unused ones at an empty one
+  const slots = new Array<string>(21).fill('');
+  (Object.keys(TRACK_STRINGS) as (keyof typeof TRACK_STRINGS)[]).forEach(name => {
+    slots[TRACK_STRINGS[name]] = values[name];
+  });
+  const strings: [number, string][] = [];
+  let offset = TRACK_ROW_HEADER;
+  for (const value of slots) {
+    strings.push([offset, value]);
+    offset += encodeDeviceSqlString(value).length;
+  }
+
+  return row(TRACK_ROW_HEADER, view => {
+    view.setUint16(0, 0x24, true);
+    view.setUint16(2, index * 0x20, true);
+    view.setUint32(0x04, 0x000c0700, true);
+    view.setUint32(0x08, track.sampleRate ?? 44100, true);
+    view.setUint32(0x0c, ids.composer, true);
+    view.setUint32(0x10, track.fileSize ?? 0, true);
+    view.setUint32(0x1c, ids.artwork, true);
+    view.setUint32(0x20, ids.key, true);
+    view.setUint32(0x24, ids.originalArtist, true);
+    view.setUint32(0x28, ids.label, true);
+    view.setUint32(0x2c, ids.remixer, true);
+    view.setUint32(0x30, track.bitrate ?? 320, true);
+    view.setUint32(0x34, track.trackNumber ?? 0, true);
+    view.setUint32(0x38, Math.round((track.bpm ?? 0) * 100), true);
+    view.setUint32(0x3c, ids.genre, true);
+    view.setUint32(0x40, ids.album, true);
+    view.setUint32(0x44, ids.artist, true);
+    view.setUint32(0x48, track.id, true);
+    view.setUint16(0x4c, track.discNumber ?? 0, true);
+    view.setUint16(0x4e, track.playCount ?? 0, true);
+    view.setUint16(0x50, track.year ?? 0, true);
+    view.setUint16(0x52, track.sampleDepth ?? 16, true);
+    view.setUint16(0x54, track.duration ?? 0, true);
+    view.setUint16(0x56, 0x29, true);
+    view.setUint8(0x58, track.colorId ?? 0);
+    view.setUint8(0x59, track.rating ?? 0);
+    view.setUint16(0x5a, 1, true);
+    view.setUint16(0x5c, 3, true);
+    strings.forEach(([value], i) => view.setUint16(0x5e + i * 2, value, true));
+  }, strings);
+}
+
+function buildTableRows(library: SyntheticLibrary): Map<number, Uint8Array[]> {
+  const artists = new NameTable();
+  const albums = new NameTable();
+  const genres = new NameTable();
+  const labels = new NameTable();
+  const keys = new NameTable();
+  const artwork = new NameTable();
+  const albumArtists = new Map<number, number>();
+
+  const tracks = library.tracks.map((track, index) => {
+    const ids: TrackIds = {
+      artist: artists.id(track.artist),
+      album: albums.id(track.album),
+      genre: genres.id(track.genre),
+      label: labels.id(track.label),
+      key: keys.id(track.key),
+      composer: artists.id(track.composer),
+      originalArtist: artists.id(track.originalArtist),
+      remixer: artists.id(track.remixer),
+      artwork: artwork.id(track.artworkPath)
+    };
+    if (ids.album && !albumArtists.has(ids.album)) albumArtists.set(ids.album, ids.artist);
+    return trackRow(track, ids, index);
+  });
+
+  // Playlists get IDs depth-first, each folder's children numbered from 0
+  const tree: Uint8Array[] = [];
+  const entries: Uint8Array[] = [];
+  let nextPlaylistId = 1;
+  let nextEntryIndex = 1;
+  const addPlaylists = (playlists: SyntheticPlaylist[], parentId: number) => {
+    playlists.forEach((playlist, sortOrder) => {
+      const id = nextPlaylistId++;
+      const isFolder = playlist.isFolder ?? playlist.children !== undefined;
+      tree.push(encodeTreeRow({ id, parentId, sortOrder, isFolder, name: playlist.name, unknown: 0 }));
+      (playlist.trackIds ?? []).forEach(trackId => {
+        entries.push(encodeEntryRow({ entryIndex: nextEntryIndex++, trackId, playlistId: id }));
+      });
+      if (playlist.children) addPlaylists(playlist.children, id);
+    });
+  };
+  addPlaylists(library.playlists ?? [], 0);
+
+  const history = library.history ?? [];
+  const historyEntries = history.flatMap((session, i) =>
+    session.trackIds.map((trackId, position) => historyEntryRow(trackId, i + 1, position + 1))
+  );
+
+  const named = (table: NameTable) => [...table.ids].map(([name, id]) => idNameRow(id, name));
+  return new Map([
+    [PAGE_TYPE_TRACKS, tracks],
+    [PAGE_TYPE_GENRES, named(genres)],
+    [PAGE_TYPE_ARTISTS, [...artists.ids].map(([name, id], i) => artistRow(id, name, i))],
+    [PAGE_TYPE_ALBUMS, [...albums.ids].map(([name, id], i) => albumRow(id, name, albumArtists.get(id) ?? 0, i))],
+    [PAGE_TYPE_LABELS, named(labels)],
+    [PAGE_TYPE_KEYS, [...keys.ids].map(([name, id]) => keyRow(id, name))],
+    [PAGE_TYPE_COLORS, (library.colors ?? TRACK_COLORS).map(color => colorRow(color.id, color.name))],
+    [PAGE_TYPE_PLAYLIST_TREE, tree],
+    [PAGE_TYPE_PLAYLIST_ENTRIES, entries],
+    [PAGE_TYPE_HISTORY_PLAYLISTS, history.map((session, i) => idNameRow(i + 1, session.name))],
+    [PAGE_TYPE_HISTORY_ENTRIES, historyEntries],
+    [PAGE_TYPE_ARTWORK, named(artwork)]
+  ]);
+}
+
+export function buildPdb(library: SyntheticLibrary, options: BuildPdbOptions = {}): Uint8Array<ArrayBuffer> {
+  return layoutPdb(buildTableRows(library), options);
+}
+
+// exportExt.pdb: the tracks (with their genres, which is all the merge reads from them)
+// and the MyTag tables. Categories and tags share one ID sequence, categories first.
+export function buildExportExtPdb(library: SyntheticLibrary, options: BuildPdbOptions = {}): Uint8Array<ArrayBuffer> {
+  const base = buildTableRows(library);
+  const categories = library.myTags ?? [];
+  const tags: Uint8Array[] = [];
+  const tagTracks: Uint8Array[] = [];
+  let nextId = categories.length + 1;
+  categories.forEach((category, position) => {
+    const categoryId = position + 1;
+    tags.push(tagRow(categoryId, category.name, 0, position, tags.length));
+    category.tags.forEach((tag, tagPosition) => {
+      const id = nextId++;
+      tags.push(tagRow(id, tag.name, categoryId, tagPosition, tags.length));
+      tag.trackIds.forEach(trackId => tagTracks.push(tagTrackRow(trackId, id)));
+    });
+  });
+
+  return layoutPdb(new Map([
+    [PAGE_TYPE_TRACKS, base.get(PAGE_TYPE_TRACKS)!],
+    [PAGE_TYPE_GENRES, base.get(PAGE_TYPE_GENRES)!],
+    [EXT_PAGE_TYPE_TAGS, tags],
+    [EXT_PAGE_TYPE_TAG_TRACKS, tagTracks]
+  ]), options);
+}
+
+function layoutPdb(rowsByTable: Map<number, Uint8Array[]>, options: BuildPdbOptions): Uint8Array<ArrayBuffer> {
+  const lenPage = options.pageSize ?? 4096;
+  const sequence = 1;
+
+  // Lay out every table's chain first: head page, optional strange page, data pages
+  const layouts: { type: number; pages: { rows: Uint8Array[]; flags: number }[] }[] = [];
+  for (let type = 0; type < TABLE_COUNT; type++) {
+    const rows = rowsByTable.get(type) ?? [];
+    const pages = [{ rows: [] as Uint8Array[], flags: HEAD_PAGE_FLAGS }];
+    if (options.strangePages) {
+      // Rows on a non-data page must never be read; give it some to prove that
+      pages.push({ rows: rows.slice(0, 1), flags: STRANGE_PAGE_FLAGS });
+    }
+    if (rows.length > 0) {
+      packRows(rows, lenPage, options.maxRowsPerPage).forEach(pageRows => pages.push({ rows: pageRows, flags: DATA_PAGE_FLAGS }));
+    }
+    layouts.push({ type, pages });
+  }
+
+  const pageCount = 1 + layouts.reduce((sum, layout) => sum + layout.pages.length, 0);
+  const image = new Uint8Array(pageCount * lenPage + (options.trailingBytes ?? 0));
+  const view = new DataView(image.buffer);
+
+  // File header: lenPage, table count, next_unused_page, sequence, then the table pointers
+  view.setUint32(4, lenPage, true);
+  view.setUint32(8, TABLE_COUNT, true);
+  view.setUint32(0x0c, pageCount, true);
+  view.setUint32(0x10, 5, true);
+  view.setUint32(0x14, sequence, true);
+
+  let pageIndex = 1;
+  layouts.forEach(({ type, pages }, i) => {
+    const first = pageIndex;
+    pages.forEach(({ rows, flags }, n) => {
+      // The last page points past the end of the file, at where the table would grow next
+      const nextPage = n + 1 < pages.length ? pageIndex + 1 : pageCount;
+      image.set(encodePage(rows, lenPage, { index: pageIndex, type, nextPage, sequence, flags }), pageIndex * lenPage);
+      pageIndex++;
+    });
+    const pointer = 0x1c + i * 16;
+    view.setUint32(pointer, type, true);
+    view.setUint32(pointer + 4, pageCount, true); // empty_candidate
+    view.setUint32(pointer + 8, first, true);
+    view.setUint32(pointer + 12, pageIndex - 1, true);
+  });
+
+  return image;
+}
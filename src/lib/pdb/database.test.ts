@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { buildExportExtPdb, buildPdb, type SyntheticLibrary } from "./builder";
+import { buildHistoryTree, mergeExportExtPdb, parseExportExtPdb, parsePdb } from "./database";
+
+const library: SyntheticLibrary = {
+  tracks: [
+    { id: 1, title: "Opening", artist: "Aria", album: "Night One", genre: "House", key: "8A", bpm: 122.5, duration: 401, year: 2021, rating: 4, colorId: 2, label: "Deep Cuts", dateAdded: "2024-05-03" },
+    { id: 2, title: "Second Wind", artist: "Aria", remixer: "Bo", album: "Night One", genre: "House", key: "9A", bpm: 124, duration: 375, mixName: "Bo Remix",
+      composer: "Cy Writer", originalArtist: "Old Aria", lyricist: "Lee", isrc: "GBABC2400001", trackNumber: 2, discNumber: 1 },
+    { id: 3, title: "Ténèbres", artist: "Chloé", genre: "Techno", key: "5A", bpm: 130, duration: 452, comment: "UTF-16 on the stick" },
+    { id: 4, title: "x".repeat(200), artist: "Dee", bpm: 0, filePath: `/Contents/${"long/".repeat(30)}track.wav` }
+  ],
+  playlists: [
+    { name: "Gigs", children: [{ name: "Warm-up", trackIds: [1, 2] }, { name: "Peak", trackIds: [3, 1] }] },
+    { name: "Empty folder", isFolder: true },
+    { name: "Loose", trackIds: [4] }
+  ],
+  history: [{ name: "HISTORY 2024-05-03", trackIds: [2, 3] }]
+};
+
+function names(playlists: { name: string; children: { name: string }[] }[]): unknown[] {
+  return playlists.map(p => (p.children.length > 0 ? [p.name, p.children.map(c => c.name)] : p.name));
+}
+
+describe("parsePdb on synthetic libraries", () => {
+  it("reads back tracks, lookups, playlists and history", () => {
+    const db = parsePdb(buildPdb(library));
+
+    expect(db.diagnostics.entries).toEqual([]);
+    expect(db.tracks.map(t => t.id).sort()).toEqual([1, 2, 3, 4]);
+    const opening = db.tracks.find(t => t.id === 1)!;
+    expect(opening).toMatchObject({
+      title: "Opening",
+      artist: "Aria",
+      album: "Night One",
+      genre: "House",
+      key: "8A",
+      bpm: 122.5,
+      duration: 401,
+      year: 2021,
+      rating: 4,
+      color: "Red",
+      label: "Deep Cuts",
+      fileName: "Opening.mp3",
+      filePath: "/Contents/Aria/Opening.mp3"
+    });
+    expect(opening.dateAdded.toISOString().slice(0, 10)).toBe("2024-05-03");
+    expect(db.tracks.find(t => t.id === 2)).toMatchObject({
+      remixer: "Bo",
+      mixName: "Bo Remix",
+      composer: "Cy Writer",
+      originalArtist: "Old Aria",
+      lyricist: "Lee",
+      isrc: "GBABC2400001",
+      trackNumber: 2,
+      discNumber: 1
+    });
+    expect(db.tracks.find(t => t.id === 3)!.comment).toBe("UTF-16 on the stick");
+    // Credits left empty stay empty rather than borrowing the track's artist
+    expect(opening).toMatchObject({ composer: "", originalArtist: "", remixer: "", isrc: "" });
+
+    expect(names(db.playlists)).toEqual([["Gigs", ["Warm-up", "Peak"]], "Empty folder", "Loose"]);
+    expect(db.playlists[0].children[1].trackIds).toEqual([3, 1]);
+    expect(db.playlists[1].isFolder).toBe(true);
+    expect(db.history[0].children[0]).toMatchObject({ name: "HISTORY 2024-05-03", trackIds: [2, 3] });
+  });
+
+  it("decodes UTF-16LE and long ASCII strings", () => {
+    const db = parsePdb(buildPdb(library));
+    expect(db.tracks.find(t => t.id === 3)).toMatchObject({ title: "Ténèbres", artist: "Chloé" });
+    const long = db.tracks.find(t => t.id === 4)!;
+    expect(long.title).toBe("x".repeat(200));
+    expect(long.filePath).toHaveLength(5 * 30 + "/Contents/track.wav".length);
+  });
+
+  it("follows multi-page chains and skips strange pages", () => {
+    const expected = parsePdb(buildPdb(library));
+    const chained = buildPdb(library, { pageSize: 1024, maxRowsPerPage: 1, strangePages: true });
+    const db = parsePdb(chained);
+
+    expect(chained.length / 1024).toBeGreaterThan(40);
+    expect(db.diagnostics.entries).toEqual([]);
+    expect(db.tracks).toEqual(expected.tracks.map(t => ({ ...t, dateAdded: expect.any(Date) })));
+    expect(db.playlists).toEqual(expected.playlists);
+    expect(db.history).toEqual(expected.history);
+  });
+
+  it("reads files that are not page-aligned, and reports tables cut off by truncation", () => {
+    expect(parsePdb(buildPdb(library, { trailingBytes: 100 })).diagnostics.entries).toEqual([]);
+
+    // The last tables (history, artwork, ...) lose their pages; tracks come first and survive
+    const full = buildPdb(library, { pageSize: 1024, maxRowsPerPage: 1 });
+    const db = parsePdb(full.slice(0, full.length - 1024 * 8 - 100));
+    expect(db.diagnostics.entries.some(d => d.kind === "bad-table")).toBe(true);
+    expect(db.tracks).toHaveLength(4);
+  });
+});
+
+describe("colors", () => {
+  it("names colors from the table and falls back to the hardware names", () => {
+    const db = parsePdb(buildPdb({
+      tracks: [
+        { id: 1, title: "Tagged", colorId: 2 },
+        { id: 2, title: "Fallback", colorId: 6 },
+        { id: 3, title: "Plain" }
+      ],
+      // A renamed red, and no row for aqua
+      colors: [{ id: 1, name: "Pink" }, { id: 2, name: "Closer" }]
+    }));
+
+    expect(db.diagnostics.entries).toEqual([]);
+    expect(db.colors).toHaveLength(8);
+    expect(db.colors[1]).toEqual({ id: 2, name: "Closer" });
+    expect(db.colors[5]).toEqual({ id: 6, name: "Aqua" });
+    expect(db.tracks.map(t => [t.colorId, t.color])).toEqual([[2, "Closer"], [6, "Aqua"], [0, ""]]);
+  });
+});
+
+describe("exportExt.pdb", () => {
+  const ext: SyntheticLibrary = {
+    tracks: [
+      { id: 1, title: "Opening", genre: "House", bpm: 122.5 },
+      { id: 4, title: "x", genre: "Breaks", bpm: 128 }
+    ],
+    myTags: [
+      { name: "Genre", tags: [{ name: "Deep", trackIds: [1, 2] }, { name: "Dub", trackIds: [3] }] },
+      { name: "Situation", tags: [{ name: "Warm-up", trackIds: [1] }] }
+    ]
+  };
+
+  it("reads tag categories in order and each track's tags", () => {
+    const data = parseExportExtPdb(buildExportExtPdb(ext));
+
+    expect(data.diagnostics.entries).toEqual([]);
+    expect(data.tagCategories.map(c => [c.name, c.tags.map(t => t.name)])).toEqual([
+      ["Genre", ["Deep", "Dub"]],
+      ["Situation", ["Warm-up"]]
+    ]);
+    const [deep, dub] = data.tagCategories[0].tags;
+    const [warmUp] = data.tagCategories[1].tags;
+    expect(deep.categoryId).toBe(data.tagCategories[0].id);
+    expect(data.trackTags.get(1)).toEqual([deep.id, warmUp.id]);
+    expect(data.trackTags.get(3)).toEqual([dub.id]);
+    expect(data.tracks.find(t => t.id === 4)).toMatchObject({ bpm: 128, genre: "Breaks" });
+  });
+
+  it("fills BPM and genre gaps and attaches MyTags when merged", () => {
+    const db = mergeExportExtPdb(parsePdb(buildPdb(library)), buildExportExtPdb(ext));
+
+    expect(db.diagnostics.entries).toEqual([]);
+    expect(db.tracks.find(t => t.id === 4)).toMatchObject({ bpm: 128, genre: "Breaks" });
+    // export.pdb's own values win
+    expect(db.tracks.find(t => t.id === 1)).toMatchObject({ bpm: 122.5, genre: "House", myTags: ["Deep", "Warm-up"] });
+    expect(db.tracks.find(t => t.id === 3)!.myTags).toEqual(["Dub"]);
+    expect(db.tracks.find(t => t.id === 4)!.myTags).toBeUndefined();
+    expect(db.myTagCategories).toHaveLength(2);
+  });
+});
+
+describe("buildHistoryTree", () => {
+  const entries = (...trackIds: number[]) => trackIds.map((trackId, i) => ({ trackId, position: i + 1 }));
+
+  it("groups dated sessions into year folders, newest first", () => {
+    const tree = buildHistoryTree(
+      new Map([[1, "HISTORY 2023-12-31"], [2, "HISTORY 2024-05-03"], [3, "HISTORY 2024/01/20"], [4, "HISTORY 001"]]),
+      new Map([[2, [{ trackId: 7, position: 2 }, { trackId: 5, position: 1 }]]])
+    );
+
+    expect(tree.map(p => [p.id, p.name, p.isFolder])).toEqual([[-2024, "2024", true], [-2023, "2023", true], [4, "HISTORY 001", false]]);
+    expect(tree[0].children.map(s => s.name)).toEqual(["HISTORY 2024-05-03", "HISTORY 2024/01/20"]);
+    expect(tree[0].children[0]).toMatchObject({ parentId: -2024, isHistory: true, trackIds: [5, 7] });
+    expect(tree[0].children[0].date).toEqual(new Date(2024, 4, 3));
+    expect(tree[1].children.map(s => s.id)).toEqual([1]);
+    // Undated sessions sit at the top level with no date
+    expect(tree[2]).toMatchObject({ parentId: null, date: undefined, trackIds: [] });
+  });
+
+  it("lists undated sessions flat, most recently recorded first", () => {
+    const tree = buildHistoryTree(new Map([[1, "HISTORY 001"], [3, "HISTORY 003"], [2, "HISTORY 002"]]), new Map([[3, entries(9)]]));
+
+    expect(tree.map(s => s.name)).toEqual(["HISTORY 003", "HISTORY 002", "HISTORY 001"]);
+    expect(tree.every(s => !s.isFolder && s.parentId === null)).toBe(true);
+    expect(tree[0].trackIds).toEqual([9]);
+  });
+
+  it("returns nothing without history", () => {
+    expect(buildHistoryTree(new Map(), new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,361 @@
+import type { Track, Playlist, RekordboxDatabase, TrackColor, MyTag, MyTagCategory, ParseProgress, ParseDiagnostics } from '../../types/rekordbox';
+import { createDiagnosticsCollector, mergeDiagnostics } from './diagnostics';
+import { readPdbHeader, parseTablePages, countTablePages, type TableInfo } from './structure';
+import {
+  PAGE_TYPE_TRACKS,
+  PAGE_TYPE_GENRES,
+  PAGE_TYPE_ARTISTS,
+  PAGE_TYPE_ALBUMS,
+  PAGE_TYPE_LABELS,
+  PAGE_TYPE_KEYS,
+  PAGE_TYPE_COLORS,
+  PAGE_TYPE_PLAYLIST_TREE,
+  PAGE_TYPE_PLAYLIST_ENTRIES,
+  PAGE_TYPE_HISTORY_PLAYLISTS,
+  PAGE_TYPE_HISTORY_ENTRIES,
+  PAGE_TYPE_ARTWORK,
+  TABLE_NAMES,
+  EXT_PAGE_TYPE_TAGS,
+  EXT_PAGE_TYPE_TAG_TRACKS,
+  EXT_TABLE_NAMES,
+  TRACK_COLORS,
+  parseSimpleRow,
+  parsePlaylistTreeRow,
+  parsePlaylistEntryRow,
+  parseHistoryPlaylistRow,
+  parseHistoryEntryRow,
+  parseTagRow,
+  parseTagTrackRow,
+  parseTrackRow
+} from './rows';
+
+export interface ParsePdbOptions {
+  fileName?: string; // shown in diagnostics
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export function parsePdb(buffer: ArrayBuffer | Uint8Array, options: ParsePdbOptions = {}): RekordboxDatabase {
+  const { onProgress } = options;
+  const diag = createDiagnosticsCollector(options.fileName ?? 'export.pdb', TABLE_NAMES);
+  const { dataView, bufferLength, lenPage, tables } = readPdbHeader(buffer, diag);
+
+  // Progress is reported per page across every table we read. Chains are counted up front
+  // (a cheap walk of next_page pointers) so the bar moves evenly instead of per table.
+  const parsedTables = tables.filter(t => t.type in TABLE_NAMES);
+  const pageCounts = new Map<TableInfo, number>();
+  if (onProgress) {
+    parsedTables.forEach(t => pageCounts.set(t, countTablePages(dataView, t, lenPage, bufferLength)));
+  }
+  const totalPages = Array.from(pageCounts.values()).reduce((sum, n) => sum + n, 0);
+  let pagesDone = 0;
+
+  const walk = (table: TableInfo, rowCallback: (rowBase: number, pageType: number) => void) => {
+    let page = 0;
+    const pageCount = pageCounts.get(table) ?? 0;
+    parseTablePages(dataView, table, lenPage, bufferLength, diag, rowCallback, onProgress && (() => {
+      page++;
+      pagesDone++;
+      onProgress({
+        stage: 'parsing',
+        table: TABLE_NAMES[table.type],
+        page: Math.min(page, pageCount),
+        pageCount,
+        fraction: totalPages > 0 ? Math.min(pagesDone / totalPages, 1) : 1
+      });
+    }));
+  };
+
+  // Lookup tables
+  const artists: Map<number, string> = new Map();
+  const albums: Map<number, string> = new Map();
+  const genres: Map<number, string> = new Map();
+  const keys: Map<number, string> = new Map();
+  const labels: Map<number, string> = new Map();
+  const colors: Map<number, string> = new Map();
+  const artwork: Map<number, string> = new Map();
+  const playlistTree: Map<number, { name: string; parentId: number; isFolder: boolean; sortOrder: number }> = new Map();
+  const playlistEntries: Map<number, { trackId: number; position: number }[]> = new Map();
+  const historyPlaylists: Map<number, string> = new Map();
+  const historyEntries: Map<number, { trackId: number; position: number }[]> = new Map();
+  const trackData: Map<number, Track> = new Map();
+
+  // First pass: parse lookup tables (artists, albums, genres, keys, labels, colors, artwork)
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_ARTISTS || table.type === PAGE_TYPE_ALBUMS || 
+        table.type === PAGE_TYPE_GENRES || table.type === PAGE_TYPE_KEYS || 
+        table.type === PAGE_TYPE_LABELS || table.type === PAGE_TYPE_COLORS ||
+        table.type === PAGE_TYPE_ARTWORK) {
+      walk(table, (rowBase: number, pageType: number) => {
+        parseSimpleRow(dataView, rowBase, pageType, bufferLength, artists, albums, genres, keys, labels, colors, artwork, diag);
+      });
+    }
+  }
+
+  // Second pass: parse playlist tree
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_PLAYLIST_TREE) {
+      walk(table, (rowBase: number) => {
+        parsePlaylistTreeRow(dataView, rowBase, bufferLength, playlistTree, diag);
+      });
+    }
+  }
+
+  // Third pass: parse playlist entries  
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_PLAYLIST_ENTRIES) {
+      walk(table, (rowBase: number) => {
+        parsePlaylistEntryRow(dataView, rowBase, bufferLength, playlistEntries, diag);
+      });
+    }
+  }
+
+  // History sessions the players recorded (same shape as playlists, separate tables)
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_HISTORY_PLAYLISTS) {
+      walk(table, (rowBase: number) => {
+        parseHistoryPlaylistRow(dataView, rowBase, bufferLength, historyPlaylists, diag);
+      });
+    } else if (table.type === PAGE_TYPE_HISTORY_ENTRIES) {
+      walk(table, (rowBase: number) => {
+        parseHistoryEntryRow(dataView, rowBase, bufferLength, historyEntries, diag);
+      });
+    }
+  }
+
+  // Fourth pass: parse tracks
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_TRACKS) {
+      walk(table, (rowBase: number) => {
+        parseTrackRow(dataView, rowBase, bufferLength, artists, albums, genres, keys, labels, colors, artwork, trackData, diag);
+      });
+    }
+  }
+
+  // Convert track map to array
+  const tracks = Array.from(trackData.values());
+
+  // Build playlist hierarchy
+  const playlistMap = new Map<number, Playlist>();
+  
+  playlistTree.forEach((value, id) => {
+    const entries = playlistEntries.get(id) || [];
+    const sortedEntries = entries.sort((a, b) => a.position - b.position);
+    
+    const playlist: Playlist = {
+      id,
+      name: value.name,
+      parentId: value.parentId === 0 ? null : value.parentId,
+      isFolder: value.isFolder,
+      children: [],
+      trackIds: sortedEntries.map(e => e.trackId)
+    };
+    playlistMap.set(id, playlist);
+  });
+
+  // Link children to parents, in the folder's own sort order
+  playlistMap.forEach(playlist => {
+    if (playlist.parentId !== null) {
+      const parent = playlistMap.get(playlist.parentId);
+      if (parent) {
+        parent.children.push(playlist);
+      }
+    }
+  });
+  const bySortOrder = (a: Playlist, b: Playlist) =>
+    (playlistTree.get(a.id)?.sortOrder ?? 0) - (playlistTree.get(b.id)?.sortOrder ?? 0);
+  playlistMap.forEach(playlist => playlist.children.sort(bySortOrder));
+
+  // Get root playlists (no parent) and sort by original order
+  const rootPlaylists = Array.from(playlistMap.values())
+    .filter(p => p.parentId === null)
+    .sort(bySortOrder);
+
+  // Fill in any hardware colors the table didn't name
+  const colorList: TrackColor[] = TRACK_COLORS.map(c => ({ id: c.id, name: colors.get(c.id) || c.name }));
+
+  return {
+    tracks,
+    playlists: rootPlaylists,
+    history: buildHistoryTree(historyPlaylists, historyEntries),
+    colors: colorList,
+    myTagCategories: [],
+    diagnostics: diag.result()
+  };
+}
+
+export interface ExportExtData {
+  // Tracks as exportExt.pdb lists them, matched to export.pdb by ID. Only BPM and genre
+  // are resolved; the other lookup tables' types are taken by the tag tables here.
+  tracks: Track[];
+  tagCategories: MyTagCategory[];
+  trackTags: Map<number, number[]>;
+  diagnostics: ParseDiagnostics;
+}
+
+export function parseExportExtPdb(buffer: ArrayBuffer | Uint8Array, options: ParsePdbOptions = {}): ExportExtData {
+  const diag = createDiagnosticsCollector(options.fileName ?? 'exportExt.pdb', EXT_TABLE_NAMES);
+  const { dataView, bufferLength, lenPage, tables } = readPdbHeader(buffer, diag);
+
+  const genres: Map<number, string> = new Map();
+  const trackData: Map<number, Track> = new Map();
+  const tagRows: Map<number, { name: string; categoryId: number; position: number; isCategory: boolean }> = new Map();
+  const trackTags: Map<number, number[]> = new Map();
+
+  // Genres first, so the tracks can resolve them. The other lookups stay empty.
+  const none = new Map<number, string>();
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_GENRES) {
+      parseTablePages(dataView, table, lenPage, bufferLength, diag, (rowBase: number, pageType: number) => {
+        parseSimpleRow(dataView, rowBase, pageType, bufferLength, none, none, genres, none, none, none, none, diag);
+      });
+    }
+  }
+
+  for (const table of tables) {
+    if (table.type === PAGE_TYPE_TRACKS) {
+      parseTablePages(dataView, table, lenPage, bufferLength, diag, (rowBase: number) => {
+        parseTrackRow(dataView, rowBase, bufferLength, none, none, genres, none, none, none, none, trackData, diag);
+      });
+    } else if (table.type === EXT_PAGE_TYPE_TAGS) {
+      parseTablePages(dataView, table, lenPage, bufferLength, diag, (rowBase: number) => {
+        parseTagRow(dataView, rowBase, bufferLength, tagRows, diag);
+      });
+    } else if (table.type === EXT_PAGE_TYPE_TAG_TRACKS) {
+      parseTablePages(dataView, table, lenPage, bufferLength, diag, (rowBase: number) => {
+        parseTagTrackRow(dataView, rowBase, bufferLength, trackTags, diag);
+      });
+    }
+  }
+
+  const categories: (MyTagCategory & { position: number })[] = [];
+  tagRows.forEach((row, id) => {
+    if (row.isCategory) categories.push({ id, name: row.name, tags: [], position: row.position });
+  });
+  categories.sort((a, b) => a.position - b.position);
+
+  const byCategory = new Map(categories.map(c => [c.id, c] as const));
+  const tagPositions = new Map<number, number>();
+  tagRows.forEach((row, id) => {
+    if (row.isCategory) return;
+    const category = byCategory.get(row.categoryId);
+    if (!category) return;
+    category.tags.push({ id, name: row.name, categoryId: row.categoryId });
+    tagPositions.set(id, row.position);
+  });
+  categories.forEach(c => c.tags.sort((a, b) => (tagPositions.get(a.id) ?? 0) - (tagPositions.get(b.id) ?? 0)));
+
+  return {
+    tracks: Array.from(trackData.values()),
+    tagCategories: categories.map(({ id, name, tags }) => ({ id, name, tags })),
+    trackTags,
+    diagnostics: diag.result()
+  };
+}
+
+// exportExt.pdb fills in fields missing from export.pdb (BPM/genre) and carries the MyTag tables
+export function mergeExportExtPdb(
+  baseDb: RekordboxDatabase,
+  extBuffer: ArrayBuffer | Uint8Array,
+  options: ParsePdbOptions = {}
+): RekordboxDatabase {
+  options.onProgress?.({ stage: 'merging', fraction: 1 });
+  const extData = parseExportExtPdb(extBuffer, { fileName: options.fileName });
+  const extById = new Map(extData.tracks.map((t) => [t.id, t] as const));
+
+  const mergedDb = {
+    ...baseDb,
+    tracks: baseDb.tracks.map((t) => {
+      const ext = extById.get(t.id);
+      if (!ext) return t;
+      return {
+        ...t,
+        bpm: t.bpm > 0 ? t.bpm : ext.bpm,
+        genre: t.genre ? t.genre : ext.genre,
+      };
+    }),
+  };
+
+  return applyExportExt(mergedDb, extData);
+}
+
+// Attach MyTag assignments from exportExt.pdb to the tracks of export.pdb (matched by track ID)
+export function applyExportExt(database: RekordboxDatabase, ext: ExportExtData): RekordboxDatabase {
+  const tagsById = new Map<number, MyTag>();
+  ext.tagCategories.forEach(c => c.tags.forEach(t => tagsById.set(t.id, t)));
+
+  return {
+    ...database,
+    myTagCategories: ext.tagCategories,
+    diagnostics: mergeDiagnostics(database.diagnostics, ext.diagnostics),
+    tracks: database.tracks.map(t => {
+      const tagIds = (ext.trackTags.get(t.id) || []).filter(id => tagsById.has(id));
+      if (tagIds.length === 0) return t;
+      return {
+        ...t,
+        myTagIds: tagIds,
+        myTags: tagIds.map(id => tagsById.get(id)!.name)
+      };
+    })
+  };
+}
+
+// History names are usually "HISTORY 2024-05-03" (rekordbox) or "HISTORY 001" (players without a clock).
+function parseHistoryDate(name: string): Date | undefined {
+  const match = name.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function buildHistoryTree(
+  historyPlaylists: Map<number, string>,
+  historyEntries: Map<number, { trackId: number; position: number }[]>
+): Playlist[] {
+  const sessions: Playlist[] = Array.from(historyPlaylists.entries()).map(([id, name]) => {
+    const entries = (historyEntries.get(id) || []).sort((a, b) => a.position - b.position);
+    return {
+      id,
+      name,
+      parentId: null,
+      isFolder: false,
+      children: [],
+      trackIds: entries.map(e => e.trackId),
+      isHistory: true,
+      date: parseHistoryDate(name)
+    };
+  });
+
+  // Newest first; undated sessions fall back to ID order, which follows recording order
+  sessions.sort((a, b) => {
+    if (a.date && b.date) return b.date.getTime() - a.date.getTime();
+    if (a.date) return -1;
+    if (b.date) return 1;
+    return b.id - a.id;
+  });
+
+  const dated = sessions.filter(s => s.date);
+  if (dated.length === 0) return sessions;
+
+  // Group dated sessions into one folder per year. Folder IDs are negative so they can
+  // never collide with a real history playlist ID.
+  const years = new Map<number, Playlist>();
+  for (const session of dated) {
+    const year = session.date!.getFullYear();
+    if (!years.has(year)) {
+      years.set(year, {
+        id: -year,
+        name: String(year),
+        parentId: null,
+        isFolder: true,
+        children: [],
+        trackIds: [],
+        isHistory: true
+      });
+    }
+    const folder = years.get(year)!;
+    session.parentId = folder.id;
+    folder.children.push(session);
+  }
+
+  return [...years.values(), ...sessions.filter(s => !s.date)];
+}
@@ -0,0 +1,121 @@
+import type { DiagnosticsCollector } from './diagnostics';
+
+// DeviceSQL strings: a kind byte, then either the length folded into that byte (short ASCII)
+// or a u16 length (long ASCII, UTF-16LE). Offsets are relative to the DataView, which may
+// start partway into a larger buffer.
+export function readDeviceSqlString(dataView: DataView, offset: number, bufferLength: number, diag?: DiagnosticsCollector): string {
+  // Security: Validate offset bounds
+  if (offset >= bufferLength || offset < 0) {
+    diag?.add('bad-string', offset, `offset ${offset} out of bounds (buffer length: ${bufferLength})`);
+    return '';
+  }
+  
+  try {
+    // Security: Check minimum space for header byte
+    if (offset + 1 > bufferLength) {
+      diag?.add('bad-string', offset, `insufficient space for header at offset ${offset}`);
+      return '';
+    }
+    
+    const lengthAndKind = dataView.getUint8(offset);
+    
+    if (lengthAndKind === 0x40) {
+      // Long ASCII: 2-byte length follows, then 1 byte padding, then string
+      if (offset + 4 >= bufferLength) {
+        diag?.add('bad-string', offset, `insufficient space for long ASCII at offset ${offset}`);
+        return '';
+      }
+      const length = dataView.getUint16(offset + 1, true);
+      
+      // Security: Validate length is reasonable and within bounds
+      if (length < 4 || length > 65535) {
+        diag?.add('bad-string', offset, `invalid long ASCII length ${length} at offset ${offset}`);
+        return '';
+      }
+      if (offset + 4 + (length - 4) > bufferLength) {
+        diag?.add('bad-string', offset, `long ASCII string extends beyond buffer at offset ${offset}`);
+        return '';
+      }
+      
+      const textBytes = new Uint8Array(dataView.buffer, dataView.byteOffset + offset + 4, length - 4);
+      return new TextDecoder('ascii').decode(textBytes);
+    } else if (lengthAndKind === 0x90) {
+      // UTF-16LE: 2-byte length follows, then 1 byte padding, then string
+      if (offset + 4 >= bufferLength) {
+        diag?.add('bad-string', offset, `insufficient space for UTF-16LE at offset ${offset}`);
+        return '';
+      }
+      const length = dataView.getUint16(offset + 1, true);
+      
+      // Security: Validate length is reasonable and within bounds
+      if (length < 4 || length > 65535) {
+        diag?.add('bad-string', offset, `invalid UTF-16LE length ${length} at offset ${offset}`);
+        return '';
+      }
+      if (offset + 4 + (length - 4) > bufferLength) {
+        diag?.add('bad-string', offset, `UTF-16LE string extends beyond buffer at offset ${offset}`);
+        return '';
+      }
+      
+      const textBytes = new Uint8Array(dataView.buffer, dataView.byteOffset + offset + 4, length - 4);
+      return new TextDecoder('utf-16le').decode(textBytes);
+    } else if (lengthAndKind % 2 === 1) {
+      // Short ASCII: length encoded in the byte
+      const length = lengthAndKind >> 1;
+      
+      // Security: Validate length is reasonable and within bounds
+      if (length < 1 || length > 127) {
+        diag?.add('bad-string', offset, `invalid short ASCII length ${length} at offset ${offset}`);
+        return '';
+      }
+      if (offset + 1 + (length - 1) > bufferLength) {
+        diag?.add('bad-string', offset, `short ASCII string extends beyond buffer at offset ${offset}`);
+        return '';
+      }
+      
+      const textBytes = new Uint8Array(dataView.buffer, dataView.byteOffset + offset + 1, length - 1);
+      return new TextDecoder('ascii').decode(textBytes);
+    }
+    return '';
+  } catch (error) {
+    diag?.add('bad-string', offset, `Error reading DeviceSQL string: ${error}`);
+    return '';
+  }
+}
+
+// The inverse of readDeviceSqlString. Short ASCII when the string fits (up to 126 bytes),
+// long ASCII past that, UTF-16LE as soon as anything is outside 7-bit ASCII.
+export function encodeDeviceSqlString(value: string): Uint8Array {
+  const isAscii = /^[\x20-\x7e]*$/.test(value);
+
+  if (isAscii && value.length <= 126) {
+    const bytes = new Uint8Array(value.length + 1);
+    bytes[0] = ((value.length + 1) << 1) | 1;
+    for (let i = 0; i < value.length; i++) bytes[i + 1] = value.charCodeAt(i);
+    return bytes;
+  }
+
+  const unitSize = isAscii ? 1 : 2;
+  const length = value.length * unitSize + 4;
+  if (length > 0xffff) throw new Error(`String too long for DeviceSQL (${value.length} characters)`);
+
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = isAscii ? 0x40 : 0x90;
+  view.setUint16(1, length, true);
+  for (let i = 0; i < value.length; i++) {
+    if (isAscii) bytes[i + 4] = value.charCodeAt(i);
+    else view.setUint16(i * 2 + 4, value.charCodeAt(i), true);
+  }
+  return bytes;
+}
+
+// Bytes a stored string occupies, header included (0 when the kind byte is not one we know)
+export function deviceSqlStringSize(dataView: DataView, offset: number): number {
+  if (offset + 1 > dataView.byteLength) return 0;
+  const lengthAndKind = dataView.getUint8(offset);
+  if (lengthAndKind === 0x40 || lengthAndKind === 0x90) {
+    return offset + 3 <= dataView.byteLength ? dataView.getUint16(offset + 1, true) : 0;
+  }
+  return lengthAndKind % 2 === 1 ? lengthAndKind >> 1 : 0;
+}
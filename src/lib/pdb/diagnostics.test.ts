@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { buildPdb } from "./builder";
+import { parsePdb } from "./database";
+import { countDiagnostics, createDiagnosticsCollector, headerProblem, mergeDiagnostics, withUnreadableFile } from "./diagnostics";
+import { TABLE_NAMES } from "./rows";
+
+describe("createDiagnosticsCollector", () => {
+  it("records where the parser was for each entry", () => {
+    const diag = createDiagnosticsCollector("export.pdb", TABLE_NAMES);
+    diag.add("bad-header", null, "before any table");
+    diag.tableType = 0;
+    diag.page = 7;
+    diag.add("invalid-id", 0x7010, "invalid track ID 0");
+    diag.tableType = 42;
+    diag.add("skipped-row", 0x7020, "unknown table");
+
+    expect(diag.result().entries).toEqual([
+      { kind: "bad-header", file: "export.pdb", tableType: null, table: null, page: null, offset: null, message: "before any table" },
+      { kind: "invalid-id", file: "export.pdb", tableType: 0, table: "tracks", page: 7, offset: 0x7010, message: "invalid track ID 0" },
+      { kind: "skipped-row", file: "export.pdb", tableType: 42, table: "type 42", page: 7, offset: 0x7020, message: "unknown table" },
+    ]);
+  });
+
+  it("keeps the first 1000 entries and counts the rest", () => {
+    const diag = createDiagnosticsCollector("export.pdb", TABLE_NAMES);
+    for (let i = 0; i < 1500; i++) diag.add("skipped-row", i, `row ${i}`);
+    const result = diag.result();
+
+    expect(result.entries).toHaveLength(1000);
+    expect(result.entries[999].message).toBe("row 999");
+    expect(result.dropped).toBe(500);
+    expect(countDiagnostics(result)).toBe(1500);
+  });
+});
+
+describe("mergeDiagnostics", () => {
+  it("applies the same cap across files and adds up what was dropped", () => {
+    const a = createDiagnosticsCollector("export.pdb", TABLE_NAMES);
+    const b = createDiagnosticsCollector("exportExt.pdb", {});
+    for (let i = 0; i < 1002; i++) a.add("skipped-row", i, "a");
+    for (let i = 0; i < 10; i++) b.add("skipped-row", i, "b");
+    const merged = mergeDiagnostics(a.result(), b.result());
+
+    expect(merged.entries).toHaveLength(1000);
+    expect(merged.entries.every(e => e.file === "export.pdb")).toBe(true);
+    expect(merged.dropped).toBe(2 + 10);
+  });
+
+  it("adds a whole unreadable file as one entry", () => {
+    const merged = withUnreadableFile({ entries: [], dropped: 0 }, "exportExt.pdb", new Error("Permission denied"));
+    expect(merged.entries).toEqual([
+      { kind: "unreadable-file", file: "exportExt.pdb", tableType: null, table: null, page: null, offset: null, message: "Permission denied" },
+    ]);
+    expect(headerProblem(merged)).toBeNull();
+  });
+});
+
+describe("diagnostics from a real parse", () => {
+  it("points at the table, page and byte offset of a bad row", () => {
+    // Track ID 0 is invalid; tracks are the first table, so its rows sit on page 2
+    const bytes = buildPdb({ tracks: [{ id: 1, title: "Good" }, { id: 0, title: "Bad" }] });
+    const { entries } = parsePdb(bytes).diagnostics;
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ kind: "invalid-id", file: "export.pdb", tableType: 0, table: "tracks", page: 2 });
+    expect(entries[0].offset).toBeGreaterThan(2 * 4096);
+    expect(entries[0].offset).toBeLessThan(3 * 4096);
+  });
+
+  it("reports a file that is not a PDB as a header problem", () => {
+    const db = parsePdb(new Uint8Array(16));
+    expect(headerProblem(db.diagnostics)?.kind).toBe("bad-header");
+  });
+});
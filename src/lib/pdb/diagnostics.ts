@@ -0,0 +1,82 @@
+import type { ParseDiagnostic, ParseDiagnosticKind, ParseDiagnostics } from '../../types/rekordbox';
+
+// A corrupt stick can fail on every row; past this we only count
+const MAX_DIAGNOSTICS = 1000;
+
+// Collects what the parser skipped while it walks a file. The parser moves the
+// table/page cursor as it goes so row-level code only has to supply an offset.
+export interface DiagnosticsCollector {
+  tableType: number | null;
+  page: number | null;
+  add(kind: ParseDiagnosticKind, offset: number | null, message: string): void;
+  result(): ParseDiagnostics;
+}
+
+export function createDiagnosticsCollector(file: string, tableNames: Record<number, string>): DiagnosticsCollector {
+  const entries: ParseDiagnostic[] = [];
+  let dropped = 0;
+
+  const collector: DiagnosticsCollector = {
+    tableType: null,
+    page: null,
+    add(kind, offset, message) {
+      if (entries.length >= MAX_DIAGNOSTICS) {
+        dropped++;
+        return;
+      }
+      const tableType = collector.tableType;
+      entries.push({
+        kind,
+        file,
+        tableType,
+        table: tableType === null ? null : tableNames[tableType] ?? `type ${tableType}`,
+        page: collector.page,
+        offset,
+        message
+      });
+    },
+    result() {
+      return { entries: [...entries], dropped };
+    }
+  };
+  return collector;
+}
+
+export function emptyDiagnostics(): ParseDiagnostics {
+  return { entries: [], dropped: 0 };
+}
+
+export function mergeDiagnostics(...parts: ParseDiagnostics[]): ParseDiagnostics {
+  const entries = parts.flatMap(p => p.entries);
+  const kept = entries.slice(0, MAX_DIAGNOSTICS);
+  return {
+    entries: kept,
+    dropped: parts.reduce((sum, p) => sum + p.dropped, 0) + (entries.length - kept.length)
+  };
+}
+
+export function countDiagnostics(diagnostics: ParseDiagnostics): number {
+  return diagnostics.entries.length + diagnostics.dropped;
+}
+
+// The parser reports a file it can't read at all as a 'bad-header' entry rather than
+// throwing; callers that need a usable library check for it
+export function headerProblem(diagnostics: ParseDiagnostics): ParseDiagnostic | null {
+  return diagnostics.entries.find(entry => entry.kind === 'bad-header') ?? null;
+}
+
+// For a whole file that could not be read, e.g. an optional exportExt.pdb
+export function withUnreadableFile(diagnostics: ParseDiagnostics, file: string, error: unknown): ParseDiagnostics {
+  return mergeDiagnostics(diagnostics, {
+    entries: [{
+      kind: 'unreadable-file',
+      file,
+      tableType: null,
+      table: null,
+      page: null,
+      offset: null,
+      message: error instanceof Error ? error.message : String(error)
+    }],
+    dropped: 0
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { tracksToCsv } from "./dump";
+import type { Track } from "../../types/rekordbox";
+
+const track: Track = {
+  id: 42,
+  title: 'Hello, "World"',
+  artist: "Artist",
+  album: "Album",
+  genre: "Techno",
+  duration: 300,
+  bpm: 128,
+  key: "8A",
+  label: "",
+  year: 2024,
+  rating: 0,
+  bitrate: 320,
+  filePath: "/Contents/line\nbreak.mp3",
+  dateAdded: new Date("2024-05-03T00:00:00Z"),
+  myTags: ["Peak", "Vocal"],
+};
+
+describe("tracksToCsv", () => {
+  it("writes a header and one CRLF-terminated row per track", () => {
+    const lines = tracksToCsv([track, { ...track, id: 43, title: "Plain", filePath: "/a.mp3" }]).split("\r\n");
+    expect(lines[0].startsWith("id,title,artist,")).toBe(true);
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe("");
+  });
+
+  it("quotes fields containing commas, quotes or newlines", () => {
+    const row = tracksToCsv([track]).split("\r\n").slice(1).join("\r\n");
+    expect(row).toContain('"Hello, ""World"""');
+    expect(row).toContain('"/Contents/line\nbreak.mp3"');
+    expect(row).toContain(",Peak; Vocal,2024-05-03,");
+  });
+
+  it("leaves unset numbers empty rather than zero", () => {
+    const row = tracksToCsv([{ ...track, bpm: 0, year: 0 }]).split("\r\n")[1];
+    expect(row).toContain(",Techno,,8A,300,,,");
+  });
+});
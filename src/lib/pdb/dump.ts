@@ -0,0 +1,51 @@
+import type { RekordboxDatabase, Track } from '../../types/rekordbox';
+
+// Column order follows the track table in the app, then the fields it hides by default
+const CSV_COLUMNS: { header: string; value: (track: Track) => string | number | undefined }[] = [
+  { header: 'id', value: t => t.id },
+  { header: 'title', value: t => t.title },
+  { header: 'artist', value: t => t.artist },
+  { header: 'album', value: t => t.album },
+  { header: 'genre', value: t => t.genre },
+  { header: 'bpm', value: t => t.bpm || '' },
+  { header: 'key', value: t => t.key },
+  { header: 'duration', value: t => t.duration },
+  { header: 'year', value: t => t.year || '' },
+  { header: 'label', value: t => t.label },
+  { header: 'color', value: t => t.color },
+  { header: 'rating', value: t => t.rating },
+  { header: 'bitrate', value: t => t.bitrate || '' },
+  { header: 'sample_rate', value: t => t.sampleRate || '' },
+  { header: 'sample_depth', value: t => t.sampleDepth || '' },
+  { header: 'file_size', value: t => t.fileSize || '' },
+  { header: 'play_count', value: t => t.playCount ?? '' },
+  { header: 'composer', value: t => t.composer },
+  { header: 'remixer', value: t => t.remixer },
+  { header: 'original_artist', value: t => t.originalArtist },
+  { header: 'mix_name', value: t => t.mixName },
+  { header: 'track_number', value: t => t.trackNumber || '' },
+  { header: 'disc_number', value: t => t.discNumber || '' },
+  { header: 'isrc', value: t => t.isrc },
+  { header: 'comment', value: t => t.comment },
+  { header: 'my_tags', value: t => t.myTags?.join('; ') },
+  { header: 'date_added', value: t => (isNaN(t.dateAdded.getTime()) ? '' : t.dateAdded.toISOString().split('T')[0]) },
+  { header: 'file_path', value: t => t.filePath },
+];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180: CRLF line endings, fields quoted only when they need it
+export function tracksToCsv(tracks: Track[]): string {
+  const lines = [CSV_COLUMNS.map(c => c.header).join(',')];
+  for (const track of tracks) {
+    lines.push(CSV_COLUMNS.map(c => csvField(c.value(track))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function databaseToJson(database: RekordboxDatabase): string {
+  return JSON.stringify(database, null, 2);
+}
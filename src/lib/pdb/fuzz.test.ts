@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { buildPdb, type SyntheticLibrary } from "./builder";
+import { parsePdb, parseExportExtPdb } from "./database";
+import { databaseToJson, tracksToCsv } from "./dump";
+import type { Playlist, RekordboxDatabase } from "../../types/rekordbox";
+
+// Mutation fuzzing: corrupt valid files in the ways sticks actually break (and some they
+// don't) and check the parser always comes back with a usable database and diagnostics.
+// Runs are seeded, so a failure names the seed and case that reproduce it. Real exports
+// can be added with RBX_FUZZ_FILES=/path/export.pdb,/path/other.pdb.
+
+const CASES_PER_MUTATION = 150;
+const MAX_PARSE_MS = 2000;
+
+// mulberry32
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const library: SyntheticLibrary = {
+  tracks: Array.from({ length: 12 }, (_, i) => ({
+    id: i + 1,
+    title: i % 3 === 0 ? `Trąck ${i}` : `Track ${i}`,
+    artist: `Artist ${i % 4}`,
+    album: `Album ${i % 2}`,
+    genre: i % 2 ? "House" : "Techno",
+    key: ["8A", "9A", "10B"][i % 3],
+    bpm: 120 + i,
+    duration: 300 + i,
+    colorId: i % 9,
+    comment: i === 5 ? "c".repeat(140) : undefined
+  })),
+  playlists: [
+    { name: "Folder", children: [{ name: "A", trackIds: [1, 2, 3] }, { name: "Ünïcode", trackIds: [4, 5] }] },
+    { name: "B", trackIds: [6, 7, 8, 9, 10, 11, 12] }
+  ],
+  history: [{ name: "HISTORY 2024-05-03", trackIds: [1, 2] }]
+};
+
+interface Sample {
+  name: string;
+  bytes: Uint8Array;
+  lenPage: number;
+}
+
+function samples(): Sample[] {
+  const list: Sample[] = [
+    { name: "synthetic", bytes: buildPdb(library, { pageSize: 512, maxRowsPerPage: 3 }), lenPage: 512 },
+    { name: "synthetic, strange pages, unaligned", bytes: buildPdb(library, { pageSize: 1024, strangePages: true, trailingBytes: 37 }), lenPage: 1024 }
+  ];
+  for (const path of (process.env.RBX_FUZZ_FILES ?? "").split(",").filter(Boolean)) {
+    const bytes = new Uint8Array(readFileSync(path));
+    list.push({ name: path, bytes, lenPage: new DataView(bytes.buffer).getUint32(4, true) });
+  }
+  return list;
+}
+
+type Mutation = (bytes: Uint8Array, lenPage: number, rand: () => number) => Uint8Array;
+
+const pageCount = (bytes: Uint8Array, lenPage: number) => Math.max(1, Math.floor(bytes.length / lenPage));
+const pick = (rand: () => number, n: number) => Math.floor(rand() * n);
+
+const mutations: Record<string, Mutation> = {
+  "flipped bits": (bytes, _lenPage, rand) => {
+    const out = bytes.slice();
+    for (let i = 1 + pick(rand, 32); i > 0; i--) out[pick(rand, out.length)] ^= 1 << pick(rand, 8);
+    return out;
+  },
+  "overwritten spans": (bytes, _lenPage, rand) => {
+    const out = bytes.slice();
+    const start = pick(rand, out.length);
+    const end = Math.min(out.length, start + 1 + pick(rand, 256));
+    for (let i = start; i < end; i++) out[i] = pick(rand, 256);
+    return out;
+  },
+  "truncated files": (bytes, lenPage, rand) => {
+    // Half the cuts land mid-page, the rest anywhere (including inside the header)
+    const page = pick(rand, pageCount(bytes, lenPage));
+    return bytes.slice(0, rand() < 0.5 ? page * lenPage + pick(rand, lenPage) : pick(rand, bytes.length));
+  },
+  "looping next_page chains": (bytes, lenPage, rand) => {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    const pages = pageCount(out, lenPage);
+    for (let i = 1 + pick(rand, 4); i > 0; i--) {
+      const page = 1 + pick(rand, pages - 1);
+      view.setUint32(page * lenPage + 0x0c, rand() < 0.3 ? page : pick(rand, pages), true);
+    }
+    return out;
+  },
+  "huge row counts": (bytes, lenPage, rand) => {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    const page = 1 + pick(rand, pageCount(out, lenPage) - 1);
+    const offset = page * lenPage;
+    const rows = rand() < 0.5 ? 0x1fff : pick(rand, 0x2000);
+    view.setUint32(offset + 0x18, (rows | (0x7ff << 13) | (view.getUint8(offset + 0x1b) << 24)) >>> 0, true);
+    // Mark every slot present so the parser chases offsets into the header and heap
+    for (let group = 0; group < 16; group++) {
+      const flags = offset + lenPage - group * 0x24 - 4;
+      if (flags >= offset + 0x28) view.setUint16(flags, 0xffff, true);
+    }
+    return out;
+  },
+  "bad table pointers": (bytes, _lenPage, rand) => {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    const tables = view.getUint32(8, true);
+    const pointer = 0x1c + pick(rand, tables) * 16;
+    const values = [0, 1, 0xffffffff, pick(rand, 0x10000), view.getUint32(0x1c + 8, true)];
+    view.setUint32(pointer + 8 + (rand() < 0.5 ? 0 : 4), values[pick(rand, values.length)], true);
+    if (rand() < 0.2) view.setUint32(8, pick(rand, 2000), true);
+    return out;
+  }
+};
+
+const DIAGNOSTIC_KINDS = new Set(["skipped-row", "invalid-id", "bad-string", "bad-page", "broken-chain", "bad-table", "bad-header", "unreadable-file"]);
+
+// Walks the playlist tree without trusting it to be acyclic
+function checkPlaylists(playlists: Playlist[], seen = new Set<Playlist>()) {
+  for (const playlist of playlists) {
+    expect(seen.has(playlist)).toBe(false);
+    seen.add(playlist);
+    expect(typeof playlist.name).toBe("string");
+    expect(playlist.trackIds.every(id => Number.isInteger(id) && id > 0)).toBe(true);
+    checkPlaylists(playlist.children, seen);
+  }
+}
+
+function checkDatabase(db: RekordboxDatabase) {
+  expect(Array.isArray(db.tracks)).toBe(true);
+  for (const track of db.tracks) {
+    expect(Number.isInteger(track.id) && track.id > 0).toBe(true);
+    expect(typeof track.title).toBe("string");
+    expect(Number.isFinite(track.bpm)).toBe(true);
+  }
+  checkPlaylists(db.playlists);
+  checkPlaylists(db.history);
+  expect(db.diagnostics.entries.length).toBeLessThanOrEqual(1000);
+  expect(db.diagnostics.entries.every(d => DIAGNOSTIC_KINDS.has(d.kind))).toBe(true);
+
+  // Everything the app and the CLI do with a database has to cope with it too
+  JSON.stringify(databaseToJson(db));
+  tracksToCsv(db.tracks);
+}
+
+describe("parser fuzzing", () => {
+  for (const sample of samples()) {
+    for (const [name, mutate] of Object.entries(mutations)) {
+      it(`survives ${name} (${sample.name})`, () => {
+        let reported = 0;
+        for (let seed = 1; seed <= CASES_PER_MUTATION; seed++) {
+          const bytes = mutate(sample.bytes, sample.lenPage, random(seed));
+          const context = `seed ${seed}`;
+          const started = performance.now();
+          let db: RekordboxDatabase;
+          try {
+            db = parsePdb(bytes);
+            parseExportExtPdb(bytes);
+          } catch (error) {
+            throw new Error(`${context}: parser threw ${error instanceof Error ? error.stack : error}`);
+          }
+          expect(performance.now() - started, context).toBeLessThan(MAX_PARSE_MS);
+          checkDatabase(db);
+          if (db.diagnostics.entries.length > 0) reported++;
+        }
+        // A mutation the parser never notices isn't testing anything
+        expect(reported).toBeGreaterThan(0);
+      });
+    }
+  }
+
+  it("reports a file that is not a PDB at all instead of throwing", () => {
+    for (const bytes of [new Uint8Array(0), new Uint8Array(27), new Uint8Array(4096).fill(0xff)]) {
+      const db = parsePdb(bytes);
+      expect(db.tracks).toEqual([]);
+      expect(db.diagnostics.entries.map(d => d.kind)).toEqual(["bad-header"]);
+    }
+  });
+});
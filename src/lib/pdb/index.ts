@@ -0,0 +1,36 @@
+// Platform-independent decoder for rekordbox export.pdb / exportExt.pdb, built as a
+// standalone library by `npm run build:lib`. It only touches ArrayBuffer/Uint8Array:
+// no DOM, no File System Access, no Node APIs, so the same code runs in the app, its
+// Web Worker and the `rbx` CLI. Imports under pdb/ stay relative so the library and
+// its declarations build without the app's `@/` alias.
+export {
+  parsePdb,
+  parseExportExtPdb,
+  mergeExportExtPdb,
+  applyExportExt,
+  type ParsePdbOptions,
+  type ExportExtData
+} from './database';
+export { withUnreadableFile, countDiagnostics, headerProblem } from './diagnostics';
+export { tracksToCsv, databaseToJson } from './dump';
+export { TRACK_COLORS } from './rows';
+export {
+  buildPdb,
+  type SyntheticLibrary,
+  type SyntheticTrack,
+  type SyntheticPlaylist,
+  type SyntheticHistory,
+  type BuildPdbOptions
+} from './builder';
+export type {
+  RekordboxDatabase,
+  Track,
+  Playlist,
+  TrackColor,
+  MyTag,
+  MyTagCategory,
+  ParseProgress,
+  ParseDiagnostic,
+  ParseDiagnosticKind,
+  ParseDiagnostics
+} from '../../types/rekordbox';
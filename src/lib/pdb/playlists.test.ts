@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { addPlaylist, editPlaylist, readPlaylistTables, verifyWrittenPlaylists } from "./playlists";
+import { parsePdb } from "./database";
+
+const LEN_PAGE = 512;
+
+// Rows packed back to back, the way rekordbox leaves them (the writer 4-byte aligns its own)
+function writePage(file: Uint8Array, index: number, type: number, next: number, flags: number, rows: Uint8Array[]) {
+  const view = new DataView(file.buffer, index * LEN_PAGE, LEN_PAGE);
+  view.setUint32(4, index, true);
+  view.setUint32(8, type, true);
+  view.setUint32(12, next, true);
+  let heap = 0;
+  rows.forEach((row, i) => {
+    file.set(row, index * LEN_PAGE + 0x28 + heap);
+    view.setUint16(LEN_PAGE - 6 - i * 2, heap, true);
+    heap += row.length;
+  });
+  view.setUint16(LEN_PAGE - 4, (1 << rows.length) - 1, true);
+  view.setUint32(0x18, (rows.length | (rows.length << 13) | (flags << 24)) >>> 0, true);
+}
+
+function treeRow(id: number, parentId: number, sortOrder: number, name: string, isFolder = false): Uint8Array {
+  const row = new Uint8Array(21 + name.length);
+  const view = new DataView(row.buffer);
+  view.setUint32(0, parentId, true);
+  view.setUint32(8, sortOrder, true);
+  view.setUint32(12, id, true);
+  view.setUint32(16, isFolder ? 1 : 0, true);
+  row[20] = ((name.length + 1) << 1) | 1;
+  row.set(new TextEncoder().encode(name), 21);
+  return row;
+}
+
+function entryRow(entryIndex: number, trackId: number, playlistId: number): Uint8Array {
+  const row = new Uint8Array(12);
+  const view = new DataView(row.buffer);
+  view.setUint32(0, entryIndex, true);
+  view.setUint32(4, trackId, true);
+  view.setUint32(8, playlistId, true);
+  return row;
+}
+
+// Header, then each playlist table as an empty head page followed by one data page
+function fixture(): Uint8Array {
+  const file = new Uint8Array(6 * LEN_PAGE);
+  const view = new DataView(file.buffer);
+  view.setUint32(4, LEN_PAGE, true);
+  view.setUint32(8, 2, true);
+  view.setUint32(0x0c, 6, true);
+  view.setUint32(0x14, 7, true);
+  [[7, 2, 3], [8, 4, 5]].forEach(([type, first, last], i) => {
+    view.setUint32(0x1c + i * 16, type, true);
+    view.setUint32(0x1c + i * 16 + 8, first, true);
+    view.setUint32(0x1c + i * 16 + 12, last, true);
+  });
+  writePage(file, 2, 7, 3, 0x64, []);
+  writePage(file, 3, 7, 6, 0x34, [treeRow(1, 0, 0, "Gigs", true), treeRow(2, 1, 0, "Warm-up")]);
+  writePage(file, 4, 8, 5, 0x64, []);
+  writePage(file, 5, 8, 6, 0x34, [entryRow(1, 10, 2), entryRow(2, 11, 2)]);
+  return file;
+}
+
+describe("addPlaylist", () => {
+  it("adds a playlist the parser reads back alongside the existing ones", () => {
+    const original = fixture();
+    const { image, playlistId, tables } = addPlaylist(original, { name: "Café ☕", trackIds: [11, 10, 12] });
+
+    expect(playlistId).toBe(3);
+    const db = parsePdb(image);
+    expect(db.diagnostics.entries).toEqual([]);
+    expect(db.playlists.map(p => p.name)).toEqual(["Gigs", "Café ☕"]);
+    expect(db.playlists[0].children[0]).toMatchObject({ name: "Warm-up", trackIds: [10, 11] });
+    expect(db.playlists[1].trackIds).toEqual([11, 10, 12]);
+    expect(() => verifyWrittenPlaylists(image, tables, 0)).not.toThrow();
+    expect(readPlaylistTables(image)).toEqual(tables);
+  });
+
+  it("preserves every original byte and only appends", () => {
+    const original = fixture();
+    const { image } = addPlaylist(original, { name: "New", trackIds: [10] });
+
+    expect(image.length).toBeGreaterThan(original.length);
+    expect(image.length % LEN_PAGE).toBe(0);
+
+    // next_unused_page, sequence, the tree and entry table pointers' first/last page,
+    // and the next_page of each table's head page
+    const windows = [[0x0c, 4], [0x14, 4], [0x1c + 8, 8], [0x2c + 8, 8], [2 * LEN_PAGE + 12, 4], [4 * LEN_PAGE + 12, 4]];
+    const allowed = (offset: number) => windows.some(([start, length]) => offset >= start && offset < start + length);
+    const changed = [...original.keys()].filter(i => original[i] !== image[i]);
+    expect(changed.length).toBeGreaterThan(0);
+    expect(changed.filter(i => !allowed(i))).toEqual([]);
+  });
+
+  it("spreads long playlists over several pages and refuses bad input", () => {
+    const trackIds = Array.from({ length: 200 }, (_, i) => i + 1);
+    const { image, tables } = addPlaylist(fixture(), { name: "Everything", trackIds });
+
+    expect(image.length / LEN_PAGE).toBeGreaterThan(10);
+    expect(parsePdb(image).playlists[1].trackIds).toEqual(trackIds);
+    expect(() => verifyWrittenPlaylists(image, tables, 0)).not.toThrow();
+
+    const tampered = { ...tables, entries: tables.entries.slice(0, -1) };
+    expect(() => verifyWrittenPlaylists(image, tampered, 0)).toThrow(/different tracks/);
+    expect(() => addPlaylist(fixture(), { name: "  ", trackIds })).toThrow(/needs a name/);
+    expect(() => addPlaylist(fixture(), { name: "Nested", trackIds, parentId: 2 })).toThrow(/does not exist/);
+  });
+});
+
+describe("editPlaylist", () => {
+  it("renames, moves and deletes in place", () => {
+    const original = fixture();
+    const renamed = editPlaylist(original, { kind: "rename", id: 2, name: "Opener" });
+
+    // The shorter name fits in the old one's bytes: only that row and the sequence change
+    expect(renamed.image.length).toBe(original.length);
+    const changed = [...original.keys()].filter(i => original[i] !== renamed.image[i]);
+    expect(changed.every(i => (i >= 0x14 && i < 0x18) || (i >= 3 * LEN_PAGE + 0x28 && i < 4 * LEN_PAGE))).toBe(true);
+    expect(parsePdb(renamed.image).playlists[0].children[0].name).toBe("Opener");
+    expect(() => verifyWrittenPlaylists(renamed.image, renamed.tables, 0)).not.toThrow();
+
+    const moved = editPlaylist(renamed.image, { kind: "move", id: 2, parentId: 0, index: 0 });
+    expect(parsePdb(moved.image).playlists.map(p => p.name)).toEqual(["Opener", "Gigs"]);
+    expect(() => verifyWrittenPlaylists(moved.image, moved.tables, 0)).not.toThrow();
+
+    const deleted = editPlaylist(moved.image, { kind: "delete", id: 1 });
+    expect(parsePdb(deleted.image).playlists.map(p => p.name)).toEqual(["Opener"]);
+    expect(readPlaylistTables(deleted.image).tree.map(r => r.id)).toEqual([2]);
+    expect(() => verifyWrittenPlaylists(deleted.image, deleted.tables, 0)).not.toThrow();
+  });
+
+  it("appends instead when a longer name does not fit, and refuses unsafe edits", () => {
+    const original = fixture();
+    const { image, tables } = editPlaylist(original, { kind: "rename", id: 2, name: "Warm-up (long version)" });
+
+    expect(image.length).toBeGreaterThan(original.length);
+    expect(parsePdb(image).playlists[0].children[0].name).toBe("Warm-up (long version)");
+    expect(() => verifyWrittenPlaylists(image, tables, 0)).not.toThrow();
+
+    expect(() => editPlaylist(original, { kind: "delete", id: 2 })).toThrow(/still has tracks/);
+    expect(() => editPlaylist(original, { kind: "delete", id: 1 })).toThrow(/not empty/);
+    expect(() => editPlaylist(original, { kind: "move", id: 1, parentId: 2, index: 0 })).toThrow(/does not exist/);
+    expect(() => editPlaylist(original, { kind: "move", id: 1, parentId: 1, index: 0 })).toThrow(/into itself/);
+  });
+});
@@ -0,0 +1,445 @@
+import type { Playlist, RekordboxDatabase } from '../../types/rekordbox';
+import { createDiagnosticsCollector } from './diagnostics';
+import { readDeviceSqlString, encodeDeviceSqlString, deviceSqlStringSize } from './devicesql';
+import {
+  readPdbHeader,
+  parseTablePages,
+  packRows,
+  encodePage,
+  PAGE_FLAG_NON_DATA,
+  type TableInfo,
+  type RowLocation
+} from './structure';
+import { PAGE_TYPE_PLAYLIST_TREE, PAGE_TYPE_PLAYLIST_ENTRIES, TABLE_NAMES } from './rows';
+import { parsePdb } from './database';
+
+// New playlists are purely additive: both playlist tables are re-encoded into new pages
+// appended past the old end of file, and the only existing bytes touched are the file
+// header's next_unused_page and sequence, the two table pointers, and at most one
+// next_page per table to graft the new chain on. Everything else, including the old
+// playlist pages, survives byte for byte. See research_playlistHelp.md for the format.
+//
+// Edits to existing playlists (rename, delete, move) are patched in place instead: the
+// u32 parent_id and sort_order fields, the name when the new one fits in the old one's
+// bytes, and the row's present bit for a delete. A name that doesn't fit falls back to the
+// additive rewrite.
+
+export interface PlaylistTreeRow {
+  id: number;
+  parentId: number; // 0 = root
+  sortOrder: number;
+  isFolder: boolean;
+  name: string;
+  unknown: number; // u32 at 0x04, kept as read
+}
+
+export interface PlaylistEntryRow {
+  entryIndex: number;
+  trackId: number;
+  playlistId: number;
+}
+
+export interface PlaylistTables {
+  tree: PlaylistTreeRow[];
+  entries: PlaylistEntryRow[];
+}
+
+export interface NewPlaylist {
+  name: string;
+  trackIds: number[];
+  parentId?: number;
+}
+
+// index: position among the new parent's children, counted without the moved playlist
+export type PlaylistEdit =
+  | { kind: 'rename'; id: number; name: string }
+  | { kind: 'delete'; id: number }
+  | { kind: 'move'; id: number; parentId: number; index: number };
+
+// Longest name we write; the players truncate far earlier than this anyway
+export const MAX_PLAYLIST_NAME_LENGTH = 255;
+
+// File header
+const HEADER_NEXT_UNUSED_PAGE = 0x0c;
+const HEADER_SEQUENCE = 0x14;
+const HEADER_TABLE_POINTERS = 0x1c;
+const TABLE_POINTER_SIZE = 16;
+
+// What rekordbox uses on playlist data pages when there is no page of ours to copy from
+const DEFAULT_PAGE_FLAGS = 0x24;
+
+function toBytes(buffer: ArrayBuffer | Uint8Array): Uint8Array {
+  return buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+}
+
+interface TablePointer extends TableInfo {
+  offset: number; // of the pointer in the file header
+}
+
+function findTablePointer(dataView: DataView, type: number): TablePointer | null {
+  const numTables = dataView.getUint32(8, true);
+  for (let i = 0; i < numTables; i++) {
+    const offset = HEADER_TABLE_POINTERS + i * TABLE_POINTER_SIZE;
+    if (offset + TABLE_POINTER_SIZE > dataView.byteLength) break;
+    if (dataView.getUint32(offset, true) === type) {
+      return {
+        type,
+        offset,
+        firstPage: dataView.getUint32(offset + 8, true),
+        lastPage: dataView.getUint32(offset + 12, true)
+      };
+    }
+  }
+  return null;
+}
+
+interface TreeRowLocation extends RowLocation {
+  rowBase: number;
+}
+
+function readPlaylistRows(buffer: ArrayBuffer | Uint8Array): { tables: PlaylistTables; locations: Map<number, TreeRowLocation> } {
+  const diag = createDiagnosticsCollector('export.pdb', TABLE_NAMES);
+  const { dataView, bufferLength, lenPage } = readPdbHeader(buffer, diag);
+  const treeTable = findTablePointer(dataView, PAGE_TYPE_PLAYLIST_TREE);
+  const entryTable = findTablePointer(dataView, PAGE_TYPE_PLAYLIST_ENTRIES);
+  if (!treeTable || !entryTable) throw new Error('This export.pdb has no playlist tables.');
+
+  const tree: PlaylistTreeRow[] = [];
+  const locations = new Map<number, TreeRowLocation>();
+  parseTablePages(dataView, treeTable, lenPage, bufferLength, diag, (rowBase, _pageType, location) => {
+    if (rowBase + 20 > bufferLength) throw new Error('truncated playlist row');
+    const id = dataView.getUint32(rowBase + 12, true);
+    if (id === 0) throw new Error('playlist row with ID 0');
+    tree.push({
+      id,
+      parentId: dataView.getUint32(rowBase, true),
+      unknown: dataView.getUint32(rowBase + 4, true),
+      sortOrder: dataView.getUint32(rowBase + 8, true),
+      isFolder: dataView.getUint32(rowBase + 16, true) !== 0,
+      name: readDeviceSqlString(dataView, rowBase + 20, bufferLength, diag)
+    });
+    locations.set(id, { rowBase, ...location });
+  });
+
+  const entries: PlaylistEntryRow[] = [];
+  parseTablePages(dataView, entryTable, lenPage, bufferLength, diag, rowBase => {
+    if (rowBase + 12 > bufferLength) throw new Error('truncated playlist entry row');
+    entries.push({
+      entryIndex: dataView.getUint32(rowBase, true),
+      trackId: dataView.getUint32(rowBase + 4, true),
+      playlistId: dataView.getUint32(rowBase + 8, true)
+    });
+  });
+
+  const problems = diag.result().entries;
+  if (problems.length > 0) {
+    throw new Error(`The playlist tables are damaged (${problems[0].message}); not writing to them.`);
+  }
+  return { tables: { tree, entries }, locations };
+}
+
+// Reads the raw rows, in chain order. A damaged table is refused rather than read around:
+// rows the parser skips would be silently dropped by the rewrite.
+export function readPlaylistTables(buffer: ArrayBuffer | Uint8Array): PlaylistTables {
+  return readPlaylistRows(buffer).tables;
+}
+
+export function encodeTreeRow(row: PlaylistTreeRow): Uint8Array {
+  const name = encodeDeviceSqlString(row.name);
+  const bytes = new Uint8Array(20 + name.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, row.parentId, true);
+  view.setUint32(4, row.unknown, true);
+  view.setUint32(8, row.sortOrder, true);
+  view.setUint32(12, row.id, true);
+  view.setUint32(16, row.isFolder ? 1 : 0, true);
+  bytes.set(name, 20);
+  return bytes;
+}
+
+export function encodeEntryRow(row: PlaylistEntryRow): Uint8Array {
+  const bytes = new Uint8Array(12);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, row.entryIndex, true);
+  view.setUint32(4, row.trackId, true);
+  view.setUint32(8, row.playlistId, true);
+  return bytes;
+}
+
+function pageIsEmpty(dataView: DataView, pageOffset: number): boolean {
+  const packed = dataView.getUint32(pageOffset + 0x18, true);
+  return (dataView.getUint8(pageOffset + 0x1b) & PAGE_FLAG_NON_DATA) !== 0 || ((packed >> 13) & 0x7ff) === 0;
+}
+
+// page_flags from the table's first data page, so new pages look like rekordbox's own
+function samplePageFlags(dataView: DataView, table: TableInfo, lenPage: number): number {
+  const visited = new Set<number>();
+  let pageIndex = table.firstPage;
+  while (pageIndex > 0 && !visited.has(pageIndex) && (pageIndex + 1) * lenPage <= dataView.byteLength) {
+    visited.add(pageIndex);
+    const pageOffset = pageIndex * lenPage;
+    const flags = dataView.getUint8(pageOffset + 0x1b);
+    if ((flags & PAGE_FLAG_NON_DATA) === 0 && dataView.getUint32(pageOffset + 8, true) === table.type) return flags;
+    if (pageIndex === table.lastPage) break;
+    pageIndex = dataView.getUint32(pageOffset + 0x0c, true);
+  }
+  return DEFAULT_PAGE_FLAGS;
+}
+
+// Builds a new image holding the given rows in place of both playlist tables. The input
+// buffer is not modified.
+export function writePlaylistTables(buffer: ArrayBuffer | Uint8Array, tables: PlaylistTables): Uint8Array<ArrayBuffer> {
+  const source = toBytes(buffer);
+  const diag = createDiagnosticsCollector('export.pdb', TABLE_NAMES);
+  const { dataView, lenPage } = readPdbHeader(source, diag);
+  const treeTable = findTablePointer(dataView, PAGE_TYPE_PLAYLIST_TREE);
+  const entryTable = findTablePointer(dataView, PAGE_TYPE_PLAYLIST_ENTRIES);
+  if (!treeTable || !entryTable) throw new Error('This export.pdb has no playlist tables.');
+
+  const layouts = [
+    { table: treeTable, pages: packRows(tables.tree.map(encodeTreeRow), lenPage) },
+    { table: entryTable, pages: packRows(tables.entries.map(encodeEntryRow), lenPage) }
+  ];
+
+  // New pages start at next_unused_page, or at the end of the file if that is further on
+  const firstNewPage = Math.max(dataView.getUint32(HEADER_NEXT_UNUSED_PAGE, true), Math.ceil(source.length / lenPage));
+  const nextUnused = firstNewPage + layouts.reduce((sum, l) => sum + l.pages.length, 0);
+  const sequence = (dataView.getUint32(HEADER_SEQUENCE, true) + 1) >>> 0;
+
+  const image = new Uint8Array(nextUnused * lenPage);
+  image.set(source);
+  const view = new DataView(image.buffer);
+
+  let pageIndex = firstNewPage;
+  for (const { table, pages } of layouts) {
+    const flags = samplePageFlags(dataView, table, lenPage);
+    const first = pageIndex;
+    pages.forEach((rows, i) => {
+      const nextPage = i + 1 < pages.length ? pageIndex + 1 : nextUnused;
+      image.set(encodePage(rows, lenPage, { index: pageIndex, type: table.type, nextPage, sequence, flags }), pageIndex * lenPage);
+      pageIndex++;
+    });
+
+    // Keep an empty head page (the usual case) and hang the new chain off it; a head that
+    // holds rows is replaced by the new first page instead
+    const headOffset = table.firstPage * lenPage;
+    if (table.firstPage > 0 && headOffset + lenPage <= source.length && pageIsEmpty(dataView, headOffset)) {
+      view.setUint32(headOffset + 0x0c, first, true);
+    } else {
+      view.setUint32(table.offset + 8, first, true);
+    }
+    view.setUint32(table.offset + 12, pageIndex - 1, true);
+  }
+
+  view.setUint32(HEADER_NEXT_UNUSED_PAGE, nextUnused, true);
+  view.setUint32(HEADER_SEQUENCE, sequence, true);
+  return image;
+}
+
+export function validatePlaylistName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('A playlist needs a name.');
+  if (trimmed.length > MAX_PLAYLIST_NAME_LENGTH) {
+    throw new Error(`Playlist names can be at most ${MAX_PLAYLIST_NAME_LENGTH} characters.`);
+  }
+  return trimmed;
+}
+
+// Entries are numbered like the ones already on the stick; rekordbox starts at 1
+function firstEntryIndex(entries: PlaylistEntryRow[]): number {
+  return entries.length > 0 ? Math.min(...entries.map(e => e.entryIndex)) : 1;
+}
+
+// Appends one playlist (at the end of its parent folder) and returns the new image along
+// with the rows it should contain, for verifyWrittenPlaylists
+export function addPlaylist(
+  buffer: ArrayBuffer | Uint8Array,
+  playlist: NewPlaylist
+): { image: Uint8Array<ArrayBuffer>; playlistId: number; tables: PlaylistTables } {
+  const name = validatePlaylistName(playlist.name);
+  const parentId = playlist.parentId ?? 0;
+  const current = readPlaylistTables(buffer);
+
+  if (parentId !== 0 && !current.tree.some(row => row.id === parentId && row.isFolder)) {
+    throw new Error(`Folder ${parentId} does not exist.`);
+  }
+
+  const id = current.tree.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+  const siblings = current.tree.filter(row => row.parentId === parentId);
+  const sortOrder = siblings.length > 0 ? Math.max(...siblings.map(row => row.sortOrder)) + 1 : 0;
+  const base = firstEntryIndex(current.entries);
+
+  const tables: PlaylistTables = {
+    tree: [...current.tree, { id, parentId, sortOrder, isFolder: false, name, unknown: 0 }],
+    entries: [
+      ...current.entries,
+      ...playlist.trackIds.map((trackId, i) => ({ entryIndex: base + i, trackId, playlistId: id }))
+    ]
+  };
+  return { image: writePlaylistTables(buffer, tables), playlistId: id, tables };
+}
+
+function childrenInOrder(tree: PlaylistTreeRow[], parentId: number): PlaylistTreeRow[] {
+  return tree.filter(row => row.parentId === parentId).sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+function isInside(tree: PlaylistTreeRow[], id: number, folderId: number): boolean {
+  const byId = new Map(tree.map(row => [row.id, row]));
+  const seen = new Set<number>();
+  for (let row = byId.get(id); row && !seen.has(row.id); row = byId.get(row.parentId)) {
+    if (row.parentId === folderId) return true;
+    seen.add(row.id);
+  }
+  return false;
+}
+
+// The rows as they should read after an edit. Only empty playlists and folders can be
+// deleted: entries are never removed, so nothing a DJ put together is lost by a misclick.
+export function applyPlaylistEdit(tables: PlaylistTables, edit: PlaylistEdit): PlaylistTables {
+  const row = tables.tree.find(r => r.id === edit.id);
+  if (!row) throw new Error(`Playlist ${edit.id} does not exist.`);
+
+  switch (edit.kind) {
+    case 'rename': {
+      const name = validatePlaylistName(edit.name);
+      return { ...tables, tree: tables.tree.map(r => (r.id === row.id ? { ...r, name } : r)) };
+    }
+    case 'delete': {
+      if (tables.tree.some(r => r.parentId === row.id)) {
+        throw new Error(`"${row.name}" is not empty; only empty folders can be deleted.`);
+      }
+      if (tables.entries.some(e => e.playlistId === row.id)) {
+        throw new Error(`"${row.name}" still has tracks; only empty playlists can be deleted.`);
+      }
+      return { ...tables, tree: tables.tree.filter(r => r.id !== row.id) };
+    }
+    case 'move': {
+      if (edit.parentId !== 0) {
+        if (!tables.tree.some(r => r.id === edit.parentId && r.isFolder)) throw new Error(`Folder ${edit.parentId} does not exist.`);
+        if (edit.parentId === row.id || isInside(tables.tree, edit.parentId, row.id)) {
+          throw new Error(`"${row.name}" cannot be moved into itself.`);
+        }
+      }
+      // Renumber the destination folder from its lowest sort_order so nothing else moves
+      const siblings = childrenInOrder(tables.tree, edit.parentId).filter(r => r.id !== row.id);
+      const index = Math.max(0, Math.min(edit.index, siblings.length));
+      const base = siblings.length > 0 ? Math.min(...siblings.map(r => r.sortOrder)) : 0;
+      const ordered = [...siblings.slice(0, index), row, ...siblings.slice(index)];
+      const sortOrders = new Map(ordered.map((r, i) => [r.id, base + i]));
+      return {
+        ...tables,
+        tree: tables.tree.map(r => (sortOrders.has(r.id) ? { ...r, parentId: edit.parentId, sortOrder: sortOrders.get(r.id)! } : r))
+      };
+    }
+  }
+}
+
+// Patches an edit into a copy of the file. Touches only the changed rows' fields, the
+// present bit and num_rows for a delete, and the header sequence.
+export function editPlaylist(
+  buffer: ArrayBuffer | Uint8Array,
+  edit: PlaylistEdit
+): { image: Uint8Array<ArrayBuffer>; tables: PlaylistTables } {
+  const source = toBytes(buffer);
+  const { tables: current, locations } = readPlaylistRows(source);
+  const tables = applyPlaylistEdit(current, edit);
+
+  const image = new Uint8Array(source.length);
+  image.set(source);
+  const view = new DataView(image.buffer);
+  const edited = new Map(tables.tree.map(row => [row.id, row]));
+
+  for (const before of current.tree) {
+    const location = locations.get(before.id)!;
+    const row = edited.get(before.id);
+
+    if (!row) {
+      const flags = view.getUint16(location.presentFlagsOffset, true);
+      view.setUint16(location.presentFlagsOffset, flags & ~(1 << location.presentBit), true);
+      const packed = view.getUint32(location.pageOffset + 0x18, true);
+      const numRows = Math.max(((packed >> 13) & 0x7ff) - 1, 0);
+      view.setUint32(location.pageOffset + 0x18, ((packed & ~(0x7ff << 13)) | (numRows << 13)) >>> 0, true);
+      continue;
+    }
+
+    if (row.parentId !== before.parentId) view.setUint32(location.rowBase, row.parentId, true);
+    if (row.sortOrder !== before.sortOrder) view.setUint32(location.rowBase + 8, row.sortOrder, true);
+    if (row.name !== before.name) {
+      const name = encodeDeviceSqlString(row.name);
+      const room = deviceSqlStringSize(view, location.rowBase + 20);
+      if (name.length > room) return { image: writePlaylistTables(source, tables), tables };
+      image.fill(0, location.rowBase + 20, location.rowBase + 20 + room);
+      image.set(name, location.rowBase + 20);
+    }
+  }
+
+  view.setUint32(HEADER_SEQUENCE, (view.getUint32(HEADER_SEQUENCE, true) + 1) >>> 0, true);
+  return { image, tables };
+}
+
+function flattenPlaylists(playlists: Playlist[], into = new Map<number, Playlist>()): Map<number, Playlist> {
+  for (const playlist of playlists) {
+    into.set(playlist.id, playlist);
+    flattenPlaylists(playlist.children, into);
+  }
+  return into;
+}
+
+// Rows the parser can show: named, and their parent chain reaches the root without a gap
+// or a loop
+function visibleRows(tree: PlaylistTreeRow[]): PlaylistTreeRow[] {
+  const named = tree.filter(row => row.name);
+  const byId = new Map(named.map(row => [row.id, row]));
+  return named.filter(row => {
+    const seen = new Set<number>();
+    let current: PlaylistTreeRow | undefined = row;
+    while (current && current.parentId !== 0) {
+      if (seen.has(current.id)) return false;
+      seen.add(current.id);
+      current = byId.get(current.parentId);
+    }
+    return current !== undefined;
+  });
+}
+
+// Re-parses an image with the regular parser (not this module's row reader) and checks it
+// shows exactly the expected playlists and tracks. Throws on the first difference and
+// returns the parsed database otherwise.
+export function verifyWrittenPlaylists(image: Uint8Array, expected: PlaylistTables, trackCount: number): RekordboxDatabase {
+  const database = parsePdb(image);
+  if (database.tracks.length !== trackCount) {
+    throw new Error(`Expected ${trackCount} tracks after writing, found ${database.tracks.length}.`);
+  }
+
+  const written = flattenPlaylists(database.playlists);
+  const rows = visibleRows(expected.tree);
+  if (written.size !== rows.length) {
+    throw new Error(`Expected ${rows.length} playlists after writing, found ${written.size}.`);
+  }
+
+  for (const row of rows) {
+    const playlist = written.get(row.id);
+    if (!playlist) throw new Error(`Playlist "${row.name}" is missing after writing.`);
+    if (playlist.name !== row.name || playlist.isFolder !== row.isFolder || (playlist.parentId ?? 0) !== row.parentId) {
+      throw new Error(`Playlist "${row.name}" reads back differently after writing.`);
+    }
+    const trackIds = expected.entries
+      .filter(e => e.playlistId === row.id)
+      .sort((a, b) => a.entryIndex - b.entryIndex)
+      .map(e => e.trackId);
+    if (trackIds.length !== playlist.trackIds.length || trackIds.some((id, i) => playlist.trackIds[i] !== id)) {
+      throw new Error(`Playlist "${row.name}" has different tracks after writing.`);
+    }
+  }
+
+  // Order at the top level and inside each folder follows sort_order
+  const checkOrder = (playlists: Playlist[], parentId: number) => {
+    const ids = childrenInOrder(rows, parentId).map(row => row.id);
+    if (ids.join() !== playlists.map(p => p.id).join()) {
+      throw new Error('The playlist order reads back differently after writing.');
+    }
+    playlists.forEach(p => checkOrder(p.children, p.id));
+  };
+  checkOrder(database.playlists, 0);
+  return database;
+}
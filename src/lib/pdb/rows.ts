@@ -0,0 +1,669 @@
+import type { Track } from '../../types/rekordbox';
+import type { DiagnosticsCollector } from './diagnostics';
+import { readDeviceSqlString } from './devicesql';
+
+// Page types from the PDB format
+export const PAGE_TYPE_TRACKS = 0;
+export const PAGE_TYPE_GENRES = 1;
+export const PAGE_TYPE_ARTISTS = 2;
+export const PAGE_TYPE_ALBUMS = 3;
+export const PAGE_TYPE_LABELS = 4;
+export const PAGE_TYPE_KEYS = 5;
+export const PAGE_TYPE_COLORS = 6;
+export const PAGE_TYPE_PLAYLIST_TREE = 7;
+export const PAGE_TYPE_PLAYLIST_ENTRIES = 8;
+export const PAGE_TYPE_HISTORY_PLAYLISTS = 11;
+export const PAGE_TYPE_HISTORY_ENTRIES = 12;
+export const PAGE_TYPE_ARTWORK = 13;
+
+// Names used in progress reports ("tracks: page 120/900")
+export const TABLE_NAMES: Record<number, string> = {
+  [PAGE_TYPE_TRACKS]: 'tracks',
+  [PAGE_TYPE_GENRES]: 'genres',
+  [PAGE_TYPE_ARTISTS]: 'artists',
+  [PAGE_TYPE_ALBUMS]: 'albums',
+  [PAGE_TYPE_LABELS]: 'labels',
+  [PAGE_TYPE_KEYS]: 'keys',
+  [PAGE_TYPE_COLORS]: 'colors',
+  [PAGE_TYPE_PLAYLIST_TREE]: 'playlists',
+  [PAGE_TYPE_PLAYLIST_ENTRIES]: 'playlist entries',
+  [PAGE_TYPE_HISTORY_PLAYLISTS]: 'history',
+  [PAGE_TYPE_HISTORY_ENTRIES]: 'history entries',
+  [PAGE_TYPE_ARTWORK]: 'artwork',
+};
+
+// exportExt.pdb reuses the same container but numbers its tables independently,
+// so 3/4 here are NOT albums/labels.
+export const EXT_PAGE_TYPE_TAGS = 3;
+export const EXT_PAGE_TYPE_TAG_TRACKS = 4;
+
+export const EXT_TABLE_NAMES: Record<number, string> = {
+  [PAGE_TYPE_TRACKS]: 'tracks',
+  [PAGE_TYPE_GENRES]: 'genres',
+  [EXT_PAGE_TYPE_TAGS]: 'tags',
+  [EXT_PAGE_TYPE_TAG_TRACKS]: 'tag tracks',
+};
+
+// The colors table only carries names; the swatch values are fixed by the hardware.
+// IDs 1-8 are the same on every export, so the defaults double as a fallback when
+// the table is missing.
+export const TRACK_COLORS: { id: number; name: string; hex: string }[] = [
+  { id: 1, name: 'Pink', hex: '#f870f8' },
+  { id: 2, name: 'Red', hex: '#f83030' },
+  { id: 3, name: 'Orange', hex: '#f8a030' },
+  { id: 4, name: 'Yellow', hex: '#f8e331' },
+  { id: 5, name: 'Green', hex: '#10e030' },
+  { id: 6, name: 'Aqua', hex: '#30d0f8' },
+  { id: 7, name: 'Blue', hex: '#3050f8' },
+  { id: 8, name: 'Purple', hex: '#b030f8' },
+];
+
+export function parseSimpleRow(
+  dataView: DataView,
+  rowBase: number,
+  pageType: number,
+  bufferLength: number,
+  artists: Map<number, string>,
+  albums: Map<number, string>,
+  genres: Map<number, string>,
+  keys: Map<number, string>,
+  labels: Map<number, string>,
+  colors: Map<number, string>,
+  artwork: Map<number, string>,
+  diag: DiagnosticsCollector
+) {
+  // Security: Validate minimum row size
+  if (rowBase + 10 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  switch (pageType) {
+    case PAGE_TYPE_ARTISTS: {
+      // Artist row: subtype (u16), index_shift (u16), id (u32), 0x03 (u8), ofs_name_near (u8)
+      // Security: Validate space for artist row (minimum 10 bytes)
+      if (rowBase + 10 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for artist row at offset ${rowBase}`);
+        return;
+      }
+      
+      const subtype = dataView.getUint16(rowBase, true);
+      const id = dataView.getUint32(rowBase + 4, true);
+      
+      // Security: Validate ID is reasonable (getUint32 always returns 0-0xFFFFFFFF)
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid artist ID ${id}`);
+        return;
+      }
+      
+      let nameOffset: number;
+      if ((subtype & 0x04) === 0x04) {
+        // Long offset at row + 0x0a
+        if (rowBase + 0x0c > bufferLength) {
+          diag.add('skipped-row', rowBase, `insufficient space for long offset at ${rowBase + 0x0a}`);
+          return;
+        }
+        nameOffset = dataView.getUint16(rowBase + 0x0a, true);
+      } else {
+        nameOffset = dataView.getUint8(rowBase + 9);
+      }
+      
+      // Security: Validate nameOffset is within reasonable range (getUint16/getUint8 are always >= 0)
+      if (nameOffset > 10000) {
+        diag.add('bad-string', rowBase, `invalid name offset ${nameOffset} for artist`);
+        return;
+      }
+      
+      const name = readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag);
+      if (name) artists.set(id, name);
+      break;
+    }
+    case PAGE_TYPE_ALBUMS: {
+      // Album row structure - try multiple known layouts
+      // Security: Validate space for album row
+      if (rowBase + 22 > bufferLength) {
+        return;
+      }
+      
+      const subtype = dataView.getUint16(rowBase, true);
+      
+      // Try reading ID from offset 0x0C (standard location)
+      let id = dataView.getUint32(rowBase + 0x0C, true);
+      
+      // If ID is 0, try alternate offset 0x04 (some versions use this)
+      if (id === 0) {
+        id = dataView.getUint32(rowBase + 0x04, true);
+      }
+      
+      if (id === 0) {
+        return; // Skip entries with no valid ID
+      }
+      
+      // Try multiple name offset strategies
+      let name = '';
+      
+      // Strategy 1: Check for long offset flag (bit 0x100)
+      if ((subtype & 0x100) !== 0 && rowBase + 0x18 <= bufferLength) {
+        const nameOffset = dataView.getUint16(rowBase + 0x16, true);
+        if (nameOffset > 0 && nameOffset < 1000) {
+          name = readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag);
+        }
+      }
+      
+      // Strategy 2: Near offset at 0x15 (common)
+      if (!name && rowBase + 0x16 <= bufferLength) {
+        const nameOffset = dataView.getUint8(rowBase + 0x15);
+        if (nameOffset > 0 && nameOffset < 200) {
+          name = readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag);
+        }
+      }
+      
+      // Strategy 3: Near offset at byte 17 (legacy)
+      if (!name && rowBase + 18 <= bufferLength) {
+        const nameOffset = dataView.getUint8(rowBase + 17);
+        if (nameOffset > 0 && nameOffset < 200) {
+          name = readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag);
+        }
+      }
+      
+      // Strategy 4: Check subtype 0x04 flag for long offset
+      if (!name && (subtype & 0x04) !== 0 && rowBase + 0x18 <= bufferLength) {
+        const nameOffset = dataView.getUint16(rowBase + 0x16, true);
+        if (nameOffset > 0 && nameOffset < 1000) {
+          name = readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag);
+        }
+      }
+      
+      if (name) {
+        albums.set(id, name);
+      }
+      break;
+    }
+    case PAGE_TYPE_GENRES: {
+      // Genre row: id (u32), name (device_sql_string)
+      if (rowBase + 4 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for genre row at offset ${rowBase}`);
+        return;
+      }
+      
+      const id = dataView.getUint32(rowBase, true);
+      
+      // Security: Validate ID is reasonable (getUint32 always returns 0-0xFFFFFFFF)
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid genre ID ${id}`);
+        return;
+      }
+      
+      const name = readDeviceSqlString(dataView, rowBase + 4, bufferLength, diag);
+      if (name) genres.set(id, name);
+      break;
+    }
+    case PAGE_TYPE_KEYS: {
+      // Key row: id (u32), id2 (u32), name (device_sql_string)
+      if (rowBase + 8 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for key row at offset ${rowBase}`);
+        return;
+      }
+      
+      const id = dataView.getUint32(rowBase, true);
+      
+      // Security: Validate ID is reasonable (getUint32 always returns 0-0xFFFFFFFF)
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid key ID ${id}`);
+        return;
+      }
+      
+      const name = readDeviceSqlString(dataView, rowBase + 8, bufferLength, diag);
+      if (name) keys.set(id, name);
+      break;
+    }
+    case PAGE_TYPE_LABELS: {
+      // Label row: id (u32), name (device_sql_string)
+      if (rowBase + 4 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for label row at offset ${rowBase}`);
+        return;
+      }
+      
+      const id = dataView.getUint32(rowBase, true);
+      
+      // Security: Validate ID is reasonable (getUint32 always returns 0-0xFFFFFFFF)
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid label ID ${id}`);
+        return;
+      }
+      
+      const name = readDeviceSqlString(dataView, rowBase + 4, bufferLength, diag);
+      if (name) labels.set(id, name);
+      break;
+    }
+    case PAGE_TYPE_COLORS: {
+      // Color row: unknown (5 bytes), id (u16), unknown (u8), name (device_sql_string)
+      if (rowBase + 8 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for color row at offset ${rowBase}`);
+        return;
+      }
+      
+      const id = dataView.getUint16(rowBase + 5, true);
+      
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid color ID ${id}`);
+        return;
+      }
+      
+      const name = readDeviceSqlString(dataView, rowBase + 8, bufferLength, diag);
+      if (name) colors.set(id, name);
+      break;
+    }
+    case PAGE_TYPE_ARTWORK: {
+      // Artwork row: id (u32), path (device_sql_string), e.g. /PIONEER/Artwork/00001/a1.jpg
+      if (rowBase + 4 > bufferLength) {
+        diag.add('skipped-row', rowBase, `insufficient space for artwork row at offset ${rowBase}`);
+        return;
+      }
+      
+      const id = dataView.getUint32(rowBase, true);
+      
+      if (id === 0) {
+        diag.add('invalid-id', rowBase, `invalid artwork ID ${id}`);
+        return;
+      }
+      
+      const path = readDeviceSqlString(dataView, rowBase + 4, bufferLength, diag);
+      if (path) artwork.set(id, path);
+      break;
+    }
+  }
+}
+
+export function parsePlaylistTreeRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  playlistTree: Map<number, { name: string; parentId: number; isFolder: boolean; sortOrder: number }>,
+  diag: DiagnosticsCollector
+) {
+  // Security: Validate minimum row size
+  if (rowBase + 20 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  // Playlist tree row: parent_id (u32), unknown (u32), sort_order (u32), id (u32), raw_is_folder (u32), name
+  const parentId = dataView.getUint32(rowBase, true);
+  const sortOrder = dataView.getUint32(rowBase + 8, true);
+  const id = dataView.getUint32(rowBase + 12, true);
+  const rawIsFolder = dataView.getUint32(rowBase + 16, true);
+  
+  // Security: Validate IDs are reasonable (getUint32 always returns 0-0xFFFFFFFF)
+  if (id === 0) {
+    diag.add('invalid-id', rowBase, `invalid playlist ID ${id}`);
+    return;
+  }
+  
+  const name = readDeviceSqlString(dataView, rowBase + 20, bufferLength, diag);
+  
+  if (name && id > 0) {
+    playlistTree.set(id, {
+      name,
+      parentId,
+      isFolder: rawIsFolder !== 0,
+      sortOrder
+    });
+  }
+}
+
+export function parsePlaylistEntryRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  playlistEntries: Map<number, { trackId: number; position: number }[]>,
+  diag: DiagnosticsCollector
+) {
+  // Security: Validate minimum row size
+  if (rowBase + 12 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  // Playlist entry row: entry_index (u32), track_id (u32), playlist_id (u32)
+  const entryIndex = dataView.getUint32(rowBase, true);
+  const trackId = dataView.getUint32(rowBase + 4, true);
+  const playlistId = dataView.getUint32(rowBase + 8, true);
+  
+  // Security: Validate IDs are reasonable and positive (getUint32 always returns 0-0xFFFFFFFF)
+  if (playlistId === 0) {
+    diag.add('invalid-id', rowBase, `invalid playlist ID ${playlistId}`);
+    return;
+  }
+  if (trackId === 0) {
+    diag.add('invalid-id', rowBase, `invalid track ID ${trackId}`);
+    return;
+  }
+  
+  if (playlistId > 0 && trackId > 0) {
+    if (!playlistEntries.has(playlistId)) {
+      playlistEntries.set(playlistId, []);
+    }
+    playlistEntries.get(playlistId)!.push({ trackId, position: entryIndex });
+  }
+}
+
+export function parseHistoryPlaylistRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  historyPlaylists: Map<number, string>,
+  diag: DiagnosticsCollector
+) {
+  // Security: Validate minimum row size
+  if (rowBase + 4 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  // History playlist row: id (u32), name (device_sql_string)
+  const id = dataView.getUint32(rowBase, true);
+  
+  if (id === 0) {
+    diag.add('invalid-id', rowBase, `invalid history playlist ID ${id}`);
+    return;
+  }
+  
+  const name = readDeviceSqlString(dataView, rowBase + 4, bufferLength, diag);
+  historyPlaylists.set(id, name || `History ${id}`);
+}
+
+export function parseHistoryEntryRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  historyEntries: Map<number, { trackId: number; position: number }[]>,
+  diag: DiagnosticsCollector
+) {
+  // Security: Validate minimum row size
+  if (rowBase + 12 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  // History entry row: track_id (u32), playlist_id (u32), entry_index (u32)
+  // Note the order differs from playlist_entry_row
+  const trackId = dataView.getUint32(rowBase, true);
+  const playlistId = dataView.getUint32(rowBase + 4, true);
+  const entryIndex = dataView.getUint32(rowBase + 8, true);
+  
+  if (playlistId === 0) {
+    diag.add('invalid-id', rowBase, `invalid history playlist ID ${playlistId}`);
+    return;
+  }
+  if (trackId === 0) {
+    diag.add('invalid-id', rowBase, `invalid track ID ${trackId}`);
+    return;
+  }
+  
+  if (!historyEntries.has(playlistId)) {
+    historyEntries.set(playlistId, []);
+  }
+  historyEntries.get(playlistId)!.push({ trackId, position: entryIndex });
+}
+
+export function parseTagRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  tagRows: Map<number, { name: string; categoryId: number; position: number; isCategory: boolean }>,
+  diag: DiagnosticsCollector
+) {
+  // Tag row (exportExt.pdb, kaitai tag_row):
+  // 0x00: subtype (u16) - 0x0680 observed
+  // 0x02: tag_index (u16)
+  // 0x04: unknown (8 bytes)
+  // 0x0C: category (u32) - parent category ID, 0 for a category
+  // 0x10: category_pos (u32) - position within the category, or of the category itself
+  // 0x14: id (u32)
+  // 0x18: raw_is_category (u32)
+  // 0x1C: 0x03 (u8)
+  // 0x1D: ofs_name_near (u8)
+  // 0x1E: ofs_unknown_near (u8)
+  // 0x1F: ofs_name_far (u16) - only when subtype & 0x04, same convention as artist rows
+  if (rowBase + 0x1F > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  const subtype = dataView.getUint16(rowBase, true);
+  const categoryId = dataView.getUint32(rowBase + 0x0C, true);
+  const position = dataView.getUint32(rowBase + 0x10, true);
+  const id = dataView.getUint32(rowBase + 0x14, true);
+  const rawIsCategory = dataView.getUint32(rowBase + 0x18, true);
+  
+  if (id === 0) {
+    diag.add('invalid-id', rowBase, `invalid tag ID ${id}`);
+    return;
+  }
+  
+  let nameOffset: number;
+  if ((subtype & 0x04) === 0x04) {
+    if (rowBase + 0x21 > bufferLength) {
+      diag.add('skipped-row', rowBase, `insufficient space for long offset at ${rowBase + 0x1F}`);
+      return;
+    }
+    nameOffset = dataView.getUint16(rowBase + 0x1F, true);
+  } else {
+    nameOffset = dataView.getUint8(rowBase + 0x1D);
+  }
+  
+  const name = nameOffset > 0 ? readDeviceSqlString(dataView, rowBase + nameOffset, bufferLength, diag) : '';
+  if (!name) return;
+  
+  tagRows.set(id, {
+    name,
+    categoryId,
+    position,
+    isCategory: rawIsCategory !== 0
+  });
+}
+
+export function parseTagTrackRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  trackTags: Map<number, number[]>,
+  diag: DiagnosticsCollector
+) {
+  // Tag-track row: unknown (u32, zero), track_id (u32), tag_id (u32), unknown (u32)
+  if (rowBase + 12 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  const trackId = dataView.getUint32(rowBase + 4, true);
+  const tagId = dataView.getUint32(rowBase + 8, true);
+  
+  if (trackId === 0 || tagId === 0) {
+    diag.add('invalid-id', rowBase, `invalid track ID ${trackId} or tag ID ${tagId}`);
+    return;
+  }
+  
+  const tags = trackTags.get(trackId) || [];
+  if (!tags.includes(tagId)) tags.push(tagId);
+  trackTags.set(trackId, tags);
+}
+
+export function parseTrackRow(
+  dataView: DataView,
+  rowBase: number,
+  bufferLength: number,
+  artists: Map<number, string>,
+  albums: Map<number, string>,
+  genres: Map<number, string>,
+  keys: Map<number, string>,
+  labels: Map<number, string>,
+  colors: Map<number, string>,
+  artwork: Map<number, string>,
+  trackData: Map<number, Track>,
+  diag: DiagnosticsCollector
+) {
+  // Track row structure (based on kaitai spec):
+  // 0x00: subtype (u16) - always 0x24
+  // 0x02: index_shift (u16)
+  // 0x04: bitmask (u32)
+  // 0x08: sample_rate (u32)
+  // 0x0C: composer_id (u32)
+  // 0x10: file_size (u32)
+  // 0x14: unknown (u32)
+  // 0x18: unknown (u16)
+  // 0x1A: unknown (u16)
+  // 0x1C: artwork_id (u32)
+  // 0x20: key_id (u32)
+  // 0x24: original_artist_id (u32)
+  // 0x28: label_id (u32)
+  // 0x2C: remixer_id (u32)
+  // 0x30: bitrate (u32)
+  // 0x34: track_number (u32)
+  // 0x38: tempo (u32) - BPM * 100
+  // 0x3C: genre_id (u32)
+  // 0x40: album_id (u32)
+  // 0x44: artist_id (u32)
+  // 0x48: id (u32)
+  // 0x4C: disc_number (u16)
+  // 0x4E: play_count (u16)
+  // 0x50: year (u16)
+  // 0x52: sample_depth (u16)
+  // 0x54: duration (u16)
+  // 0x56: unknown (u16)
+  // 0x58: color_id (u8)
+  // 0x59: rating (u8)
+  // 0x5A: unknown (u16)
+  // 0x5C: unknown (u16)
+  // 0x5E-0x86: ofs_strings[21] (u16 each, 42 bytes total)
+  // String offsets: [0]=isrc, [1]=texter (lyricist), [2-4]=unknown, [5]=message, [6]=kuvo_public,
+  // [7]=autoload_hotcues, [8-9]=unknown, [10]=date_added, [11]=release_date, [12]=mix_name,
+  // [13]=unknown, [14]=analyze_path, [15]=analyze_date, [16]=comment, [17]=title, [18]=unknown,
+  // [19]=filename, [20]=file_path
+
+  // Security: Validate minimum row size (0x86 = 134 bytes)
+  if (rowBase + 0x86 > bufferLength) {
+    diag.add('skipped-row', rowBase, `insufficient space at offset ${rowBase}`);
+    return;
+  }
+  
+  const tempo = dataView.getUint32(rowBase + 0x38, true);
+  const genreId = dataView.getUint32(rowBase + 0x3C, true);
+  const albumId = dataView.getUint32(rowBase + 0x40, true);
+  const artistId = dataView.getUint32(rowBase + 0x44, true);
+  const id = dataView.getUint32(rowBase + 0x48, true);
+  const duration = dataView.getUint16(rowBase + 0x54, true);
+  const rating = dataView.getUint8(rowBase + 0x59);
+  const bitrate = dataView.getUint32(rowBase + 0x30, true);
+  const keyId = dataView.getUint32(rowBase + 0x20, true);
+  const labelId = dataView.getUint32(rowBase + 0x28, true);
+  const year = dataView.getUint16(rowBase + 0x50, true);
+  const colorId = dataView.getUint8(rowBase + 0x58);
+  const artworkId = dataView.getUint32(rowBase + 0x1C, true);
+  const composerId = dataView.getUint32(rowBase + 0x0C, true);
+  const originalArtistId = dataView.getUint32(rowBase + 0x24, true);
+  const remixerId = dataView.getUint32(rowBase + 0x2C, true);
+  const trackNumber = dataView.getUint32(rowBase + 0x34, true);
+  const discNumber = dataView.getUint16(rowBase + 0x4C, true);
+  const sampleRate = dataView.getUint32(rowBase + 0x08, true);
+  const fileSize = dataView.getUint32(rowBase + 0x10, true);
+  const playCount = dataView.getUint16(rowBase + 0x4E, true);
+  const sampleDepth = dataView.getUint16(rowBase + 0x52, true);
+  
+  // Security: Validate IDs and values are reasonable (getUint32 always returns 0-0xFFFFFFFF)
+  if (id === 0) {
+    diag.add('invalid-id', rowBase, `invalid track ID ${id}`);
+    return;
+  }
+  
+  // Security: Validate tempo is reasonable (0-500 BPM range, stored as BPM * 100)
+  if (tempo > 50000) {
+    diag.add('skipped-row', rowBase, `invalid tempo ${tempo} for track ${id}`);
+    return;
+  }
+  
+  // Security: Validate duration is reasonable (0-10 hours in seconds, getUint16 always >= 0)
+  if (duration > 36000) {
+    diag.add('skipped-row', rowBase, `invalid duration ${duration} for track ${id}`);
+    return;
+  }
+  
+  // Security: Validate rating (0-5 range typical for Rekordbox, getUint8 always >= 0)
+  if (rating > 255) {
+    diag.add('skipped-row', rowBase, `invalid rating ${rating} for track ${id}`);
+    return;
+  }
+  
+  // Security: Validate bitrate is reasonable (0-10000 kbps, getUint32 always >= 0)
+  if (bitrate > 10000) {
+    diag.add('skipped-row', rowBase, `invalid bitrate ${bitrate} for track ${id}`);
+    return;
+  }
+  
+  // Read string offsets (21 u16 values starting at 0x5E)
+  const ofsStrings: number[] = [];
+  for (let i = 0; i < 21; i++) {
+    const offset = dataView.getUint16(rowBase + 0x5E + (i * 2), true);
+    
+    // Security: Validate offset is within reasonable range (getUint16 returns 0-65535)
+    if (offset > 10000) {
+      diag.add('bad-string', rowBase, `invalid string offset ${offset} at index ${i} for track ${id}`);
+      ofsStrings.push(0);
+    } else {
+      ofsStrings.push(offset);
+    }
+  }
+  
+  const readString = (index: number) =>
+    ofsStrings[index] > 0 ? readDeviceSqlString(dataView, rowBase + ofsStrings[index], bufferLength, diag) : '';
+  
+  const title = readString(17);
+  const filePath = readString(20);
+  const dateAddedStr = readString(10);
+  
+  // Only add if we have a valid ID and some meaningful data
+  if (id > 0) {
+    // Use the latest entry for each track ID (handles duplicates)
+    trackData.set(id, {
+      id,
+      title: title || 'Unknown Title',
+      artist: artists.get(artistId) || 'Unknown Artist',
+      album: albums.get(albumId) || 'Unknown Album',
+      genre: genres.get(genreId) || '',
+      duration: duration,
+      bpm: tempo / 100,
+      key: keys.get(keyId) || '',
+      label: labels.get(labelId) || '',
+      year: year,
+      colorId: colorId,
+      color: colorId > 0 ? (colors.get(colorId) || TRACK_COLORS.find(c => c.id === colorId)?.name || '') : '',
+      artworkId: artworkId,
+      artworkPath: artwork.get(artworkId) || '',
+      rating: rating,
+      bitrate: bitrate,
+      filePath: filePath,
+      dateAdded: dateAddedStr ? new Date(dateAddedStr) : new Date(),
+      composer: artists.get(composerId) || '',
+      originalArtist: artists.get(originalArtistId) || '',
+      remixer: artists.get(remixerId) || '',
+      lyricist: readString(1),
+      trackNumber: trackNumber,
+      discNumber: discNumber,
+      isrc: readString(0),
+      comment: readString(16),
+      mixName: readString(12),
+      message: readString(5),
+      releaseDate: readString(11),
+      fileName: readString(19),
+      analyzePath: readString(14),
+      analyzeDate: readString(15),
+      sampleRate: sampleRate,
+      sampleDepth: sampleDepth,
+      fileSize: fileSize,
+      playCount: playCount,
+      kuvoPublic: readString(6) === 'ON',
+      autoloadHotcues: readString(7) === 'ON'
+    });
+  }
+}
@@ -0,0 +1,306 @@
+import type { DiagnosticsCollector } from './diagnostics';
+
+export interface TableInfo {
+  type: number;
+  firstPage: number;
+  lastPage: number;
+}
+
+// File header and table pointers are shared by export.pdb and exportExt.pdb. A header
+// that can't be used is a 'bad-header' diagnostic and no tables, never an exception; the
+// callers decide whether that makes the file unreadable (see headerProblem).
+export function readPdbHeader(
+  buffer: ArrayBuffer | Uint8Array,
+  diag: DiagnosticsCollector
+): { dataView: DataView; bufferLength: number; lenPage: number; tables: TableInfo[] } {
+  const dataView = buffer instanceof Uint8Array
+    ? new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new DataView(buffer);
+  const bufferLength = dataView.byteLength;
+  const unusable = (message: string) => {
+    diag.add('bad-header', 0, message);
+    return { dataView, bufferLength, lenPage: 0, tables: [] };
+  };
+  
+  // Security: Validate minimum file size for header
+  if (bufferLength < 28) {
+    return unusable('File too small to be a valid Rekordbox database');
+  }
+  
+  // Parse file header
+  const lenPage = dataView.getUint32(4, true);
+  const numTables = dataView.getUint32(8, true);
+  
+  // Security: Validate numTables count (getUint32 is always >= 0)
+  if (numTables > 1000) {
+    return unusable(`Invalid number of tables: ${numTables}`);
+  }
+  
+  // Security: Validate lenPage (getUint32 is always >= 0)
+  if (lenPage < 512 || lenPage > 1024 * 1024) {
+    return unusable(`Invalid page length: ${lenPage}`);
+  }
+  
+  // Parse table pointers (starting at offset 28)
+  const tables: TableInfo[] = [];
+  let offset = 28;
+  for (let i = 0; i < numTables && offset + 16 <= bufferLength; i++) {
+    const type = dataView.getUint32(offset, true);
+    const firstPage = dataView.getUint32(offset + 8, true);
+    const lastPage = dataView.getUint32(offset + 12, true);
+    
+    // Security: Validate page indices
+    if (firstPage > bufferLength / lenPage || lastPage > bufferLength / lenPage) {
+      diag.tableType = type;
+      diag.add('bad-table', offset, `invalid page indices for table ${i}: first=${firstPage}, last=${lastPage}`);
+      diag.tableType = null;
+      offset += 16;
+      continue;
+    }
+    
+    tables.push({ type, firstPage, lastPage });
+    offset += 16;
+  }
+
+  return { dataView, bufferLength, lenPage, tables };
+}
+
+// Where a row sits in its page's row index, for the writer's in-place edits
+export interface RowLocation {
+  pageOffset: number;
+  presentFlagsOffset: number;
+  presentBit: number;
+}
+
+export function parseTablePages(
+  dataView: DataView, 
+  table: TableInfo, 
+  lenPage: number, 
+  bufferLength: number,
+  diag: DiagnosticsCollector,
+  rowCallback: (rowBase: number, pageType: number, location: RowLocation) => void,
+  onPage?: () => void
+) {
+  let pageIndex = table.firstPage;
+  const visitedPages = new Set<number>();
+  diag.tableType = table.type;
+  diag.page = pageIndex;
+  
+  // Security: Validate initial page index (getUint32 is always >= 0)
+  if (pageIndex * lenPage >= bufferLength) {
+    diag.add('broken-chain', null, `invalid initial page index ${pageIndex}`);
+    diag.tableType = diag.page = null;
+    return;
+  }
+  
+  while (pageIndex > 0 && !visitedPages.has(pageIndex)) {
+    visitedPages.add(pageIndex);
+    const pageOffset = pageIndex * lenPage;
+    diag.page = pageIndex;
+    
+    // Security: Validate page offset and ensure full page is within bounds
+    if (pageOffset + lenPage > bufferLength) {
+      diag.add('broken-chain', pageOffset, `page ${pageIndex} offset ${pageOffset} out of bounds`);
+      break;
+    }
+    
+    // Security: Check minimum page size for header (40 bytes)
+    if (pageOffset + 40 > bufferLength) {
+      diag.add('broken-chain', pageOffset, `insufficient space for page header at offset ${pageOffset}`);
+      break;
+    }
+    
+    // Parse page header
+    // Bytes 0-3: gap (zeros)
+    // Bytes 4-7: page_index
+    // Bytes 8-11: type
+    // Bytes 12-15: next_page index
+    // Bytes 16-19: sequence
+    // Bytes 20-23: unknown
+    // Bytes 24-26: packed bits (num_row_offsets: 13 bits, num_rows: 11 bits)
+    // Byte 27: page_flags
+    
+    const pageType = dataView.getUint32(pageOffset + 8, true);
+    const nextPageIndex = dataView.getUint32(pageOffset + 12, true);
+    onPage?.();
+    
+    // Read the packed bits for row counts
+    const packedRowInfo = dataView.getUint32(pageOffset + 24, true);
+    const numRowOffsets = packedRowInfo & 0x1FFF; // Lower 13 bits (always >= 0)
+    const pageFlags = dataView.getUint8(pageOffset + 27);
+    
+    // Security: Validate numRowOffsets is reasonable
+    if (numRowOffsets > 2000) {
+      diag.add('bad-page', pageOffset, `invalid numRowOffsets ${numRowOffsets} at page ${pageIndex}`);
+      break;
+    }
+    
+    // Check if this is a data page (bit 0x40 not set means it's a data page)
+    const isDataPage = (pageFlags & 0x40) === 0;
+    
+    if (isDataPage && pageType === table.type && numRowOffsets > 0) {
+      // Row index is built backwards from end of page
+      // Each row group can hold up to 16 rows
+      const numRowGroups = Math.ceil(numRowOffsets / 16);
+      const heapPos = pageOffset + 40; // Data starts after 40-byte header
+      
+      for (let groupIndex = 0; groupIndex < numRowGroups; groupIndex++) {
+        const groupBase = pageOffset + lenPage - (groupIndex * 0x24);
+        
+        // Security: Validate groupBase is within page bounds
+        if (groupBase < pageOffset || groupBase > pageOffset + lenPage) {
+          diag.add('skipped-row', groupBase, `invalid groupBase ${groupBase} for group ${groupIndex}`);
+          continue;
+        }
+        
+        // Row present flags at groupBase - 4
+        if (groupBase - 4 < pageOffset + 40) continue;
+        const rowPresentFlags = dataView.getUint16(groupBase - 4, true);
+        
+        // Parse up to 16 rows in this group
+        for (let rowIndex = 0; rowIndex < 16; rowIndex++) {
+          // Check if this row is present
+          const isPresent = ((rowPresentFlags >> rowIndex) & 1) !== 0;
+          if (!isPresent) continue;
+          
+          // Row offset is at groupBase - 6 - (rowIndex * 2)
+          const ofsRowPos = groupBase - 6 - (rowIndex * 2);
+          
+          // Security: Validate ofsRowPos is within bounds
+          if (ofsRowPos < pageOffset + 40 || ofsRowPos + 2 > pageOffset + lenPage) {
+            diag.add('skipped-row', ofsRowPos, `invalid ofsRowPos ${ofsRowPos} for row ${rowIndex}`);
+            continue;
+          }
+          
+          const ofsRow = dataView.getUint16(ofsRowPos, true);
+          const rowBase = heapPos + ofsRow;
+          
+          // Security: Validate rowBase is within page bounds
+          if (rowBase < pageOffset + 40 || rowBase >= pageOffset + lenPage) {
+            diag.add('skipped-row', rowBase, `invalid rowBase ${rowBase} for row ${rowIndex}`);
+            continue;
+          }
+          
+          try {
+            rowCallback(rowBase, pageType, { pageOffset, presentFlagsOffset: groupBase - 4, presentBit: rowIndex });
+          } catch (error) {
+            // Skip malformed rows
+            diag.add('skipped-row', rowBase, `error parsing row: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
+    }
+    
+    // Move to next page
+    // Security: Validate nextPageIndex (getUint32 is always >= 0)
+    if (nextPageIndex === 0 || nextPageIndex >= bufferLength / lenPage) {
+      break;
+    }
+    if (pageIndex === table.lastPage) break;
+    
+    // Security: Prevent infinite loops
+    if (visitedPages.has(nextPageIndex)) {
+      diag.add('broken-chain', pageOffset + 12, `next_page ${nextPageIndex} loops back before reaching last page ${table.lastPage}`);
+      break;
+    }
+    if (visitedPages.size > 10000) {
+      diag.add('broken-chain', pageOffset + 12, 'too many pages visited, possible infinite loop');
+      break;
+    }
+    
+    pageIndex = nextPageIndex;
+  }
+  diag.tableType = diag.page = null;
+}
+
+// Walks a table's page chain without reading rows, using the same guards as parseTablePages
+export function countTablePages(dataView: DataView, table: TableInfo, lenPage: number, bufferLength: number): number {
+  const visitedPages = new Set<number>();
+  let pageIndex = table.firstPage;
+  
+  while (pageIndex > 0 && !visitedPages.has(pageIndex) && visitedPages.size <= 10000) {
+    const pageOffset = pageIndex * lenPage;
+    if (pageOffset + lenPage > bufferLength) break;
+    visitedPages.add(pageIndex);
+    
+    const nextPageIndex = dataView.getUint32(pageOffset + 12, true);
+    if (nextPageIndex === 0 || nextPageIndex >= bufferLength / lenPage) break;
+    if (pageIndex === table.lastPage) break;
+    pageIndex = nextPageIndex;
+  }
+  
+  return visitedPages.size;
+}
+
+// Page layout: a 0x28-byte header, the row heap, and the row index growing back from the
+// end of the page in groups of 16 offsets plus present/transaction flags
+export const PAGE_HEADER_SIZE = 0x28;
+export const ROW_GROUP_SIZE = 0x24;
+export const ROWS_PER_GROUP = 16;
+export const PAGE_FLAG_NON_DATA = 0x40;
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+// Splits rows into pages for the writers. Rows start 4-byte aligned (their bodies open
+// with u32s), and every started group reserves its full 0x24 bytes of index. A table with
+// no rows still gets one empty page so its chain has somewhere to point.
+export function packRows(rows: Uint8Array[], lenPage: number, maxRowsPerPage = Infinity): Uint8Array[][] {
+  const space = lenPage - PAGE_HEADER_SIZE;
+  const pages: Uint8Array[][] = [];
+  let current: Uint8Array[] = [];
+  let heap = 0;
+
+  for (const row of rows) {
+    if (row.length + ROW_GROUP_SIZE > space) throw new Error(`A ${row.length}-byte row does not fit in a page.`);
+    let start = align4(heap);
+    const groups = Math.ceil((current.length + 1) / ROWS_PER_GROUP);
+    const full = start + row.length + groups * ROW_GROUP_SIZE > space || start > 0xffff || current.length >= maxRowsPerPage;
+    if (current.length > 0 && full) {
+      pages.push(current);
+      current = [];
+      start = 0;
+    }
+    current.push(row);
+    heap = start + row.length;
+  }
+  pages.push(current);
+  return pages;
+}
+
+export interface PageFields {
+  index: number;
+  type: number;
+  nextPage: number;
+  sequence: number;
+  flags: number;
+}
+
+export function encodePage(rows: Uint8Array[], lenPage: number, fields: PageFields): Uint8Array {
+  const page = new Uint8Array(lenPage);
+  const view = new DataView(page.buffer);
+  view.setUint32(4, fields.index, true);
+  view.setUint32(8, fields.type, true);
+  view.setUint32(0x0c, fields.nextPage, true);
+  view.setUint32(0x10, fields.sequence, true);
+
+  let heap = 0;
+  rows.forEach((row, i) => {
+    const offset = align4(heap);
+    page.set(row, PAGE_HEADER_SIZE + offset);
+    heap = offset + row.length;
+
+    const groupBase = lenPage - Math.floor(i / ROWS_PER_GROUP) * ROW_GROUP_SIZE;
+    const slot = i % ROWS_PER_GROUP;
+    view.setUint16(groupBase - 6 - slot * 2, offset, true);
+    view.setUint16(groupBase - 4, view.getUint16(groupBase - 4, true) | (1 << slot), true);
+  });
+
+  const groups = Math.ceil(rows.length / ROWS_PER_GROUP);
+  // num_row_offsets (13 bits), num_rows (11 bits), page_flags (top byte)
+  view.setUint32(0x18, (rows.length | (rows.length << 13) | (fields.flags << 24)) >>> 0, true);
+  view.setUint16(0x1c, lenPage - PAGE_HEADER_SIZE - heap - groups * ROW_GROUP_SIZE, true);
+  view.setUint16(0x1e, heap, true);
+  return page;
+}
@@ -1,9 +1,30 @@
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { Track } from '@/types/rekordbox';
-import { formatDuration, formatBpm } from '@/lib/rekordbox-parser';
+import autoTable, { type RowInput } from 'jspdf-autotable';
+import { Track, Cue } from '@/types/rekordbox';
+import { formatDuration, formatBpm, formatCueTime } from '@/lib/rekordbox-parser';
+import { cueLabel } from '@/lib/anlz/cues';
+import { formatKey, type KeyNotation } from '@/lib/keys';
+import { formatBpmChange, formatKeyChange, type Transition } from '@/lib/mixing';
+import { HEALTH_ISSUE_LABELS, type HealthReport, type HealthSeverity } from '@/lib/drive-health';
 
-export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenColumns: string[] = []) {
+export interface PdfExportOptions {
+  // When given, a "Cue lists" section follows the track table with every track's cues,
+  // so prep can be checked before a gig. Tracks missing from the map print "No cues".
+  cueLists?: Map<number, Cue[]>;
+  // Notation for the Key column; keys are printed as stored when not given
+  keyNotation?: KeyNotation;
+  // A running order's transitions (transitions[i] is from track i into track i + 1) and
+  // its overall score: adds "#", BPM change, key change and score columns, and the score
+  // under the title
+  runningOrder?: { transitions: Transition[]; score: number };
+}
+
+export function exportTracksToPdf(
+  tracks: Track[],
+  playlistName: string,
+  hiddenColumns: string[] = [],
+  options: PdfExportOptions = {}
+) {
   const doc = new jsPDF();
   
   // Title
@@ -12,7 +33,8 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
   
   doc.setFontSize(11);
   doc.setTextColor(100);
-  doc.text(`Total Tracks: ${tracks.length}`, 14, 30);
+  const summary = `Total Tracks: ${tracks.length}`;
+  doc.text(options.runningOrder ? `${summary} · Set score: ${options.runningOrder.score}/100` : summary, 14, 30);
   
   const allColumns = [
     { key: 'title', title: "Title" },
@@ -20,9 +42,18 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
     { key: 'album', title: "Album" },
     { key: 'genre', title: "Genre" },
     { key: 'bpm', title: "BPM" },
+    { key: 'key', title: "Key" },
     { key: 'label', title: "Label" },
     { key: 'year', title: "Year" },
-    { key: 'duration', title: "Duration" }
+    { key: 'duration', title: "Duration" },
+    { key: 'remixer', title: "Remixer" },
+    { key: 'mixName', title: "Mix Name" },
+    { key: 'originalArtist', title: "Original Artist" },
+    { key: 'composer', title: "Composer" },
+    { key: 'comment', title: "Comment" },
+    { key: 'isrc', title: "ISRC" },
+    { key: 'trackNumber', title: "Track #" },
+    { key: 'discNumber', title: "Disc #" }
   ];
 
   // Filter columns
@@ -32,11 +63,17 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
     mandatoryKeys.includes(col.key) || !hiddenColumns.includes(col.key)
   );
 
+  const { runningOrder } = options;
   const tableColumn = visibleColumns.map(col => col.title);
+  if (runningOrder) {
+    tableColumn.unshift("#");
+    tableColumn.push("BPM Change", "Key Change", "Score");
+  }
   const tableRows: string[][] = [];
 
-  tracks.forEach(track => {
+  tracks.forEach((track, index) => {
     const rowData: string[] = [];
+    if (runningOrder) rowData.push(String(index + 1));
     visibleColumns.forEach(col => {
       switch (col.key) {
         case 'title':
@@ -54,6 +91,9 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
         case 'bpm':
           rowData.push(formatBpm(track.bpm));
           break;
+        case 'key':
+          rowData.push(options.keyNotation ? formatKey(track.key, options.keyNotation) : track.key);
+          break;
         case 'label':
           rowData.push(track.label || "");
           break;
@@ -63,8 +103,29 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
         case 'duration':
           rowData.push(formatDuration(track.duration));
           break;
+        case 'remixer':
+        case 'mixName':
+        case 'originalArtist':
+        case 'composer':
+        case 'comment':
+        case 'isrc':
+          rowData.push(track[col.key] || "");
+          break;
+        case 'trackNumber':
+        case 'discNumber':
+          rowData.push(track[col.key] ? track[col.key]!.toString() : "");
+          break;
       }
     });
+    if (runningOrder) {
+      // The last track has nothing to go into
+      const transition = runningOrder.transitions[index];
+      rowData.push(
+        transition ? formatBpmChange(transition) : "",
+        transition ? formatKeyChange(transition) : "",
+        transition ? String(transition.score) : ""
+      );
+    }
     tableRows.push(rowData);
   });
 
@@ -76,5 +137,89 @@ export function exportTracksToPdf(tracks: Track[], playlistName: string, hiddenC
     headStyles: { fillColor: [41, 128, 185] },
   });
 
+  if (options.cueLists) {
+    addCueLists(doc, tracks, options.cueLists);
+  }
+
   doc.save(`${playlistName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`);
 }
+
+
+function addCueLists(doc: jsPDF, tracks: Track[], cueLists: Map<number, Cue[]>) {
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text("Cue lists", 14, 22);
+
+  // One table with a spanning header row per track keeps page breaks to autoTable
+  const rows: RowInput[] = [];
+  tracks.forEach((track, index) => {
+    rows.push([{
+      content: `${index + 1}. ${track.artist || "Unknown"} - ${track.title || "Unknown"}`,
+      colSpan: 4,
+      styles: { fontStyle: 'bold', fillColor: [230, 236, 241] }
+    }]);
+
+    const cues = cueLists.get(track.id) ?? [];
+    if (cues.length === 0) {
+      rows.push([{ content: "No cues", colSpan: 4, styles: { textColor: [150, 150, 150] } }]);
+    }
+    cues.forEach(cue => {
+      rows.push([
+        cueLabel(cue),
+        formatCueTime(cue.timeMs),
+        cue.loopEndMs !== undefined ? formatCueTime(cue.loopEndMs) : "",
+        cue.comment
+      ]);
+    });
+  });
+
+  autoTable(doc, {
+    head: [["Cue", "Time", "Loop End", "Comment"]],
+    body: rows,
+    startY: 28,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [41, 128, 185] },
+    columnStyles: { 0: { cellWidth: 30 }, 1: { cellWidth: 20 }, 2: { cellWidth: 20 } },
+  });
+}
+
+const SEVERITY_COLORS: Record<HealthSeverity, [number, number, number]> = {
+  error: [192, 57, 43],
+  warning: [211, 134, 0],
+  info: [100, 100, 100],
+};
+
+// The drive check as a printable checklist, most serious problems first
+export function exportHealthReportToPdf(report: HealthReport, driveName: string) {
+  const doc = new jsPDF();
+
+  doc.setFontSize(18);
+  doc.text(`Drive check: ${driveName}`, 14, 22);
+
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  const scope = report.files === null ? 'database only, no drive folder open' : `${report.files} files on the drive`;
+  doc.text(`${new Date().toLocaleString()} · ${report.tracks} tracks · ${scope} · ${report.issues.length} problems`, 14, 30);
+
+  if (report.issues.length === 0) {
+    doc.setTextColor(0);
+    doc.text("No problems found.", 14, 42);
+  } else {
+    autoTable(doc, {
+      head: [["Severity", "Problem", "Item", "Detail"]],
+      body: report.issues.map(issue => [
+        { content: issue.severity.toUpperCase(), styles: { textColor: SEVERITY_COLORS[issue.severity], fontStyle: 'bold' } },
+        HEALTH_ISSUE_LABELS[issue.kind],
+        issue.subject,
+        issue.detail,
+      ]),
+      startY: 35,
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [41, 128, 185] },
+      columnStyles: { 0: { cellWidth: 20 }, 1: { cellWidth: 40 } },
+    });
+  }
+
+  doc.save(`drive-check-${new Date().toISOString().split('T')[0]}.pdf`);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { buildPlusDatabase, type PlusTables } from "./database";
+
+const tables: PlusTables = {
+  content: [
+    { content_id: 1, title: "Opener", artist_id_artist: 10, artist_id_remixer: 11, album_id: 20, genre_id: 30, key_id: 40, color_id: 5, image_id: 50, bpmx100: 12250, length: 361, dateAdded: "2024-03-01", path: "/Contents/a.mp3", analysisDataFilePath: "/PIONEER/USBANLZ/P001/00000001/ANLZ0000.DAT" },
+    { content_id: 2, title: "Closer", artist_id_artist: 11, bpmx100: 9000, length: 245, dateAdded: null },
+    { content_id: null, title: "Broken" }
+  ],
+  artist: [{ artist_id: 10, name: "First" }, { artist_id: 11, name: "Second" }],
+  album: [{ album_id: 20, name: "LP" }],
+  genre: [{ genre_id: 30, name: "House" }],
+  key: [{ key_id: 40, name: "8A" }],
+  color: [{ color_id: 5, name: "Green" }],
+  image: [{ image_id: 50, path: "/PIONEER/Artwork/00001/a1.jpg" }],
+  playlist: [
+    { playlist_id: 3, sequenceNo: 1, name: "Warm-up", attribute: 0, playlist_id_parent: 1 },
+    { playlist_id: 1, sequenceNo: 0, name: "Gigs", attribute: 1, playlist_id_parent: 0 },
+    { playlist_id: 2, sequenceNo: 0, name: "Peak", attribute: 0, playlist_id_parent: 1 }
+  ],
+  playlist_content: [
+    { playlist_id: 2, content_id: 2, sequenceNo: 2 },
+    { playlist_id: 2, content_id: 1, sequenceNo: 1 }
+  ],
+  history: [{ history_id: 7, name: "HISTORY 2024-05-03", attribute: 0 }],
+  history_content: [{ history_id: 7, content_id: 1, sequenceNo: 1 }],
+  myTag: [
+    { myTag_id: 100, sequenceNo: 0, name: "Situation", attribute: 1, myTag_id_parent: 0 },
+    { myTag_id: 101, sequenceNo: 1, name: "Opener", attribute: 0, myTag_id_parent: 100 }
+  ],
+  myTag_content: [{ myTag_id: 101, content_id: 1 }]
+};
+
+describe("Device Library Plus mapping", () => {
+  it("maps content rows onto tracks", () => {
+    const db = buildPlusDatabase(tables);
+
+    expect(db.tracks).toHaveLength(2);
+    expect(db.tracks[0]).toMatchObject({
+      id: 1,
+      title: "Opener",
+      artist: "First",
+      remixer: "Second",
+      album: "LP",
+      genre: "House",
+      key: "8A",
+      color: "Green",
+      bpm: 122.5,
+      duration: 361,
+      artworkPath: "/PIONEER/Artwork/00001/a1.jpg",
+      analyzePath: "/PIONEER/USBANLZ/P001/00000001/ANLZ0000.DAT",
+      myTags: ["Opener"]
+    });
+    expect(db.diagnostics.entries.map(d => [d.kind, d.table])).toEqual([["invalid-id", "content"]]);
+  });
+
+  it("builds the playlist tree in sequence order", () => {
+    const db = buildPlusDatabase(tables);
+
+    expect(db.playlists.map(p => p.name)).toEqual(["Gigs"]);
+    expect(db.playlists[0].children.map(p => p.name)).toEqual(["Peak", "Warm-up"]);
+    expect(db.playlists[0].children[0].trackIds).toEqual([1, 2]);
+    expect(db.history[0].children[0]).toMatchObject({ name: "HISTORY 2024-05-03", trackIds: [1] });
+    expect(db.myTagCategories).toEqual([{ id: 100, name: "Situation", tags: [{ id: 101, name: "Opener", categoryId: 100 }] }]);
+  });
+
+  it("reports missing optional tables and rejects a file without content", () => {
+    expect(buildPlusDatabase({ content: [] }).diagnostics.entries.map(d => d.table)).toEqual(["playlist"]);
+    expect(() => buildPlusDatabase({ artist: [] })).toThrow(/no content table/);
+  });
+});
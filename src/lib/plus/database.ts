@@ -0,0 +1,249 @@
+import type { MyTagCategory, Playlist, RekordboxDatabase, Track, TrackColor } from '../../types/rekordbox';
+import { createDiagnosticsCollector, type DiagnosticsCollector } from '../pdb/diagnostics';
+import { buildHistoryTree } from '../pdb/database';
+import { TRACK_COLORS } from '../pdb/rows';
+
+// Device Library Plus (PIONEER/DeviceLibraryPlus/exportLibrary.db) is plain SQLite once
+// decrypted. The schema is undocumented; the column names below are the ones rekordbox 6.8
+// and 7 exports use. Rows are read with SELECT * and mapped by name, so a renamed or
+// missing column leaves that field empty instead of failing the load.
+
+export type PlusValue = string | number | null;
+export type PlusRow = Record<string, PlusValue>;
+export type PlusTables = Partial<Record<PlusTableName, PlusRow[]>>;
+
+export const PLUS_TABLES = [
+  'content',
+  'artist',
+  'album',
+  'genre',
+  'label',
+  'key',
+  'color',
+  'image',
+  'playlist',
+  'playlist_content',
+  'history',
+  'history_content',
+  'myTag',
+  'myTag_content'
+] as const;
+
+export type PlusTableName = typeof PLUS_TABLES[number];
+
+// Without these there is no library to show; the rest only add detail
+const REQUIRED_TABLES: PlusTableName[] = ['content'];
+
+// playlist.attribute / myTag.attribute: 1 marks a folder (a MyTag category)
+const ATTRIBUTE_FOLDER = 1;
+
+const TABLE_NAMES: Record<number, string> = Object.fromEntries(PLUS_TABLES.map((name, i) => [i, name]));
+
+function text(row: PlusRow, column: string): string {
+  const value = row[column];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function int(row: PlusRow, column: string): number {
+  const value = Number(row[column] ?? 0);
+  return Number.isFinite(value) ? Math.trunc(value) : 0;
+}
+
+function optionalText(row: PlusRow, column: string): string | undefined {
+  return text(row, column) || undefined;
+}
+
+function optionalInt(row: PlusRow, column: string): number | undefined {
+  return int(row, column) || undefined;
+}
+
+// id -> name lookups for the small reference tables
+function names(tables: PlusTables, table: PlusTableName, idColumn: string, nameColumn = 'name'): Map<number, string> {
+  return new Map((tables[table] ?? []).map(row => [int(row, idColumn), text(row, nameColumn)]));
+}
+
+function rowsOf(tables: PlusTables, table: PlusTableName, diag: DiagnosticsCollector): PlusRow[] {
+  const rows = tables[table];
+  if (!rows) {
+    diag.tableType = PLUS_TABLES.indexOf(table);
+    diag.add('bad-table', null, `table ${table} is missing from exportLibrary.db`);
+    diag.tableType = null;
+  }
+  return rows ?? [];
+}
+
+function buildTracks(tables: PlusTables, diag: DiagnosticsCollector): Track[] {
+  const artists = names(tables, 'artist', 'artist_id');
+  const albums = names(tables, 'album', 'album_id');
+  const genres = names(tables, 'genre', 'genre_id');
+  const labels = names(tables, 'label', 'label_id');
+  const keys = names(tables, 'key', 'key_id');
+  const colors = names(tables, 'color', 'color_id');
+  const images = names(tables, 'image', 'image_id', 'path');
+
+  const tracks: Track[] = [];
+  const rows = rowsOf(tables, 'content', diag);
+  diag.tableType = PLUS_TABLES.indexOf('content');
+  rows.forEach((row, index) => {
+    const id = int(row, 'content_id');
+    if (id <= 0) {
+      diag.add('invalid-id', null, `content row ${index} has ID ${text(row, 'content_id') || 'null'}`);
+      return;
+    }
+
+    const colorId = int(row, 'color_id');
+    const imageId = int(row, 'image_id');
+    const dateAdded = new Date(text(row, 'dateAdded'));
+    tracks.push({
+      id,
+      title: text(row, 'title'),
+      artist: artists.get(int(row, 'artist_id_artist')) ?? '',
+      album: albums.get(int(row, 'album_id')) ?? '',
+      genre: genres.get(int(row, 'genre_id')) ?? '',
+      duration: int(row, 'length'),
+      bpm: int(row, 'bpmx100') / 100,
+      key: keys.get(int(row, 'key_id')) ?? '',
+      rating: int(row, 'rating'),
+      bitrate: int(row, 'bitrate'),
+      filePath: text(row, 'path'),
+      dateAdded: isNaN(dateAdded.getTime()) ? new Date() : dateAdded,
+      label: labels.get(int(row, 'label_id')) || undefined,
+      year: optionalInt(row, 'releaseYear'),
+      colorId,
+      color: colors.get(colorId) || TRACK_COLORS.find(c => c.id === colorId)?.name,
+      artworkId: imageId || undefined,
+      artworkPath: images.get(imageId) || undefined,
+      composer: artists.get(int(row, 'artist_id_composer')) || undefined,
+      originalArtist: artists.get(int(row, 'artist_id_originalArtist')) || undefined,
+      remixer: artists.get(int(row, 'artist_id_remixer')) || undefined,
+      lyricist: artists.get(int(row, 'artist_id_lyricist')) || undefined,
+      trackNumber: optionalInt(row, 'trackNo'),
+      discNumber: optionalInt(row, 'discNo'),
+      isrc: optionalText(row, 'isrc'),
+      comment: optionalText(row, 'djComment'),
+      mixName: optionalText(row, 'subtitle'),
+      releaseDate: optionalText(row, 'releaseDate'),
+      fileName: optionalText(row, 'fileName'),
+      analyzePath: optionalText(row, 'analysisDataFilePath'),
+      sampleRate: optionalInt(row, 'samplingRate'),
+      sampleDepth: optionalInt(row, 'bitDepth'),
+      fileSize: optionalInt(row, 'fileSize'),
+      playCount: int(row, 'djPlayCount'),
+      kuvoPublic: int(row, 'isKuvoDeliverStatusOn') === 1,
+      autoloadHotcues: int(row, 'isHotCueAutoLoadOn') === 1
+    });
+  });
+  diag.tableType = null;
+  return tracks;
+}
+
+// playlist_content / history_content rows grouped by their list, in play order
+function entriesByList(rows: PlusRow[], listColumn: string): Map<number, { trackId: number; position: number }[]> {
+  const grouped = new Map<number, { trackId: number; position: number }[]>();
+  for (const row of rows) {
+    const list = int(row, listColumn);
+    if (!grouped.has(list)) grouped.set(list, []);
+    grouped.get(list)!.push({ trackId: int(row, 'content_id'), position: int(row, 'sequenceNo') });
+  }
+  grouped.forEach(entries => entries.sort((a, b) => a.position - b.position));
+  return grouped;
+}
+
+function buildPlaylists(tables: PlusTables, diag: DiagnosticsCollector): Playlist[] {
+  const entries = entriesByList(tables.playlist_content ?? [], 'playlist_id');
+  const rows = [...rowsOf(tables, 'playlist', diag)].sort((a, b) => int(a, 'sequenceNo') - int(b, 'sequenceNo'));
+
+  const playlists = new Map<number, Playlist>();
+  for (const row of rows) {
+    const id = int(row, 'playlist_id');
+    const parentId = int(row, 'playlist_id_parent');
+    playlists.set(id, {
+      id,
+      name: text(row, 'name'),
+      parentId: parentId === 0 ? null : parentId,
+      isFolder: int(row, 'attribute') === ATTRIBUTE_FOLDER,
+      children: [],
+      trackIds: (entries.get(id) ?? []).map(e => e.trackId)
+    });
+  }
+
+  // Rows are in sequence order, so children end up in order too. A parent that doesn't
+  // exist puts the playlist at the top level rather than losing it.
+  const roots: Playlist[] = [];
+  playlists.forEach(playlist => {
+    const parent = playlist.parentId !== null ? playlists.get(playlist.parentId) : undefined;
+    if (parent) {
+      parent.children.push(playlist);
+    } else {
+      playlist.parentId = null;
+      roots.push(playlist);
+    }
+  });
+  return roots;
+}
+
+function buildHistory(tables: PlusTables): Playlist[] {
+  const entries = entriesByList(tables.history_content ?? [], 'history_id');
+
+  // Only sessions; the folders rekordbox keeps them in are rebuilt by year like export.pdb's
+  const sessions = new Map<number, string>();
+  for (const row of tables.history ?? []) {
+    if (int(row, 'attribute') !== ATTRIBUTE_FOLDER) sessions.set(int(row, 'history_id'), text(row, 'name'));
+  }
+  return buildHistoryTree(sessions, entries);
+}
+
+function buildMyTags(tables: PlusTables, tracks: Track[]): MyTagCategory[] {
+  const rows = [...(tables.myTag ?? [])].sort((a, b) => int(a, 'sequenceNo') - int(b, 'sequenceNo'));
+  const categories = rows
+    .filter(row => int(row, 'attribute') === ATTRIBUTE_FOLDER)
+    .map(row => ({ id: int(row, 'myTag_id'), name: text(row, 'name'), tags: [] as MyTagCategory['tags'] }));
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+
+  const tagNames = new Map<number, string>();
+  for (const row of rows) {
+    const category = categoryById.get(int(row, 'myTag_id_parent'));
+    if (!category || int(row, 'attribute') === ATTRIBUTE_FOLDER) continue;
+    const tag = { id: int(row, 'myTag_id'), name: text(row, 'name'), categoryId: category.id };
+    category.tags.push(tag);
+    tagNames.set(tag.id, tag.name);
+  }
+
+  const tagsByTrack = new Map<number, number[]>();
+  for (const row of tables.myTag_content ?? []) {
+    const tagId = int(row, 'myTag_id');
+    if (!tagNames.has(tagId)) continue;
+    const trackId = int(row, 'content_id');
+    if (!tagsByTrack.has(trackId)) tagsByTrack.set(trackId, []);
+    tagsByTrack.get(trackId)!.push(tagId);
+  }
+  for (const track of tracks) {
+    const tagIds = tagsByTrack.get(track.id);
+    if (!tagIds) continue;
+    track.myTagIds = tagIds;
+    track.myTags = tagIds.map(id => tagNames.get(id)!);
+  }
+
+  return categories;
+}
+
+export function buildPlusDatabase(tables: PlusTables, fileName = 'exportLibrary.db'): RekordboxDatabase {
+  const diag = createDiagnosticsCollector(fileName, TABLE_NAMES);
+  for (const table of REQUIRED_TABLES) {
+    if (!tables[table]) throw new Error(`exportLibrary.db has no ${table} table; this does not look like a Device Library Plus export.`);
+  }
+
+  const tracks = buildTracks(tables, diag);
+  const playlists = buildPlaylists(tables, diag);
+  const colorNames = names(tables, 'color', 'color_id');
+  const colors: TrackColor[] = TRACK_COLORS.map(c => ({ id: c.id, name: colorNames.get(c.id) || c.name }));
+
+  return {
+    tracks,
+    playlists,
+    history: buildHistory(tables),
+    colors,
+    myTagCategories: buildMyTags(tables, tracks),
+    diagnostics: diag.result()
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import SQLiteESMFactory from "@journeyapps/wa-sqlite/dist/mc-wa-sqlite.mjs";
+import * as SQLite from "@journeyapps/wa-sqlite";
+import { MemoryVFS } from "@journeyapps/wa-sqlite/src/examples/MemoryVFS.js";
+import { PlusKeyError, readPlusTables } from "./sqlcipher";
+
+// The browser build fetches its .wasm next to the script; hand it the bytes instead
+const wasmBinary = readFileSync(resolve("node_modules/@journeyapps/wa-sqlite/dist/mc-wa-sqlite.wasm"));
+vi.mock("@journeyapps/wa-sqlite/dist/mc-wa-sqlite.mjs", async importOriginal => {
+  const actual = await importOriginal<{ default: (module?: object) => Promise<unknown> }>();
+  return { default: (module: object = {}) => actual.default({ ...module, wasmBinary }) };
+});
+
+// A small exportLibrary.db encrypted the way rekordbox does it (SQLCipher 4 defaults)
+async function encryptedLibrary(key: string): Promise<ArrayBuffer> {
+  const module = await SQLiteESMFactory();
+  const sqlite3 = SQLite.Factory(module);
+  const vfs = new MemoryVFS("fixture-memory", module);
+  await vfs.isReady();
+  sqlite3.vfs_register(vfs, false);
+  module.ccall("sqlite3mc_vfs_create", "number", ["string", "number"], [vfs.name, 0]);
+
+  // SQLITE_OPEN_READWRITE | SQLITE_OPEN_CREATE
+  const db = await sqlite3.open_v2("fixture.db", 0x2 | 0x4, `multipleciphers-${vfs.name}`);
+  await sqlite3.exec(db, `PRAGMA cipher = 'sqlcipher'; PRAGMA legacy = 4; PRAGMA key = '${key.replace(/'/g, "''")}';`);
+  await sqlite3.exec(db, `
+    CREATE TABLE content (content_id INTEGER PRIMARY KEY, title TEXT, artist_id_artist INTEGER, bpmx100 INTEGER);
+    CREATE TABLE artist (artist_id INTEGER PRIMARY KEY, name TEXT);
+    CREATE TABLE settings (name TEXT);
+    INSERT INTO content VALUES (1, 'Opener', 10, 12250), (2, 'Closer', NULL, 9000);
+    INSERT INTO artist VALUES (10, 'First');
+  `);
+  await sqlite3.close(db);
+
+  const file = vfs.mapNameToFile.get("/fixture.db")!;
+  return file.data.slice(0, file.size);
+}
+
+describe("readPlusTables", () => {
+  it("opens a SQLCipher 4 library with the right key and reads the tables it maps", async () => {
+    const tables = await readPlusTables(await encryptedLibrary("open sesame"), "open sesame");
+
+    expect(tables.content).toEqual([
+      { content_id: 1, title: "Opener", artist_id_artist: 10, bpmx100: 12250 },
+      { content_id: 2, title: "Closer", artist_id_artist: null, bpmx100: 9000 },
+    ]);
+    expect(tables.artist).toEqual([{ artist_id: 10, name: "First" }]);
+    // Tables the mapping doesn't use, and ones the file lacks, are left out
+    expect(Object.keys(tables).sort()).toEqual(["artist", "content"]);
+  });
+
+  it("takes keys with quotes in them", async () => {
+    const tables = await readPlusTables(await encryptedLibrary("it's 'quoted'"), "it's 'quoted'");
+    expect(tables.content).toHaveLength(2);
+  });
+
+  it("raises PlusKeyError for a wrong key", async () => {
+    await expect(readPlusTables(await encryptedLibrary("open sesame"), "close sesame")).rejects.toBeInstanceOf(PlusKeyError);
+  });
+});
@@ -0,0 +1,79 @@
+import { PLUS_TABLES, type PlusRow, type PlusTables, type PlusTableName, type PlusValue } from './database';
+
+// exportLibrary.db is SQLCipher 4 (AES-256, default KDF). The engine is SQLite3 Multiple
+// Ciphers compiled to WASM, loaded only when a Device Library Plus drive is opened, and
+// run on an in-memory copy of the file so nothing is ever written back to the stick.
+//
+// No key ships with the app: the caller passes the one the user typed in.
+
+const DB_NAME = 'exportLibrary.db';
+
+// SQLITE_OPEN_READONLY from sqlite3.h
+const SQLITE_OPEN_READONLY = 0x1;
+
+export class PlusKeyError extends Error {
+  constructor() {
+    super('That key does not open this exportLibrary.db. Check it and try again.');
+    this.name = 'PlusKeyError';
+  }
+}
+
+function toPlusValue(value: unknown): PlusValue {
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return null; // blobs are not used by anything we map
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export async function readPlusTables(buffer: ArrayBuffer, key: string): Promise<PlusTables> {
+  const [{ default: SQLiteESMFactory }, SQLite, { MemoryVFS }] = await Promise.all([
+    import('@journeyapps/wa-sqlite/dist/mc-wa-sqlite.mjs'),
+    import('@journeyapps/wa-sqlite'),
+    import('@journeyapps/wa-sqlite/src/examples/MemoryVFS.js')
+  ]);
+
+  const module = await SQLiteESMFactory();
+  const sqlite3 = SQLite.Factory(module);
+  const vfs = new MemoryVFS('plus-memory', module);
+  await vfs.isReady();
+  sqlite3.vfs_register(vfs, false);
+  vfs.mapNameToFile.set(`/${DB_NAME}`, { pathname: `/${DB_NAME}`, flags: 0, size: buffer.byteLength, data: buffer });
+
+  // Decryption happens in a shim VFS wrapped around the real one
+  if (module.ccall('sqlite3mc_vfs_create', 'number', ['string', 'number'], [vfs.name, 0]) !== 0) {
+    throw new Error('The SQLCipher engine failed to start.');
+  }
+  const db = await sqlite3.open_v2(DB_NAME, SQLITE_OPEN_READONLY, `multipleciphers-${vfs.name}`);
+  try {
+    await sqlite3.exec(db, `PRAGMA cipher = 'sqlcipher'; PRAGMA legacy = 4; PRAGMA key = ${quoteLiteral(key)};`);
+
+    // The first real read is where a wrong key shows up ("file is not a database")
+    const present = new Set<string>();
+    try {
+      await sqlite3.exec(db, "SELECT name FROM sqlite_master WHERE type = 'table'", row => {
+        present.add(String(row[0]));
+      });
+    } catch {
+      throw new PlusKeyError();
+    }
+
+    const tables: PlusTables = {};
+    for (const table of PLUS_TABLES.filter(name => present.has(name)) as PlusTableName[]) {
+      const rows: PlusRow[] = [];
+      await sqlite3.exec(db, `SELECT * FROM "${table}"`, (row, columns) => {
+        const record: PlusRow = {};
+        columns.forEach((column, i) => {
+          record[column] = toPlusValue(row[i]);
+        });
+        rows.push(record);
+      });
+      tables[table] = rows;
+    }
+    return tables;
+  } finally {
+    await sqlite3.close(db);
+  }
+}
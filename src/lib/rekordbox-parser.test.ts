@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { isHighResolution } from "./rekordbox-parser";
+
+describe("isHighResolution", () => {
+  it("accepts what older players load: up to 48 kHz at 16 or 24 bits", () => {
+    expect(isHighResolution({ sampleRate: 44100, sampleDepth: 16 })).toBe(false);
+    expect(isHighResolution({ sampleRate: 48000, sampleDepth: 24 })).toBe(false);
+    expect(isHighResolution({})).toBe(false);
+  });
+
+  it("flags sample rates above 48 kHz and depths above 24 bits", () => {
+    expect(isHighResolution({ sampleRate: 88200, sampleDepth: 24 })).toBe(true);
+    expect(isHighResolution({ sampleRate: 96000, sampleDepth: 16 })).toBe(true);
+    expect(isHighResolution({ sampleRate: 48000, sampleDepth: 32 })).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import type { RekordboxDatabase } from '@/types/rekordbox';
+import { getFileHandleByPath } from '@/lib/rekordbox-parser';
+import { parsePdb } from '@/lib/pdb/database';
+import { headerProblem } from '@/lib/pdb/diagnostics';
+import {
+  addPlaylist,
+  editPlaylist,
+  verifyWrittenPlaylists,
+  type NewPlaylist,
+  type PlaylistEdit,
+  type PlaylistTables
+} from '@/lib/pdb/playlists';
+
+// Writes playlist changes back to export.pdb on the drive. Every write goes through the
+// same steps: get write access, read the file, back it up (and check the copy), build the
+// new image in memory and re-parse it, write it, then read it back and compare SHA-256
+// before re-parsing once more. If writing or the read-back fails, the original bytes are
+// put back before the error surfaces. The images come from lib/pdb/playlists.ts. Restoring
+// a backup runs the same steps, so a restore is itself backed up and can be undone.
+
+export const EXPORT_PDB_PATH = 'PIONEER/rekordbox/export.pdb';
+export const BACKUP_DIRECTORY = 'RBXPLORER_BACKUPS';
+
+export type WriteStep = 'permission' | 'read' | 'backup' | 'build' | 'verify-image' | 'write' | 'verify-drive';
+
+export const WRITE_STEP_LABELS: Record<WriteStep, string> = {
+  permission: 'Asking for write access',
+  read: 'Reading export.pdb',
+  backup: 'Backing up export.pdb',
+  build: 'Building the new library',
+  'verify-image': 'Checking the new library',
+  write: 'Writing to the drive',
+  'verify-drive': 'Verifying the drive'
+};
+
+export interface WriteResult {
+  database: RekordboxDatabase;
+  backupId: string; // the snapshot taken before this write
+}
+
+type BackupReason = 'pre-write' | 'pre-restore';
+
+// backup.json, next to each snapshot's copy
+interface BackupDescription {
+  id: string;
+  reason: BackupReason;
+  createdAt: string;
+  source: string;
+  files: { name: string; size: number; sha256: string }[];
+}
+
+// A verified image and how to check it again once it is on the drive
+interface PendingWrite {
+  image: Uint8Array<ArrayBuffer>;
+  verify: (bytes: Uint8Array) => RekordboxDatabase;
+}
+
+// Chromium's File System Access API with writable file handles
+export function supportsWriteAccess(): boolean {
+  return 'showDirectoryPicker' in window
+    && typeof FileSystemFileHandle !== 'undefined'
+    && 'createWritable' in FileSystemFileHandle.prototype;
+}
+
+async function requestWriteAccess(rootHandle: FileSystemDirectoryHandle): Promise<void> {
+  const descriptor = { mode: 'readwrite' } as const;
+  if ((await rootHandle.queryPermission?.(descriptor)) === 'granted') return;
+  if ((await rootHandle.requestPermission?.(descriptor)) !== 'granted') {
+    throw new Error('Write access to the drive was not granted.');
+  }
+}
+
+async function sha256(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readBytes(handle: FileSystemFileHandle): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await (await handle.getFile()).arrayBuffer());
+}
+
+// createWritable writes to a swap file and only replaces the original on close
+async function writeBytes(handle: FileSystemFileHandle, bytes: Uint8Array<ArrayBuffer>): Promise<void> {
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(bytes);
+    await writable.close();
+  } catch (error) {
+    await writable.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+async function hasDirectory(parent: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await parent.getDirectoryHandle(name, { create: false });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Millisecond timestamps, plus a suffix if two backups still land on the same one
+async function newBackupId(vault: FileSystemDirectoryHandle, reason: BackupReason): Promise<string> {
+  const base = `${new Date().toISOString().replace(/[:.]/g, '-')}_${reason}`;
+  let id = base;
+  for (let n = 2; await hasDirectory(vault, id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+// RBXPLORER_BACKUPS/<id>/export.pdb plus a backup.json describing it. The copy is read
+// back and hashed; if it doesn't match, nothing gets written.
+async function backupExportPdb(
+  rootHandle: FileSystemDirectoryHandle,
+  bytes: Uint8Array<ArrayBuffer>,
+  reason: BackupReason
+): Promise<string> {
+  const vault = await rootHandle.getDirectoryHandle(BACKUP_DIRECTORY, { create: true });
+  const id = await newBackupId(vault, reason);
+  const folder = await vault.getDirectoryHandle(id, { create: true });
+
+  const copy = await folder.getFileHandle('export.pdb', { create: true });
+  await writeBytes(copy, bytes);
+  const hash = await sha256(bytes);
+  if ((await sha256(await readBytes(copy))) !== hash) {
+    throw new Error('The backup copy of export.pdb did not verify; nothing was written.');
+  }
+
+  const description: BackupDescription = {
+    id,
+    reason,
+    createdAt: new Date().toISOString(),
+    source: EXPORT_PDB_PATH,
+    files: [{ name: 'export.pdb', size: bytes.length, sha256: hash }]
+  };
+  await writeBytes(
+    await folder.getFileHandle('backup.json', { create: true }),
+    new TextEncoder().encode(JSON.stringify(description, null, 2))
+  );
+  return id;
+}
+
+async function commitExportPdb(
+  rootHandle: FileSystemDirectoryHandle,
+  reason: BackupReason,
+  build: (original: Uint8Array<ArrayBuffer>) => Promise<PendingWrite> | PendingWrite,
+  onStep?: (step: WriteStep) => void
+): Promise<WriteResult> {
+  onStep?.('permission');
+  await requestWriteAccess(rootHandle);
+
+  onStep?.('read');
+  const handle = await getFileHandleByPath(rootHandle, EXPORT_PDB_PATH);
+  if (!handle) throw new Error(`${EXPORT_PDB_PATH} was not found on this drive.`);
+  const original = await readBytes(handle);
+
+  onStep?.('backup');
+  const backupId = await backupExportPdb(rootHandle, original, reason);
+
+  onStep?.('build');
+  const { image, verify } = await build(original);
+
+  onStep?.('verify-image');
+  verify(image);
+  const hash = await sha256(image);
+
+  try {
+    onStep?.('write');
+    await writeBytes(handle, image);
+
+    onStep?.('verify-drive');
+    const written = await readBytes(handle);
+    if ((await sha256(written)) !== hash) throw new Error('export.pdb on the drive does not match what was written.');
+    return { database: verify(written), backupId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const restored = await writeBytes(handle, original).then(() => true, () => false);
+    throw new Error(restored
+      ? `${message} The original export.pdb has been put back.`
+      : `${message} Putting the original back also failed; a copy is in ${BACKUP_DIRECTORY}/${backupId}/export.pdb.`);
+  }
+}
+
+function playlistChange(
+  original: Uint8Array,
+  change: (original: Uint8Array) => { image: Uint8Array<ArrayBuffer>; tables: PlaylistTables }
+): PendingWrite {
+  const trackCount = parsePdb(original).tracks.length;
+  const { image, tables } = change(original);
+  return { image, verify: bytes => verifyWrittenPlaylists(bytes, tables, trackCount) };
+}
+
+export function createPlaylistOnDrive(
+  rootHandle: FileSystemDirectoryHandle,
+  playlist: NewPlaylist,
+  onStep?: (step: WriteStep) => void
+): Promise<WriteResult> {
+  return commitExportPdb(rootHandle, 'pre-write', original => playlistChange(original, o => addPlaylist(o, playlist)), onStep);
+}
+
+export function editPlaylistOnDrive(
+  rootHandle: FileSystemDirectoryHandle,
+  edit: PlaylistEdit,
+  onStep?: (step: WriteStep) => void
+): Promise<WriteResult> {
+  return commitExportPdb(rootHandle, 'pre-write', original => playlistChange(original, o => editPlaylist(o, edit)), onStep);
+}
+
+function readableDatabase(bytes: Uint8Array): RekordboxDatabase {
+  const database = parsePdb(bytes);
+  const problem = headerProblem(database.diagnostics);
+  if (problem) throw new Error(`The backup is not a readable export.pdb (${problem.message}).`);
+  return database;
+}
+
+// Puts a snapshot's export.pdb back. The copy has to match the checksum in its backup.json
+// and parse; a damaged copy never replaces the library on the drive.
+export function restoreBackupOnDrive(
+  rootHandle: FileSystemDirectoryHandle,
+  backupId: string,
+  onStep?: (step: WriteStep) => void
+): Promise<WriteResult> {
+  return commitExportPdb(rootHandle, 'pre-restore', async () => {
+    const vault = await rootHandle.getDirectoryHandle(BACKUP_DIRECTORY);
+    const folder = await vault.getDirectoryHandle(backupId);
+    const description = JSON.parse(await (await (await folder.getFileHandle('backup.json')).getFile()).text()) as BackupDescription;
+    const copy = await readBytes(await folder.getFileHandle('export.pdb'));
+
+    const expected = description.files?.find(file => file.name === 'export.pdb');
+    if (!expected || expected.size !== copy.length || (await sha256(copy)) !== expected.sha256) {
+      throw new Error(`Backup ${backupId} does not match its checksum; the library on the drive was left as it is.`);
+    }
+    return { image: copy, verify: readableDatabase };
+  }, onStep);
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { parseSearchQuery, matchesPhraseTerms } from "./search-query";
+import type { PhraseAnalysis } from "@/types/rekordbox";
+
+const phrase = (kind: "intro" | "chorus" | "outro", bars: number) =>
+  ({ kind, label: kind, startBeat: 0, endBeat: bars * 4, bars, startMs: 0, endMs: 0 });
+
+const warmUp: PhraseAnalysis = { mood: "low", phrases: [phrase("intro", 16), phrase("intro", 32), phrase("chorus", 16), phrase("outro", 16)] };
+const peak: PhraseAnalysis = { mood: "high", phrases: [phrase("intro", 16), phrase("chorus", 32)] };
+
+describe("search query", () => {
+  it("splits phrase terms from text", () => {
+    expect(parseSearchQuery("Daft Punk mood:HIGH intro>=32bars")).toEqual({
+      text: "daft punk",
+      mood: "high",
+      phrases: [{ kind: "intro", comparison: ">=", bars: 32 }]
+    });
+  });
+
+  it("matches mood and phrase lengths", () => {
+    expect(matchesPhraseTerms(warmUp, parseSearchQuery("intro>32"))).toBe(true);
+    expect(matchesPhraseTerms(peak, parseSearchQuery("intro>32"))).toBe(false);
+    expect(matchesPhraseTerms(peak, parseSearchQuery("mood:high chorus=32"))).toBe(true);
+    expect(matchesPhraseTerms(undefined, parseSearchQuery("mood:low"))).toBe(false);
+    expect(matchesPhraseTerms(undefined, parseSearchQuery("techno"))).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+import { longestPhraseRun } from '@/lib/anlz/phrases';
+import type { PhraseAnalysis, PhraseKind, PhraseMood } from '@/types/rekordbox';
+
+// The search box takes plain text plus a few phrase terms, mixed freely:
+//   mood:high        tracks rekordbox analysed with the high-mood phrase set
+//   intro>32         an intro longer than 32 bars (also >=, <, <=, =; any phrase kind)
+// Everything that isn't a phrase term is matched as text like before.
+
+type Comparison = '>' | '>=' | '<' | '<=' | '=';
+
+export interface PhraseCondition {
+  kind: PhraseKind;
+  comparison: Comparison;
+  bars: number;
+}
+
+export interface SearchQuery {
+  text: string;
+  mood: PhraseMood | null;
+  phrases: PhraseCondition[];
+}
+
+const MOOD_TERM = /^mood:(high|mid|low)$/i;
+const PHRASE_TERM = /^(intro|up|down|verse|bridge|chorus|outro)(>=|<=|>|<|=)(\d+)(?:bars?)?$/i;
+
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { text: '', mood: null, phrases: [] };
+  const words: string[] = [];
+
+  for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+    const mood = MOOD_TERM.exec(word);
+    const phrase = PHRASE_TERM.exec(word);
+    if (mood) {
+      parsed.mood = mood[1].toLowerCase() as PhraseMood;
+    } else if (phrase) {
+      parsed.phrases.push({
+        kind: phrase[1].toLowerCase() as PhraseKind,
+        comparison: phrase[2] as Comparison,
+        bars: Number(phrase[3])
+      });
+    } else {
+      words.push(word);
+    }
+  }
+
+  parsed.text = words.join(' ').toLowerCase();
+  return parsed;
+}
+
+export function hasPhraseTerms(query: SearchQuery): boolean {
+  return query.mood !== null || query.phrases.length > 0;
+}
+
+function compare(value: number, comparison: Comparison, target: number): boolean {
+  switch (comparison) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '=': return value === target;
+  }
+}
+
+// Tracks without phrase analysis never match a phrase term
+export function matchesPhraseTerms(analysis: PhraseAnalysis | undefined, query: SearchQuery): boolean {
+  if (!hasPhraseTerms(query)) return true;
+  if (!analysis) return false;
+  if (query.mood && analysis.mood !== query.mood) return false;
+  return query.phrases.every(c => compare(longestPhraseRun(analysis, c.kind), c.comparison, c.bars));
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { optimiseOrder, scoreOrder } from "./set-builder";
+import { makeTrack } from "@/test/fixtures";
+import type { Track } from "@/types/rekordbox";
+
+const track = (id: number, bpm: number, key: string): Track => makeTrack(id, { bpm, key });
+
+// A walk round the wheel at a steady climb, shuffled
+const chain = [
+  track(1, 120, "1A"),
+  track(2, 121, "2A"),
+  track(3, 122, "3A"),
+  track(4, 123, "4A"),
+  track(5, 124, "5A"),
+  track(6, 125, "6A"),
+  track(7, 126, "7A"),
+  track(8, 127, "8A"),
+];
+const shuffled = [chain[4], chain[0], chain[6], chain[2], chain[7], chain[1], chain[5], chain[3]];
+
+describe("scoreOrder", () => {
+  it("scores each transition and averages them", () => {
+    const order = scoreOrder(chain.slice(0, 3));
+    expect(order.transitions).toHaveLength(2);
+    expect(order.transitions.every(t => t.relation === "adjacent")).toBe(true);
+    expect(order.score).toBe(Math.round((order.transitions[0].score + order.transitions[1].score) / 2));
+    expect(scoreOrder([chain[0]]).score).toBe(100);
+  });
+});
+
+describe("optimiseOrder", () => {
+  it("finds a clash-free running order", () => {
+    const result = optimiseOrder(shuffled);
+    expect(result.transitions.every(t => t.relation !== null)).toBe(true);
+    expect(result.score).toBeGreaterThan(scoreOrder(shuffled).score);
+    expect(result.tracks.map(t => t.id).sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("follows a build from the slowest track to the fastest", () => {
+    expect(optimiseOrder(shuffled, { energy: "build" }).tracks.map(t => t.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("puts the fastest tracks in the middle of a peak-shaped set", () => {
+    const sameKey = shuffled.map(t => ({ ...t, key: "8A" }));
+    const ids = optimiseOrder(sameKey, { energy: "peak" }).tracks.map(t => t.id);
+    expect(ids.indexOf(8)).toBeGreaterThan(2);
+    expect(ids.indexOf(8)).toBeLessThan(7);
+  });
+
+  it("keeps pinned openers and closers in place", () => {
+    const result = optimiseOrder(shuffled, { pinOpener: true, pinCloser: true });
+    expect(result.tracks[0]).toBe(shuffled[0]);
+    expect(result.tracks[7]).toBe(shuffled[7]);
+    expect(result.score).toBeGreaterThanOrEqual(scoreOrder(shuffled).score);
+  });
+
+  it("keeps repeated tracks and tracks without a key or BPM", () => {
+    const tracks = [chain[0], track(9, 0, ""), chain[1], chain[0]];
+    expect(optimiseOrder(tracks).tracks).toHaveLength(4);
+    expect(optimiseOrder(tracks, { energy: "plateau" }).tracks.filter(t => t.id === 1)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,174 @@
+import type { Track } from '@/types/rekordbox';
+import { scoreTransition, type Transition } from '@/lib/mixing';
+
+// "Optimise order" for a playlist: a search for the running order with the smoothest
+// transitions (see scoreTransition), optionally shaped to an energy curve. export.pdb has
+// no energy rating, so BPM stands in for energy: a build is a set that speeds up.
+
+export type EnergyCurve = 'none' | 'build' | 'plateau' | 'peak';
+
+export const ENERGY_CURVE_LABELS: Record<EnergyCurve, string> = {
+  none: 'Any',
+  build: 'Build',
+  plateau: 'Plateau',
+  peak: 'Peak',
+};
+
+export interface SetBuilderOptions {
+  pinOpener?: boolean;
+  pinCloser?: boolean;
+  energy?: EnergyCurve;
+}
+
+export interface SetOrder {
+  tracks: Track[];
+  // transitions[i] is from tracks[i] into tracks[i + 1]
+  transitions: Transition[];
+  // Mean transition score, 0-100
+  score: number;
+}
+
+// How far a track's BPM may sit from the curve, relative to the set's BPM span, before it
+// costs as much as a clash
+const ENERGY_WEIGHT = 60;
+// Rough cap on the 2-opt search, in segment steps, so big playlists stay interactive
+const SEARCH_BUDGET = 4_000_000;
+// Above this, only one greedy start is tried
+const MAX_GREEDY_STARTS = 80;
+
+// Target level (0 = the set's lowest BPM, 1 = its highest) at position t in [0, 1]
+function curveLevel(curve: EnergyCurve, t: number): number {
+  switch (curve) {
+    case 'build':
+      return t;
+    case 'plateau':
+      // Up to cruising speed in the first quarter, then hold
+      return Math.min(1, t / 0.25) * 0.6;
+    case 'peak':
+      // Climb to the top about 70% in, then come down half way for the close
+      return t <= 0.7 ? t / 0.7 : 1 - ((t - 0.7) / 0.3) * 0.5;
+    default:
+      return 0;
+  }
+}
+
+export function scoreOrder(tracks: Track[]): SetOrder {
+  const transitions = tracks.slice(1).map((track, i) => scoreTransition(tracks[i], track));
+  const score = transitions.length
+    ? Math.round(transitions.reduce((sum, t) => sum + t.score, 0) / transitions.length)
+    : 100;
+  return { tracks, transitions, score };
+}
+
+export function optimiseOrder(tracks: Track[], options: SetBuilderOptions = {}): SetOrder {
+  const n = tracks.length;
+  if (n <= 2) return scoreOrder(tracks);
+  const { pinOpener = false, pinCloser = false, energy = 'none' } = options;
+
+  // Work on indices: a playlist can hold the same track twice
+  const cost = tracks.map(from => tracks.map(to => 100 - scoreTransition(from, to).score));
+
+  const bpms = tracks.map(t => t.bpm).filter(bpm => bpm > 0);
+  const minBpm = Math.min(...bpms);
+  const span = Math.max(1, Math.max(...bpms) - minBpm);
+  const energyCost = (index: number, position: number): number => {
+    const bpm = tracks[index].bpm;
+    if (energy === 'none' || !(bpm > 0)) return 0;
+    const target = minBpm + curveLevel(energy, position / (n - 1)) * span;
+    return (Math.abs(bpm - target) / span) * ENERGY_WEIGHT;
+  };
+
+  const totalCost = (order: number[]): number =>
+    order.reduce((sum, index, position) => sum + energyCost(index, position) + (position > 0 ? cost[order[position - 1]][index] : 0), 0);
+
+  // The stretch of positions the search may rearrange
+  const first = pinOpener ? 1 : 0;
+  const last = pinCloser ? n - 2 : n - 1;
+
+  // Greedy: from each possible opener, always take the cheapest next track
+  const greedy = (start: number | null): number[] => {
+    const used = new Array<boolean>(n).fill(false);
+    const order: number[] = [];
+    if (pinOpener) {
+      order.push(0);
+      used[0] = true;
+    }
+    if (pinCloser) used[n - 1] = true;
+    if (start !== null) {
+      order.push(start);
+      used[start] = true;
+    }
+    while (order.length <= last) {
+      const position = order.length;
+      let best = -1;
+      let bestCost = Infinity;
+      for (let candidate = 0; candidate < n; candidate++) {
+        if (used[candidate]) continue;
+        let c = energyCost(candidate, position);
+        if (position > 0) c += cost[order[position - 1]][candidate];
+        if (pinCloser && position === last) c += cost[candidate][n - 1];
+        if (c < bestCost) {
+          best = candidate;
+          bestCost = c;
+        }
+      }
+      order.push(best);
+      used[best] = true;
+    }
+    if (pinCloser) order.push(n - 1);
+    return order;
+  };
+
+  const original = tracks.map((_, i) => i);
+  let bestOrder = original;
+  let bestCost = totalCost(original);
+  const free = original.slice(first, last + 1);
+  const starts = free.length <= MAX_GREEDY_STARTS ? free : [null];
+  for (const start of starts) {
+    const order = greedy(start);
+    const c = totalCost(order);
+    if (c < bestCost) {
+      bestOrder = order;
+      bestCost = c;
+    }
+  }
+
+  // Cost of positions lo..hi, including the transitions between them
+  const segmentCost = (o: number[], lo: number, hi: number): number => {
+    let sum = 0;
+    for (let p = lo; p <= hi; p++) {
+      sum += energyCost(o[p], p);
+      if (p > lo) sum += cost[o[p - 1]][o[p]];
+    }
+    return sum;
+  };
+
+  // 2-opt: reverse stretches while that lowers the cost. Costs are directional (an energy
+  // boost only goes up), so a reversed stretch is rescored rather than patched.
+  let work = 0;
+  let improved = true;
+  const order = [...bestOrder];
+  while (improved && work < SEARCH_BUDGET) {
+    improved = false;
+    for (let i = first; i < last && work < SEARCH_BUDGET; i++) {
+      for (let j = i + 1; j <= last; j++) {
+        work += j - i + 1;
+        const lo = Math.max(0, i - 1);
+        const hi = Math.min(n - 1, j + 1);
+        const before = segmentCost(order, lo, hi);
+        reverse(order, i, j);
+        if (segmentCost(order, lo, hi) < before - 1e-9) {
+          improved = true;
+        } else {
+          reverse(order, i, j);
+        }
+      }
+    }
+  }
+
+  return scoreOrder(order.map(index => tracks[index]));
+}
+
+function reverse(order: number[], i: number, j: number) {
+  for (; i < j; i++, j--) [order[i], order[j]] = [order[j], order[i]];
+}
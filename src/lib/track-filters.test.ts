@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { matchesColorFilter, tagFilterMatcher } from "./track-filters";
+import { makeTrack } from "@/test/fixtures";
+import type { MyTagCategory } from "@/types/rekordbox";
+
+const categories: MyTagCategory[] = [
+  { id: 1, name: "Genre", tags: [{ id: 10, name: "House", categoryId: 1 }, { id: 11, name: "Techno", categoryId: 1 }] },
+  { id: 2, name: "Situation", tags: [{ id: 20, name: "Peak", categoryId: 2 }] },
+];
+
+const tracks = [
+  makeTrack(1, { myTagIds: [10, 20] }),
+  makeTrack(2, { myTagIds: [11] }),
+  makeTrack(3, { myTagIds: [11, 20] }),
+  makeTrack(4),
+];
+
+const ids = (selected: number[]) => tracks.filter(tagFilterMatcher(categories, selected)).map(t => t.id);
+
+describe("tagFilterMatcher", () => {
+  it("matches any selected tag within a category", () => {
+    expect(ids([10, 11])).toEqual([1, 2, 3]);
+  });
+
+  it("needs a match in every category with a selection", () => {
+    expect(ids([10, 11, 20])).toEqual([1, 3]);
+    expect(ids([20])).toEqual([1, 3]);
+  });
+
+  it("ignores tag IDs no category knows", () => {
+    expect(ids([99])).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("matchesColorFilter", () => {
+  it("matches the selected colors, with 0 for tracks that have none", () => {
+    const colored = [makeTrack(1, { colorId: 2 }), makeTrack(2, { colorId: 5 }), makeTrack(3), makeTrack(4, { colorId: 0 })];
+    expect(colored.filter(t => matchesColorFilter(t, [2])).map(t => t.id)).toEqual([1]);
+    expect(colored.filter(t => matchesColorFilter(t, [0])).map(t => t.id)).toEqual([3, 4]);
+    expect(colored.filter(t => matchesColorFilter(t, [0, 5])).map(t => t.id)).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,20 @@
+import type { MyTagCategory, Track } from '@/types/rekordbox';
+
+// The color filter; ID 0 stands for "no color", so unlabelled tracks can be picked out too
+export function matchesColorFilter(track: Track, selected: number[]): boolean {
+  return selected.includes(track.colorId ?? 0);
+}
+
+// The MyTag filter: a track passes with any selected tag of a category, and has to pass
+// every category something is selected in ("House or Techno, and Peak time")
+export function tagFilterMatcher(categories: MyTagCategory[], selected: number[]): (track: Track) => boolean {
+  const selectedByCategory: number[][] = [];
+  for (const category of categories) {
+    const ids = category.tags.filter(tag => selected.includes(tag.id)).map(tag => tag.id);
+    if (ids.length > 0) selectedByCategory.push(ids);
+  }
+  return track => {
+    const trackTagIds = track.myTagIds || [];
+    return selectedByCategory.every(ids => ids.some(id => trackTagIds.includes(id)));
+  };
+}
@@ -5,13 +5,26 @@ import { LibraryView } from '@/components/LibraryView';
 const Index = () => {
   const {
     status,
+    rootHandle,
+    analysis,
     directoryPath,
     fileEntries,
     selectedPlaylist,
     searchQuery,
+    colorFilter,
+    tagFilter,
+    statFilter,
     sortColumn,
     sortDirection,
     selectFolder,
+    cancelLoad,
+    openDeviceLibraryPlus,
+    loadDemoLibrary,
+    canEditPlaylists,
+    createPlaylist,
+    editPlaylist,
+    canRestoreBackup,
+    restoreLastBackup,
     performFullScan,
     navigateToDirectory,
     navigateUp,
@@ -19,6 +32,9 @@ const Index = () => {
     reset,
     setSelectedPlaylist,
     setSearchQuery,
+    setColorFilter,
+    setTagFilter,
+    setStatFilter,
     getFilteredTracks,
     handleSort,
     fileInputRef,
@@ -32,10 +48,22 @@ const Index = () => {
       <LibraryView
         database={status.database}
         libraries={status.libraries}
+        rootHandle={rootHandle}
+        analysis={analysis}
+        canEditPlaylists={canEditPlaylists}
+        onCreatePlaylist={createPlaylist}
+        onEditPlaylist={editPlaylist}
+        onRestoreBackup={canRestoreBackup ? restoreLastBackup : undefined}
         selectedPlaylist={selectedPlaylist}
         onSelectPlaylist={setSelectedPlaylist}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        colorFilter={colorFilter}
+        onColorFilterChange={setColorFilter}
+        tagFilter={tagFilter}
+        onTagFilterChange={setTagFilter}
+        statFilter={statFilter}
+        onStatFilterChange={setStatFilter}
         sortColumn={sortColumn}
         sortDirection={sortDirection}
         onSort={handleSort}
@@ -57,6 +85,9 @@ const Index = () => {
       onSelectFolder={selectFolder}
       onFullScan={performFullScan}
       onReset={reset}
+      onCancelLoad={cancelLoad}
+      onOpenPlus={openDeviceLibraryPlus}
+      onTryDemo={loadDemoLibrary}
       onSelectFile={triggerFileInput}
       fileInputRef={fileInputRef}
       onFileInput={handleFileInput}
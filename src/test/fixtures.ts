@@ -0,0 +1,32 @@
+import type { Playlist, Track } from "@/types/rekordbox";
+
+// Shared test data: a plain track (six minutes, no BPM or key) and a playlist, for the
+// lib tests that don't need a full export.pdb. Tests override whatever they look at.
+
+export const makeTrack = (id: number, fields: Partial<Track> = {}): Track => ({
+  id,
+  title: `Track ${id}`,
+  artist: "",
+  album: "",
+  genre: "",
+  duration: 360,
+  bpm: 0,
+  key: "",
+  label: "",
+  year: 0,
+  rating: 0,
+  bitrate: 320,
+  filePath: "",
+  dateAdded: new Date("2024-05-03T00:00:00Z"),
+  ...fields,
+});
+
+// A folder when it has children
+export const makePlaylist = (id: number, name: string, trackIds: number[], children: Playlist[] = []): Playlist => ({
+  id,
+  name,
+  parentId: null,
+  isFolder: children.length > 0,
+  children,
+  trackIds,
+});
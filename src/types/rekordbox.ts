@@ -13,6 +13,49 @@ export interface Track {
   dateAdded: Date;
   label?: string;
   year?: number;
+  colorId?: number; // 0 = no color
+  color?: string;
+  artworkId?: number;
+  artworkPath?: string; // e.g. /PIONEER/Artwork/00001/a1.jpg
+  myTagIds?: number[]; // from exportExt.pdb
+  myTags?: string[];
+  composer?: string;
+  originalArtist?: string;
+  remixer?: string;
+  lyricist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  isrc?: string;
+  comment?: string;
+  mixName?: string;
+  message?: string;
+  releaseDate?: string; // as stored, usually YYYY-MM-DD
+  fileName?: string;
+  analyzePath?: string; // e.g. /PIONEER/USBANLZ/P016/0000875E/ANLZ0000.DAT
+  analyzeDate?: string;
+  sampleRate?: number; // Hz
+  sampleDepth?: number; // bits
+  fileSize?: number; // bytes
+  playCount?: number;
+  kuvoPublic?: boolean;
+  autoloadHotcues?: boolean;
+}
+
+export interface TrackColor {
+  id: number;
+  name: string;
+}
+
+export interface MyTag {
+  id: number;
+  name: string;
+  categoryId: number;
+}
+
+export interface MyTagCategory {
+  id: number;
+  name: string;
+  tags: MyTag[];
 }
 
 export interface Playlist {
@@ -22,11 +65,107 @@ export interface Playlist {
   isFolder: boolean;
   children: Playlist[];
   trackIds: number[];
+  isHistory?: boolean;
+  date?: Date; // history sessions only, when the name carries one
 }
 
 export interface RekordboxDatabase {
   tracks: Track[];
   playlists: Playlist[];
+  history: Playlist[];
+  colors: TrackColor[];
+  myTagCategories: MyTagCategory[];
+  diagnostics: ParseDiagnostics;
+}
+
+// What the parser skipped or could not make sense of, so a missing track can be traced
+// to either the stick or the parser
+export type ParseDiagnosticKind =
+  | 'skipped-row'     // row present in the page index but not read
+  | 'invalid-id'      // row read but its ID is out of range
+  | 'bad-string'      // DeviceSQL string unreadable; the field is left empty
+  | 'bad-page'        // page header unusable; the rest of the page is skipped
+  | 'broken-chain'    // next_page pointer leads nowhere valid; the rest of the table is skipped
+  | 'bad-table'       // table pointer in the file header is out of range
+  | 'bad-header'      // file header unusable (too short, bad page size); nothing was read
+  | 'unreadable-file';
+
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  file: string;
+  tableType: number | null;
+  table: string | null;
+  page: number | null;
+  offset: number | null; // absolute byte offset in the file
+  message: string;
+}
+
+export interface ParseDiagnostics {
+  entries: ParseDiagnostic[];
+  dropped: number; // entries past the cap, counted but not kept
+}
+
+// From the PQTZ section of a track's ANLZ0000.DAT
+export interface BeatgridSummary {
+  firstBeatMs: number;
+  beatCount: number;
+  barCount: number;
+  minBpm: number;
+  maxBpm: number;
+  variableTempo: boolean;
+}
+
+// What the ANLZ files under PIONEER/USBANLZ add to a track. Every part is optional:
+// rekordbox only writes what the export settings asked for.
+// PWAV: the fixed-width overview the players draw above the jog wheel
+export interface WaveformPreview {
+  heights: Uint8Array;   // 0-31 per column
+  whiteness: Uint8Array; // 0-7 per column, higher is brighter
+}
+
+// PWV5 (colour) or PWV3 (monochrome) from the .EXT file, 150 entries per second
+export interface WaveformDetail {
+  entriesPerSecond: number;
+  heights: Uint8Array;      // 0-31 per entry
+  colors: Uint8Array;       // r, g, b (0-255) per entry
+  color: boolean;           // false when only the monochrome PWV3 was available
+}
+
+// PCOB (.DAT) or PCO2 (.EXT). Only PCO2 carries colours and comments.
+export interface Cue {
+  hotCue: number; // 0 for a memory cue, 1-8 for hot cues A-H
+  isLoop: boolean;
+  timeMs: number;
+  loopEndMs?: number;
+  color?: string; // hex
+  comment: string;
+}
+
+// rekordbox picks one of three phrase sets per track from its mood
+export type PhraseMood = 'high' | 'mid' | 'low';
+
+export type PhraseKind = 'intro' | 'up' | 'down' | 'verse' | 'bridge' | 'chorus' | 'outro';
+
+export interface Phrase {
+  kind: PhraseKind;
+  label: string; // as the players show it, e.g. "Verse 2"
+  startBeat: number; // 1-based, into the beatgrid
+  endBeat: number;
+  bars: number;
+  startMs: number;
+  endMs: number;
+}
+
+export interface PhraseAnalysis {
+  mood: PhraseMood;
+  phrases: Phrase[];
+}
+
+export interface TrackAnalysis {
+  beatgrid?: BeatgridSummary;
+  preview?: WaveformPreview;
+  cues?: Cue[];
+  phrases?: PhraseAnalysis;
 }
 
 export interface FileEntry {
@@ -42,15 +181,48 @@ export interface LibraryPresence {
   hasPlus: boolean;
 }
 
+export interface ParseProgress {
+  stage: 'reading' | 'parsing' | 'merging';
+  table?: string; // e.g. 'tracks'
+  page?: number;
+  pageCount?: number;
+  fraction: number; // 0-1 across the whole load
+  warning?: string;
+}
+
 export type USBStatus = 
   | { type: 'idle' }
-  | { type: 'loading' }
+  | { type: 'loading'; progress?: ParseProgress }
   | { type: 'valid'; database: RekordboxDatabase; libraries: LibraryPresence }
   | { type: 'partial'; message: string; libraries?: LibraryPresence }
   | { type: 'invalid'; message: string }
   | { type: 'error'; message: string };
 
-export type ViewMode = 'library' | 'files';
+export type ViewMode = 'library' | 'files' | 'diagnostics' | 'setBuilder' | 'stats' | 'duplicates' | 'health';
 
-export type SortColumn = 'title' | 'artist' | 'album' | 'genre' | 'duration' | 'bpm' | 'label' | 'year';
+export type SortColumn =
+  | 'position'
+  | 'title'
+  | 'artist'
+  | 'album'
+  | 'genre'
+  | 'duration'
+  | 'bpm'
+  | 'key'
+  | 'label'
+  | 'year'
+  | 'color'
+  | 'composer'
+  | 'remixer'
+  | 'originalArtist'
+  | 'mixName'
+  | 'comment'
+  | 'isrc'
+  | 'trackNumber'
+  | 'discNumber'
+  | 'sampleRate'
+  | 'sampleDepth'
+  | 'fileSize'
+  | 'playCount'
+  | 'cues';
 export type SortDirection = 'asc' | 'desc';
\ No newline at end of file
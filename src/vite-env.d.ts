@@ -9,6 +9,9 @@ interface FileSystemDirectoryHandle {
   entries(): AsyncIterableIterator<[string, FileSystemHandle]>;
   values(): AsyncIterableIterator<FileSystemHandle>;
   keys(): AsyncIterableIterator<string>;
+  // Chromium only; the folder is opened read-only and upgraded before the first write
+  queryPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
 }
 
 interface FileSystemFileHandle {
@@ -12,6 +12,10 @@ export default defineConfig(() => ({
     },
   },
   plugins: [react()],
+  // The SQLCipher engine locates its .wasm relative to its own module; pre-bundling breaks that
+  optimizeDeps: {
+    exclude: ["@journeyapps/wa-sqlite"],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
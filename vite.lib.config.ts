@@ -0,0 +1,31 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// The decoding core (src/lib/pdb) as a standalone ES module, plus the `rbx` CLI on top of it.
+// Node built-ins stay external; the core itself has no dependencies.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  publicDir: false,
+  build: {
+    outDir: "dist-lib",
+    target: "node18",
+    minify: false,
+    lib: {
+      entry: {
+        pdb: path.resolve(__dirname, "src/lib/pdb/index.ts"),
+        rbx: path.resolve(__dirname, "src/cli/rbx.ts"),
+      },
+      formats: ["es"],
+    },
+    rollupOptions: {
+      external: [/^node:/],
+      output: {
+        banner: (chunk) => (chunk.name === "rbx" ? "#!/usr/bin/env node" : ""),
+      },
+    },
+  },
+});